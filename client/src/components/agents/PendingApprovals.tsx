@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Check, Loader2, X } from 'lucide-react';
+import type { Approval, Workflow } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface PendingApprovalsProps {
+  agentId: number;
+  workflows?: Workflow[];
+}
+
+/**
+ * Lists the runs of an agent's workflows that wait at an approval node,
+ * with the data to review, and approves or rejects them
+ */
+const PendingApprovals: React.FC<PendingApprovalsProps> = ({ agentId, workflows = [] }) => {
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [decidingId, setDecidingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const queryKey = ['/api/approvals', agentId, 'pending'];
+  const { data: approvals = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      return apiRequest<Approval[]>('GET', `/api/approvals?agentId=${agentId}&status=pending`);
+    },
+    refetchInterval: 10000
+  });
+
+  const decide = async (approval: Approval, action: 'approve' | 'reject') => {
+    setDecidingId(approval.id);
+    try {
+      await apiRequest('POST', `/api/approvals/${approval.id}/${action}`, {
+        comment: comments[approval.id] || undefined
+      });
+      toast({
+        title: action === 'approve' ? 'Approved' : 'Rejected',
+        description: `The run of "${approval.title}" continues on the ${action === 'approve' ? 'Approved' : 'Rejected'} output`
+      });
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/agents', agentId, 'logs'] });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save the decision',
+        variant: 'destructive'
+      });
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const getWorkflowName = (workflowId: number) =>
+    workflows.find(workflow => workflow.id === workflowId)?.name || `Workflow ${workflowId}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approvals</CardTitle>
+        <CardDescription>
+          Runs waiting for a decision before they continue
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span className="ml-2">Loading approvals...</span>
+          </div>
+        ) : approvals.length > 0 ? (
+          <div className="grid gap-4">
+            {approvals.map(approval => (
+              <Card key={approval.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-start">
+                    <CardTitle className="text-base">{approval.title}</CardTitle>
+                    <Badge variant="outline">pending</Badge>
+                  </div>
+                  <CardDescription>
+                    {getWorkflowName(approval.workflowId)} · node {approval.nodeId} · requested{' '}
+                    {format(new Date(approval.createdAt), 'MMM dd, yyyy HH:mm:ss')}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="pt-2 grid gap-3">
+                  {approval.message && (
+                    <p className="text-sm whitespace-pre-line">{approval.message}</p>
+                  )}
+                  <pre className="text-xs whitespace-pre-wrap overflow-auto max-h-[300px] p-2 bg-muted rounded-md">
+                    {typeof approval.data === 'string' ? approval.data : JSON.stringify(approval.data, null, 2)}
+                  </pre>
+                  <Textarea
+                    value={comments[approval.id] || ''}
+                    onChange={(e) => setComments(prev => ({ ...prev, [approval.id]: e.target.value }))}
+                    placeholder="Comment (optional)"
+                    className="text-sm min-h-[60px]"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      disabled={decidingId === approval.id}
+                      onClick={() => decide(approval, 'reject')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                    <Button
+                      disabled={decidingId === approval.id}
+                      onClick={() => decide(approval, 'approve')}
+                    >
+                      <Check className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center p-8 border rounded-lg bg-muted/50">
+            <h3 className="font-medium">No pending approvals</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              Runs that reach an approval node wait here for a decision.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PendingApprovals;
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { NodeErrorKind, NodeExecutionPolicy } from '@/lib/types/workflow';
+import { DEFAULT_RETRY_DELAY } from '@/lib/enhancedWorkflowEngine';
+
+interface ExecutionPolicySettingsProps {
+  policy: NodeExecutionPolicy;
+  onChange: (policy: NodeExecutionPolicy) => void;
+}
+
+const ERROR_KIND_OPTIONS: { value: NodeErrorKind; label: string }[] = [
+  { value: 'timeout', label: 'Timeouts' },
+  { value: 'network', label: 'Network errors' },
+  { value: 'rate_limit', label: 'Rate limits (429)' },
+  { value: 'server_error', label: 'Server errors (5xx)' },
+  { value: 'other', label: 'Other errors' }
+];
+
+/**
+ * Retry, backoff, timeout and error output settings that the workflow engine applies to any node
+ */
+const ExecutionPolicySettings: React.FC<ExecutionPolicySettingsProps> = ({ policy, onChange }) => {
+  const update = (updates: Partial<NodeExecutionPolicy>) => onChange({ ...policy, ...updates });
+  const retryOn = policy.retryOn || [];
+
+  const toggleRetryOn = (kind: NodeErrorKind) => {
+    update({
+      retryOn: retryOn.includes(kind)
+        ? retryOn.filter(value => value !== kind)
+        : [...retryOn, kind]
+    });
+  };
+
+  return (
+    <div className="space-y-4 pb-6 border-t pt-4">
+      <div>
+        <h4 className="text-sm font-medium">Error Handling</h4>
+        <p className="text-xs text-muted-foreground">
+          Applied by the workflow engine to every run of this node, in the editor and on the server.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="policy-retries">Retries</Label>
+          <Input
+            id="policy-retries"
+            type="number"
+            min={0}
+            value={policy.retries ?? 0}
+            onChange={(e) => update({ retries: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="policy-timeout">Timeout (ms)</Label>
+          <Input
+            id="policy-timeout"
+            type="number"
+            min={0}
+            step={1000}
+            value={policy.timeout ?? 0}
+            onChange={(e) => update({ timeout: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Backoff</Label>
+          <Select
+            value={policy.backoff || 'fixed'}
+            onValueChange={(value) => update({ backoff: value as NodeExecutionPolicy['backoff'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="fixed">Fixed</SelectItem>
+              <SelectItem value="exponential">Exponential</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="policy-retry-delay">Retry delay (ms)</Label>
+          <Input
+            id="policy-retry-delay"
+            type="number"
+            min={0}
+            step={100}
+            value={policy.retryDelay ?? DEFAULT_RETRY_DELAY}
+            onChange={(e) => update({ retryDelay: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Retry on</Label>
+        <div className="flex flex-wrap gap-2 p-2 border rounded-md bg-background">
+          {ERROR_KIND_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              className={`px-3 py-1 text-xs rounded-full ${
+                retryOn.includes(option.value)
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:bg-muted/80'
+              }`}
+              onClick={() => toggleRetryOn(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Leave all unselected to retry every error. Timeout 0 means no limit.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="policy-error-output">Error output</Label>
+          <p className="text-xs text-muted-foreground">
+            Adds an "error" output that receives the error and input of failed runs, instead of failing the node.
+          </p>
+        </div>
+        <Switch
+          id="policy-error-output"
+          checked={!!policy.errorOutput}
+          onCheckedChange={(checked) => update({ errorOutput: checked })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ExecutionPolicySettings;
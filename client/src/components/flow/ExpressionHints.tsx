@@ -0,0 +1,43 @@
+import React from 'react';
+
+interface ExpressionHintsProps {
+  value: string;
+  suggestions: string[];
+  onChange: (value: string) => void;
+}
+
+const MAX_HINTS = 8;
+
+/**
+ * Autocomplete for expressions: while the value ends in an unclosed "{{",
+ * lists the matching suggestions and completes the expression on click
+ */
+const ExpressionHints: React.FC<ExpressionHintsProps> = ({ value, suggestions, onChange }) => {
+  const start = value.lastIndexOf('{{');
+  if (start === -1 || value.indexOf('}}', start) !== -1 || suggestions.length === 0) {
+    return null;
+  }
+
+  const partial = value.slice(start + 2).trim();
+  const matches = suggestions
+    .filter(suggestion => suggestion.startsWith(partial))
+    .slice(0, MAX_HINTS);
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="border rounded-md bg-background shadow-sm p-1 space-y-0.5">
+      {matches.map(suggestion => (
+        <button
+          key={suggestion}
+          type="button"
+          className="block w-full text-left px-2 py-1 text-xs font-mono rounded hover:bg-muted truncate"
+          onClick={() => onChange(`${value.slice(0, start)}{{ ${suggestion} }}`)}
+        >
+          {suggestion}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ExpressionHints;
@@ -17,7 +17,7 @@ import ReactFlow, {
   applyEdgeChanges
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import { Workflow } from '@shared/schema';
+import { Workflow, workflowEnvironmentSchema, WorkflowEnvironment, WorkflowVariables } from '@shared/schema';
 import { useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -25,10 +25,20 @@ import NodesPanel from './NodesPanel';
 import { useMutation } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
 import { apiRequest } from '@/lib/queryClient';
-import { ArrowLeft, Save, Play, Settings, TestTube } from 'lucide-react';
+import { ArrowLeft, Save, Play, Settings, TestTube, Server, StepForward } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import MonkeyAgentChatOverlay from '@/components/workflows/MonkeyAgentChatOverlay';
 import NodeSettingsDrawer from './NodeSettingsDrawer';
+import { withErrorOutputHandle } from '@/components/nodes/handles';
+import { withPinnedDataBadge } from '@/components/nodes/common/PinnedDataBadge';
+import { NodeExecutionData, NodeState, WorkflowExecutionState, WorkflowSettings } from '@/lib/types/workflow';
+import { DEFAULT_MAX_CONCURRENCY } from '@/lib/enhancedWorkflowEngine';
+import { executeWorkflowOnServer } from '@/lib/workflowClient';
+import { getExpressionSuggestions } from '@/lib/expressions';
+import { getDivergedNodeIds, getRecordedOutputs, getRecordedWorkflow, loadExecutionRecord } from '@/lib/workflowReplay';
+import ReplayRunMenu from './ReplayRunMenu';
+import WorkflowVariablesDialog from './WorkflowVariablesDialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 // Import loading placeholder node
 import LoadingNode from '../flow/nodes/LoadingNode';
@@ -166,6 +176,7 @@ const FlowEditor = ({
   interface ParsedFlowData {
     nodes: any[];
     edges: any[];
+    settings?: WorkflowSettings;
   }
   
   // Initialize with empty arrays
@@ -179,14 +190,16 @@ const FlowEditor = ({
         // Ensure the parsed data has the correct shape
         parsedFlowData = {
           nodes: Array.isArray(parsed.nodes) ? parsed.nodes : [],
-          edges: Array.isArray(parsed.edges) ? parsed.edges : []
+          edges: Array.isArray(parsed.edges) ? parsed.edges : [],
+          settings: parsed.settings
         };
       } else if (typeof workflow.flowData === 'object' && workflow.flowData !== null) {
         // Ensure the object has the correct shape
         const flowObj = workflow.flowData as any;
         parsedFlowData = {
           nodes: Array.isArray(flowObj.nodes) ? flowObj.nodes : [],
-          edges: Array.isArray(flowObj.edges) ? flowObj.edges : []
+          edges: Array.isArray(flowObj.edges) ? flowObj.edges : [],
+          settings: flowObj.settings
         };
       }
       
@@ -234,6 +247,10 @@ const FlowEditor = ({
   
   const [nodes, setNodes] = useNodesState(initialNodes);
   const [edges, setEdges] = useEdgesState(initialEdges);
+  const [workflowSettings, setWorkflowSettings] = useState<WorkflowSettings>(parsedFlowData.settings || {});
+  const [workflowVariables, setWorkflowVariables] = useState<WorkflowVariables>(workflow?.variables || {});
+  // Environment whose variables editor runs use
+  const [environment, setEnvironment] = useState<WorkflowEnvironment>('dev');
   const [loadedNodeTypes, setLoadedNodeTypes] = useState<Record<string, boolean>>({});
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const [reactFlowInstance, setReactFlowInstance] = useState<any>(null);
@@ -243,8 +260,13 @@ const FlowEditor = ({
   
   // Memoize the dynamic nodeTypes to prevent unnecessary re-renders
   const dynamicNodeTypes = useMemo(() => {
-    // Merge the base nodeTypes with any dynamically loaded components
-    return { ...nodeTypes, ...loadedComponents };
+    // Merge the base nodeTypes with any dynamically loaded components,
+    // adding the error output handle and pinned data badge that any node can have
+    const mergedNodeTypes: NodeTypes = { ...nodeTypes, ...loadedComponents };
+    Object.keys(mergedNodeTypes).forEach(type => {
+      mergedNodeTypes[type] = withPinnedDataBadge(withErrorOutputHandle(mergedNodeTypes[type]));
+    });
+    return mergedNodeTypes;
   }, [loadedComponents]); // Only recalculate when loadedComponents changes
   
   // Helper function to load node components for a specific type
@@ -430,7 +452,8 @@ const FlowEditor = ({
       // Create the JSON string with clean data
       const flowDataJson = JSON.stringify({
         nodes: cleanNodes,
-        edges: cleanEdges
+        edges: cleanEdges,
+        settings: workflowSettings
       });
       
       console.log("Saving workflow with flowData:", flowDataJson.slice(0, 100) + "...");
@@ -441,7 +464,8 @@ const FlowEditor = ({
           type: 'custom',
           description: 'Custom workflow',
           icon: 'flow-chart',
-          flowData: flowDataJson
+          flowData: flowDataJson,
+          variables: workflowVariables
         };
         
         return apiRequest(
@@ -452,7 +476,8 @@ const FlowEditor = ({
       } else {
         const patchData = {
           name: data.name,
-          flowData: flowDataJson
+          flowData: flowDataJson,
+          variables: workflowVariables
         };
         
         return apiRequest(
@@ -609,6 +634,8 @@ const FlowEditor = ({
 
   const { toast } = useToast();
   const [isRunning, setIsRunning] = useState(false);
+  // Node outputs of the last canvas run, reused by "Run from here"
+  const [lastRunOutputs, setLastRunOutputs] = useState<Record<string, NodeExecutionData>>({});
   const [settingsDrawerOpen, setSettingsDrawerOpen] = useState(false);
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
 
@@ -945,8 +972,8 @@ const FlowEditor = ({
     setNodes((nds) =>
       nds.map((node) => {
         if (node.id === nodeId) {
-          // Extract nodeProperties if they exist
-          const { nodeProperties, ...otherSettings } = settingsData;
+          // Extract nodeProperties and the execution policy if they exist
+          const { nodeProperties, executionPolicy, pinnedOutput, ...otherSettings } = settingsData;
           
           // Create updated node with new settings and properties
           const updatedNode = {
@@ -954,6 +981,10 @@ const FlowEditor = ({
             data: {
               ...node.data,
               settings: otherSettings,
+              // Retries and timeout are read by the workflow engine from the node data
+              executionPolicy: executionPolicy ?? node.data.executionPolicy,
+              // The engine emits a pinned output instead of executing the node (unset: unpinned)
+              pinnedOutput: 'pinnedOutput' in settingsData ? pinnedOutput : node.data.pinnedOutput,
               // For function_node, add settings to settingsData for proper display in UI
               settingsData: node.type === 'function_node' ? { 
                 ...node.data.settingsData,
@@ -990,7 +1021,104 @@ const FlowEditor = ({
     });
   };
   
-  const handleRunWorkflow = async () => {
+  // Show a node's execution state on the canvas; independent nodes may run at
+  // the same time, so each update starts from the latest nodes
+  const applyNodeState = (nodeId: string, nodeState: NodeState) => {
+    setNodes(currentNodes => currentNodes.map(node => {
+      if (node.id === nodeId) {
+        return {
+          ...node,
+          data: {
+            ...node.data,
+            _isProcessing: nodeState.status === 'running',
+            _isComplete: nodeState.status === 'completed',
+            _hasError: nodeState.status === 'error',
+            _errorMessage: nodeState.error,
+            _searchResult: nodeState.output?.items?.[0]?.json, // Store result in node data
+            textContent: nodeState.output?.items?.[0]?.json,   // Update text content for visualization nodes
+          }
+        };
+      }
+      return node;
+    }) as Node[]);
+  };
+  
+  // Workflow completion handler, for canvas and server runs
+  const reportWorkflowResult = (finalState: WorkflowExecutionState) => {
+    // Check if there were any errors
+    const hasErrors = Object.values(finalState.nodeStates).some(
+      state => state.status === 'error'
+    );
+    
+    if (finalState.status === 'suspended') {
+      toast({
+        title: "Workflow Execution",
+        description: `Waiting for approval at node ${finalState.suspendedNodeId}. Approvals of server runs are decided on the agent page.`,
+      });
+    } else if (hasErrors || finalState.status === 'error' || finalState.status === 'cancelled') {
+      toast({
+        title: "Workflow Execution",
+        description: finalState.error || "Workflow completed with errors. Check node states for details.",
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Workflow Execution",
+        description: "Workflow ran successfully!",
+      });
+    }
+    
+    // Measure execution time
+    const duration = finalState.endTime && finalState.startTime
+      ? (finalState.endTime.getTime() - finalState.startTime.getTime()) / 1000
+      : null;
+      
+    console.log(`Workflow execution completed in ${duration}s with status: ${finalState.status}`);
+    
+    // Display the final workflow output if available
+    if (finalState.output) {
+      console.log('Workflow final output:', finalState.output);
+    }
+  };
+  
+  // Run the saved workflow on the server; node states arrive live over WebSocket
+  const handleRunOnServer = async () => {
+    if (!workflow?.id) return;
+    setIsRunning(true);
+    
+    try {
+      // Clear the states of the previous run
+      setNodes(currentNodes => currentNodes.map(node => ({
+        ...node,
+        data: {
+          ...node.data,
+          _isProcessing: false,
+          _isComplete: false,
+          _hasError: false,
+          _errorMessage: undefined
+        }
+      })) as Node[]);
+      
+      await executeWorkflowOnServer(workflow.id, {}, {
+        onNodeStateChange: applyNodeState,
+        onWorkflowComplete: reportWorkflowResult,
+        environment
+      });
+    } catch (error: any) {
+      console.error('Error executing workflow on server:', error);
+      toast({
+        title: "Workflow Execution Error",
+        description: error?.message || "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+  
+  // Run the workflow on the canvas; with startNodeId, only that node and everything
+  // downstream of it run, and the other nodes reuse their outputs from the last run
+  const handleRunWorkflow = async (startNodeId?: string) => {
     setIsRunning(true);
     
     try {
@@ -1009,22 +1137,11 @@ const FlowEditor = ({
       await Promise.all(loadComponentPromises);
       
       // Import the enhanced workflow engine
-      const { executeEnhancedWorkflow, registerAllEnhancedNodeExecutors } = await import('@/lib/enhancedWorkflowEngine');
+      const { executeEnhancedWorkflow, getRerunPresetOutputs, registerAllEnhancedNodeExecutors } = await import('@/lib/enhancedWorkflowEngine');
       
       // Register all enhanced node executors, which includes legacy node compatibility
       await registerAllEnhancedNodeExecutors();
       
-      // Show all nodes as processing - using type assertion to satisfy TypeScript
-      setNodes(nodes.map(node => {
-        return {
-          ...node,
-          data: {
-            ...node.data,
-            _isProcessing: true
-          }
-        };
-      }) as Node[]);
-      
       // Convert ReactFlow nodes/edges to workflow format
       const workflowData = {
         nodes: nodes.map(node => ({
@@ -1039,66 +1156,37 @@ const FlowEditor = ({
           target: edge.target,
           sourceHandle: edge.sourceHandle ? edge.sourceHandle : undefined,
           targetHandle: edge.targetHandle ? edge.targetHandle : undefined
-        }))
+        })),
+        settings: workflowSettings
       };
       
+      const presetOutputs = startNodeId
+        ? getRerunPresetOutputs(workflowData, startNodeId, lastRunOutputs)
+        : {};
+      
+      // Show the nodes that will run as processing - using type assertion to satisfy TypeScript
+      setNodes(nodes.map(node => {
+        return {
+          ...node,
+          data: {
+            ...node.data,
+            _isProcessing: !presetOutputs[node.id] && !node.data.pinnedOutput
+          }
+        };
+      }) as Node[]);
+      
       // Execute the enhanced workflow with new data format
-      await executeEnhancedWorkflow(
+      const finalState = await executeEnhancedWorkflow(
         workflowData,
-        // Node state change handler
-        (nodeId, nodeState) => {
-          const updatedNodes = nodes.map(node => {
-            if (node.id === nodeId) {
-              return {
-                ...node,
-                data: {
-                  ...node.data,
-                  _isProcessing: nodeState.status === 'running',
-                  _isComplete: nodeState.status === 'completed',
-                  _hasError: nodeState.status === 'error',
-                  _errorMessage: nodeState.error,
-                  _searchResult: nodeState.output?.items?.[0]?.json, // Store result in node data
-                  textContent: nodeState.output?.items?.[0]?.json,   // Update text content for visualization nodes
-                }
-              };
-            }
-            return node;
-          });
-          setNodes(updatedNodes as Node[]);
-        },
-        // Workflow completion handler
-        (finalState) => {
-          // Check if there were any errors
-          const hasErrors = Object.values(finalState.nodeStates).some(
-            state => state.status === 'error'
-          );
-          
-          if (hasErrors || finalState.status === 'error') {
-            toast({
-              title: "Workflow Execution",
-              description: finalState.error || "Workflow completed with errors. Check node states for details.",
-              variant: "destructive"
-            });
-          } else {
-            toast({
-              title: "Workflow Execution",
-              description: "Workflow ran successfully!",
-            });
-          }
-          
-          // Measure execution time
-          const duration = finalState.endTime && finalState.startTime
-            ? (finalState.endTime.getTime() - finalState.startTime.getTime()) / 1000
-            : null;
-            
-          console.log(`Workflow execution completed in ${duration}s with status: ${finalState.status}`);
-          
-          // Display the final workflow output if available
-          if (finalState.output) {
-            console.log('Workflow final output:', finalState.output);
-          }
+        applyNodeState,
+        reportWorkflowResult,
+        {
+          presetOutputs,
+          metadata: { environment },
+          variables: workflowVariables[environment] || {}
         }
       );
+      setLastRunOutputs(finalState.nodeOutputs);
     } catch (error) {
       console.error('Error executing workflow:', error);
       toast({
@@ -1111,6 +1199,95 @@ const FlowEditor = ({
     }
   };
 
+  // Replay a recorded server run: nodes that call external services return their
+  // recorded outputs, every other node runs again on the recorded workflow
+  const handleReplayRun = async (executionRecordId: number) => {
+    setIsRunning(true);
+    
+    try {
+      const record = await loadExecutionRecord(executionRecordId);
+      const { executeEnhancedWorkflow, registerAllEnhancedNodeExecutors } = await import('@/lib/enhancedWorkflowEngine');
+      await registerAllEnhancedNodeExecutors();
+      
+      // Clear the states of the previous run
+      setNodes(currentNodes => currentNodes.map(node => ({
+        ...node,
+        data: {
+          ...node.data,
+          _isProcessing: false,
+          _isComplete: false,
+          _hasError: false,
+          _errorMessage: undefined
+        }
+      })) as Node[]);
+      
+      const finalState = await executeEnhancedWorkflow(
+        getRecordedWorkflow(record),
+        applyNodeState,
+        undefined,
+        {
+          recordedOutputs: getRecordedOutputs(record),
+          // Variables come from the recorded run's environment, with their current values
+          metadata: { replayOf: record.id, environment: record.environment },
+          variables: workflowVariables[record.environment || 'dev'] || {}
+        }
+      );
+      setLastRunOutputs(finalState.nodeOutputs);
+      
+      const divergedNodeIds = getDivergedNodeIds(finalState, record);
+      toast({
+        title: `Replay of run #${record.id}`,
+        description: divergedNodeIds.length === 0
+          ? "Every node produced the recorded output."
+          : `Output differs from the recording at: ${divergedNodeIds.join(', ')}`,
+        variant: divergedNodeIds.length === 0 ? undefined : "destructive"
+      });
+    } catch (error: any) {
+      console.error('Error replaying workflow run:', error);
+      toast({
+        title: "Replay Error",
+        description: error?.message || "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Expressions the settings drawer offers for the selected node: the outputs of
+  // every node upstream of it, from the last canvas run, and the workflow variables
+  const expressionSuggestions = useMemo(() => {
+    if (!selectedNode) return [];
+    
+    const upstreamNodeIds: string[] = [];
+    const queue = [selectedNode.id];
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      edges.forEach(edge => {
+        if (edge.target === nodeId && !upstreamNodeIds.includes(edge.source) && edge.source !== selectedNode.id) {
+          upstreamNodeIds.push(edge.source);
+          queue.push(edge.source);
+        }
+      });
+    }
+    const inputNodeId = edges.find(edge => edge.target === selectedNode.id)?.source;
+    
+    return getExpressionSuggestions({
+      upstreamNodes: upstreamNodeIds.map(id => ({
+        id,
+        label: nodes.find(node => node.id === id)?.data?.label,
+        output: lastRunOutputs[id]
+      })),
+      input: inputNodeId ? lastRunOutputs[inputNodeId] : undefined,
+      variables: workflowVariables[environment]
+    });
+  }, [selectedNode, nodes, edges, lastRunOutputs, workflowVariables, environment]);
+
+  // The node that "Run from here" starts from
+  const selectedCanvasNode = nodes.filter(node => node.selected).length === 1
+    ? nodes.find(node => node.selected)
+    : undefined;
+
   // Handler for when a workflow is generated by the chat
   const handleWorkflowGenerated = (workflowId: number) => {
     // If we're already on this workflow ID, simply update our nodes and edges
@@ -1179,14 +1356,65 @@ const FlowEditor = ({
           )}
 
           <div className="flex space-x-2">
+            <div className="flex items-center gap-2" title="How many independent nodes may run at the same time">
+              <span className="text-sm text-muted-foreground">Max parallel</span>
+              <Input
+                type="number"
+                min={1}
+                value={workflowSettings.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY}
+                onChange={(e) => setWorkflowSettings(settings => ({
+                  ...settings,
+                  maxConcurrency: Math.max(1, parseInt(e.target.value, 10) || 1)
+                }))}
+                className="w-16"
+              />
+            </div>
+            <Select value={environment} onValueChange={(value) => setEnvironment(value as WorkflowEnvironment)}>
+              <SelectTrigger className="w-28" title="Environment whose variables runs use">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workflowEnvironmentSchema.options.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <WorkflowVariablesDialog variables={workflowVariables} onChange={setWorkflowVariables} />
             <Button 
-              onClick={handleRunWorkflow}
+              onClick={() => handleRunWorkflow()}
               disabled={isRunning}
               variant="outline"
             >
               <Play className="h-4 w-4 mr-2" />
               Run
             </Button>
+            <Button
+              onClick={() => selectedCanvasNode && handleRunWorkflow(selectedCanvasNode.id)}
+              disabled={isRunning || !selectedCanvasNode || Object.keys(lastRunOutputs).length === 0}
+              variant="outline"
+              title="Run the selected node and everything after it, reusing the other nodes' outputs from the last run"
+            >
+              <StepForward className="h-4 w-4 mr-2" />
+              Run from here
+            </Button>
+            {workflow?.id && (
+              <Button
+                onClick={handleRunOnServer}
+                disabled={isRunning}
+                variant="outline"
+                title="Run the saved version of this workflow on the server"
+              >
+                <Server className="h-4 w-4 mr-2" />
+                Run on Server
+              </Button>
+            )}
+            {workflow?.id && (
+              <ReplayRunMenu
+                workflowId={workflow.id}
+                disabled={isRunning}
+                onReplay={handleReplayRun}
+              />
+            )}
             {workflow?.id && (
               <Button
                 onClick={() => navigate(`/workflow-test/${workflow.id}`)}
@@ -1236,6 +1464,8 @@ const FlowEditor = ({
         onClose={() => setSettingsDrawerOpen(false)}
         node={selectedNode}
         onSettingsChange={handleSettingsChange}
+        lastOutput={selectedNode ? lastRunOutputs[selectedNode.id] : undefined}
+        expressionSuggestions={expressionSuggestions}
       />
       
       {/* Monkey Agent Chat Overlay */}
@@ -23,12 +23,20 @@ import { Save, X, BookOpen, HelpCircle } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { Agent } from '@shared/schema';
 import NodeReadmeModal from '@/components/nodes/common/NodeReadmeModal';
+import ExecutionPolicySettings from './ExecutionPolicySettings';
+import PinnedDataSettings from './PinnedDataSettings';
+import ExpressionHints from './ExpressionHints';
+import { NodeExecutionData, NodeExecutionPolicy } from '@/lib/types/workflow';
 
 interface NodeSettingsDrawerProps {
   isOpen: boolean;
   onClose: () => void;
   node: Node<NodeData> | null;
   onSettingsChange: (nodeId: string, settings: Record<string, any>) => void;
+  // The node's output from the last canvas run, which can be pinned
+  lastOutput?: NodeExecutionData;
+  // Expressions offered while typing "{{" in text settings (see getExpressionSuggestions)
+  expressionSuggestions?: string[];
 }
 
 type TabType = 'properties' | 'variables' | 'settings';
@@ -53,6 +61,8 @@ const NodeSettingsDrawer: React.FC<NodeSettingsDrawerProps> = ({
   onClose,
   node,
   onSettingsChange,
+  lastOutput,
+  expressionSuggestions = [],
 }) => {
   const [activeTab, setActiveTab] = React.useState<TabType>('properties');
   const [settings, setSettings] = React.useState<Record<string, any>>({});
@@ -60,6 +70,8 @@ const NodeSettingsDrawer: React.FC<NodeSettingsDrawerProps> = ({
   const [nodeDescription, setNodeDescription] = React.useState('');
   const [fieldOptions, setFieldOptions] = React.useState<SettingsField[]>([]);
   const [readmeModalOpen, setReadmeModalOpen] = React.useState(false);
+  const [executionPolicy, setExecutionPolicy] = React.useState<NodeExecutionPolicy>({});
+  const [pinnedOutput, setPinnedOutput] = React.useState<NodeExecutionData | undefined>();
 
   // Reset settings when node changes
   React.useEffect(() => {
@@ -77,6 +89,8 @@ const NodeSettingsDrawer: React.FC<NodeSettingsDrawerProps> = ({
       setSettings(initialSettings);
       setNodeName(node.data.label || '');
       setNodeDescription(node.data.description || '');
+      setExecutionPolicy(node.data.executionPolicy || {});
+      setPinnedOutput(node.data.pinnedOutput);
       
       // Initialize field options based on node type
       setFieldOptions(getFieldsForNodeType(node.type));
@@ -86,6 +100,8 @@ const NodeSettingsDrawer: React.FC<NodeSettingsDrawerProps> = ({
       setSettings({});
       setNodeName('');
       setNodeDescription('');
+      setExecutionPolicy({});
+      setPinnedOutput(undefined);
       setFieldOptions([]);
     }
   }, [node]);
@@ -227,20 +243,68 @@ const NodeSettingsDrawer: React.FC<NodeSettingsDrawerProps> = ({
             id: 'secret',
             label: 'Secret Key',
             type: 'password',
-            description: 'Secret key for validating webhook requests'
+            description: 'Secret callers must send when authentication is enabled'
           },
           {
             id: 'authType',
             label: 'Authentication',
             type: 'select',
-            description: 'Method of authentication for the webhook',
+            description: 'API Key expects the secret in an X-API-Key header, Bearer Token in an Authorization: Bearer header, HMAC Signature a signature of the body made with the secret',
             options: [
               { value: 'none', label: 'None' },
               { value: 'apiKey', label: 'API Key' },
-              { value: 'bearer', label: 'Bearer Token' }
+              { value: 'bearer', label: 'Bearer Token' },
+              { value: 'hmac', label: 'HMAC Signature' }
             ],
             defaultValue: 'none'
           },
+          {
+            id: 'signatureHeader',
+            label: 'Signature Header',
+            type: 'text',
+            placeholder: 'X-Hub-Signature-256',
+            description: 'Header with the signature; "sha256=" prefixes and Stripe\'s "t=…,v1=…" format are understood',
+            defaultValue: 'X-Signature',
+            showWhen: (settings) => settings.authType === 'hmac'
+          },
+          {
+            id: 'signatureAlgorithm',
+            label: 'Signature Algorithm',
+            type: 'select',
+            options: [
+              { value: 'sha256', label: 'SHA-256' },
+              { value: 'sha1', label: 'SHA-1' }
+            ],
+            defaultValue: 'sha256',
+            showWhen: (settings) => settings.authType === 'hmac'
+          },
+          {
+            id: 'signatureEncoding',
+            label: 'Signature Encoding',
+            type: 'select',
+            options: [
+              { value: 'hex', label: 'Hex' },
+              { value: 'base64', label: 'Base64' }
+            ],
+            defaultValue: 'hex',
+            showWhen: (settings) => settings.authType === 'hmac'
+          },
+          {
+            id: 'timestampHeader',
+            label: 'Timestamp Header',
+            type: 'text',
+            placeholder: 'X-Signature-Timestamp',
+            description: 'Header with the signing time in Unix seconds; the signed content is then "<timestamp>.<body>" (optional)',
+            showWhen: (settings) => settings.authType === 'hmac'
+          },
+          {
+            id: 'timestampTolerance',
+            label: 'Timestamp Tolerance (seconds)',
+            type: 'number',
+            description: 'Reject calls signed longer ago than this, to block replays (0 = off)',
+            min: 0,
+            showWhen: (settings) => settings.authType === 'hmac'
+          },
           {
             id: 'methods',
             label: 'HTTP Methods',
@@ -256,15 +320,94 @@ const NodeSettingsDrawer: React.FC<NodeSettingsDrawerProps> = ({
           }
         ];
       
+      case 'schedule_trigger':
+        return [
+          {
+            id: 'mode',
+            label: 'Schedule Type',
+            type: 'select',
+            description: 'Fire on a cron expression or at a fixed interval',
+            options: [
+              { value: 'cron', label: 'Cron Expression' },
+              { value: 'interval', label: 'Interval' }
+            ],
+            defaultValue: 'cron'
+          },
+          {
+            id: 'cron',
+            label: 'Cron Expression',
+            type: 'text',
+            placeholder: '0 9 * * MON-FRI',
+            description: 'Minute, hour, day of month, month and day of week (cron mode)'
+          },
+          {
+            id: 'interval',
+            label: 'Interval',
+            type: 'number',
+            description: 'Time between runs (interval mode)',
+            min: 1
+          },
+          {
+            id: 'intervalUnit',
+            label: 'Interval Unit',
+            type: 'select',
+            options: [
+              { value: 'seconds', label: 'Seconds' },
+              { value: 'minutes', label: 'Minutes' },
+              { value: 'hours', label: 'Hours' },
+              { value: 'days', label: 'Days' }
+            ],
+            defaultValue: 'minutes'
+          },
+          {
+            id: 'timezone',
+            label: 'Timezone',
+            type: 'text',
+            placeholder: 'Europe/Berlin',
+            description: 'IANA timezone the cron expression is evaluated in (default UTC)',
+            defaultValue: 'UTC'
+          }
+        ];
+      
+      case 'approval':
+        return [
+          {
+            id: 'title',
+            label: 'Title',
+            type: 'text',
+            placeholder: 'Send this email?',
+            description: 'What the reviewer is asked to approve',
+            defaultValue: 'Approval required'
+          },
+          {
+            id: 'message',
+            label: 'Instructions',
+            type: 'textarea',
+            description: 'Shown to the reviewer next to the data to review'
+          }
+        ];
+      
       case 'webhook_response':
         return [
+          {
+            id: 'mode',
+            label: 'Mode',
+            type: 'select',
+            description: 'Send the data to another URL, or answer the webhook call that started the run',
+            options: [
+              { value: 'request', label: 'Send to URL' },
+              { value: 'respond', label: 'Respond to Webhook' }
+            ],
+            defaultValue: 'request'
+          },
           {
             id: 'url',
             label: 'Webhook URL',
             type: 'text',
             placeholder: 'https://example.com/webhook',
             description: 'URL of the external webhook endpoint',
-            required: true
+            required: true,
+            showWhen: (settings) => settings.mode !== 'respond'
           },
           {
             id: 'method',
@@ -276,14 +419,45 @@ const NodeSettingsDrawer: React.FC<NodeSettingsDrawerProps> = ({
               { value: 'PUT', label: 'PUT' },
               { value: 'PATCH', label: 'PATCH' }
             ],
-            defaultValue: 'POST'
+            defaultValue: 'POST',
+            showWhen: (settings) => settings.mode !== 'respond'
+          },
+          {
+            id: 'statusCode',
+            label: 'Status Code',
+            type: 'number',
+            description: 'HTTP status of the response',
+            min: 100,
+            max: 599,
+            defaultValue: 200,
+            showWhen: (settings) => settings.mode === 'respond'
+          },
+          {
+            id: 'responseType',
+            label: 'Response Type',
+            type: 'select',
+            options: [
+              { value: 'json', label: 'JSON' },
+              { value: 'text', label: 'Text' },
+              { value: 'html', label: 'HTML' }
+            ],
+            defaultValue: 'json',
+            showWhen: (settings) => settings.mode === 'respond'
+          },
+          {
+            id: 'responseBody',
+            label: 'Response Body',
+            type: 'textarea',
+            placeholder: '{{ $input.json }}',
+            description: 'Body of the response; leave empty to respond with the node input',
+            showWhen: (settings) => settings.mode === 'respond'
           },
           {
             id: 'headers',
             label: 'Custom Headers',
             type: 'json',
             placeholder: '{"Content-Type": "application/json", "Authorization": "Bearer your-token"}',
-            description: 'Custom HTTP headers to include in the request (JSON format)'
+            description: 'Custom HTTP headers to include in the request or response (JSON format)'
           },
           {
             id: 'retryCount',
@@ -292,7 +466,8 @@ const NodeSettingsDrawer: React.FC<NodeSettingsDrawerProps> = ({
             description: 'Number of times to retry if the request fails',
             min: 0,
             max: 10,
-            defaultValue: 3
+            defaultValue: 3,
+            showWhen: (settings) => settings.mode !== 'respond'
           },
           {
             id: 'retryDelay',
@@ -301,7 +476,8 @@ const NodeSettingsDrawer: React.FC<NodeSettingsDrawerProps> = ({
             description: 'Delay between retry attempts in milliseconds',
             min: 100,
             max: 10000,
-            defaultValue: 1000
+            defaultValue: 1000,
+            showWhen: (settings) => settings.mode !== 'respond'
           },
           {
             id: 'timeout',
@@ -310,7 +486,8 @@ const NodeSettingsDrawer: React.FC<NodeSettingsDrawerProps> = ({
             description: 'Request timeout in milliseconds',
             min: 100,
             max: 30000,
-            defaultValue: 5000
+            defaultValue: 5000,
+            showWhen: (settings) => settings.mode !== 'respond'
           }
         ];
       case 'perplexity':
@@ -943,7 +1120,9 @@ const NodeSettingsDrawer: React.FC<NodeSettingsDrawerProps> = ({
         nodeProperties: {
           label: nodeName,
           description: nodeDescription
-        }
+        },
+        executionPolicy,
+        pinnedOutput
       };
       
       // For workflow_trigger nodes, add workflowId as a direct property 
@@ -1091,6 +1270,38 @@ return (
                     <AlertDescription>
                       This node creates a webhook endpoint that can trigger this workflow when called from external systems.
                       Configure the endpoint path, authentication method, and acceptable HTTP methods.
+                      Calls with another method get 405 and calls without the secret get 401; neither runs the workflow.
+                    </AlertDescription>
+                  </Alert>
+                </div>
+              )}
+              
+              {node.type === 'schedule_trigger' && (
+                <div className="mb-4">
+                  <p className="text-sm text-muted-foreground">
+                    Configure settings for the Schedule Trigger node.
+                  </p>
+                  
+                  <Alert className="mt-2">
+                    <AlertDescription>
+                      The server runs this workflow on the schedule while the workflow is active.
+                      Save the workflow for schedule changes to take effect. A run that is still going when the
+                      next one is due makes the scheduler skip that one.
+                    </AlertDescription>
+                  </Alert>
+                </div>
+              )}
+              
+              {node.type === 'approval' && (
+                <div className="mb-4">
+                  <p className="text-sm text-muted-foreground">
+                    Configure settings for the Approval node.
+                  </p>
+                  
+                  <Alert className="mt-2">
+                    <AlertDescription>
+                      Server runs stop at this node and wait until someone approves or rejects its input on the
+                      agent page. The run then continues down the Approved or Rejected output. Canvas runs stop here.
                     </AlertDescription>
                   </Alert>
                 </div>
@@ -1106,6 +1317,8 @@ return (
                     <AlertDescription>
                       This node sends data to an external webhook endpoint when the workflow reaches this point.
                       Configure the destination URL, HTTP method, custom headers, and retry settings.
+                      In Respond to Webhook mode it instead sets the status, headers and body of the response to the
+                      webhook call that started the run, which is sent when the run finishes.
                     </AlertDescription>
                   </Alert>
                 </div>
@@ -1440,6 +1653,15 @@ return (
                           </div>
                         )}
                         
+                        {/* Complete expressions typed into text settings */}
+                        {(field.type === 'text' || field.type === 'textarea') && field.id !== 'code' && (
+                          <ExpressionHints
+                            value={typeof settings[field.id] === 'string' ? settings[field.id] : ''}
+                            suggestions={expressionSuggestions}
+                            onChange={(value) => handleSettingChange(field.id, value)}
+                          />
+                        )}
+                        
                         {/* Show description if available */}
                         {field.description && (
                           <p className="text-xs text-muted-foreground">
@@ -1462,6 +1684,10 @@ return (
                   No settings available for this node type.
                 </div>
               )}
+              
+              <ExecutionPolicySettings policy={executionPolicy} onChange={setExecutionPolicy} />
+              
+              <PinnedDataSettings pinnedOutput={pinnedOutput} lastOutput={lastOutput} onChange={setPinnedOutput} />
             </div>
           )}
         </ScrollArea>
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Pin, PinOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { createPinnedOutput, NodeExecutionData } from '@/lib/types/workflow';
+
+interface PinnedDataSettingsProps {
+  pinnedOutput?: NodeExecutionData;
+  // The node's output from the last canvas run, if any
+  lastOutput?: NodeExecutionData;
+  onChange: (pinnedOutput: NodeExecutionData | undefined) => void;
+}
+
+// Pinned items are edited as a JSON array with one entry per item
+const getItemsJson = (output?: NodeExecutionData) =>
+  JSON.stringify((output?.items || []).map(item => item.json), null, 2);
+
+/**
+ * Pins a fixed output on a node, taken from its last run or typed in as JSON
+ */
+const PinnedDataSettings: React.FC<PinnedDataSettingsProps> = ({ pinnedOutput, lastOutput, onChange }) => {
+  const [text, setText] = React.useState(() => getItemsJson(pinnedOutput));
+  const [parseError, setParseError] = React.useState<string | null>(null);
+  // The output produced by typing; it must not reformat the text being typed
+  const typedOutput = React.useRef<NodeExecutionData | undefined>();
+
+  React.useEffect(() => {
+    if (pinnedOutput && pinnedOutput === typedOutput.current) return;
+    setText(getItemsJson(pinnedOutput));
+    setParseError(null);
+  }, [pinnedOutput]);
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    try {
+      const parsed = JSON.parse(value);
+      // A value that is not an array pins a single item
+      typedOutput.current = createPinnedOutput(Array.isArray(parsed) ? parsed : [parsed]);
+      onChange(typedOutput.current);
+      setParseError(null);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <div className="space-y-4 pb-6 border-t pt-4">
+      <div>
+        <h4 className="text-sm font-medium">Pinned Data</h4>
+        <p className="text-xs text-muted-foreground">
+          A pinned node is not executed: canvas and server runs emit the pinned output instead,
+          so the following nodes can be built and tested offline.
+        </p>
+      </div>
+
+      {pinnedOutput ? (
+        <div className="space-y-2">
+          <Label htmlFor="pinned-output">Pinned items (one array entry per item)</Label>
+          <Textarea
+            id="pinned-output"
+            value={text}
+            onChange={(e) => handleTextChange(e.target.value)}
+            className="font-mono text-xs min-h-[150px]"
+          />
+          {parseError && (
+            <p className="text-xs text-red-500">{parseError}</p>
+          )}
+          <Button variant="outline" size="sm" onClick={() => onChange(undefined)}>
+            <PinOff className="h-4 w-4 mr-2" />
+            Unpin
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!lastOutput}
+            title={lastOutput ? undefined : 'Run the workflow first'}
+            onClick={() => lastOutput && onChange({
+              ...lastOutput,
+              meta: { ...lastOutput.meta, pinnedAt: new Date().toISOString() }
+            })}
+          >
+            <Pin className="h-4 w-4 mr-2" />
+            Pin last run output
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onChange(createPinnedOutput([{}]))}>
+            <Pin className="h-4 w-4 mr-2" />
+            Pin JSON
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PinnedDataSettings;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { History } from 'lucide-react';
+import { ExecutionRecord } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+
+interface ReplayRunMenuProps {
+  workflowId: number;
+  disabled?: boolean;
+  onReplay: (executionRecordId: number) => void;
+}
+
+/**
+ * Lists the recent server runs of a workflow and replays the selected one
+ */
+const ReplayRunMenu: React.FC<ReplayRunMenuProps> = ({ workflowId, disabled, onReplay }) => {
+  const { data: records = [], refetch, isFetching } = useQuery<ExecutionRecord[]>({
+    queryKey: [`/api/executions?workflowId=${workflowId}&limit=10`],
+    enabled: false
+  });
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && refetch()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled} title="Replay a recorded server run without calling external services">
+          <History className="h-4 w-4 mr-2" />
+          Replay
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Recorded runs</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {records.length === 0 ? (
+          <div className="px-2 py-1.5 text-sm text-muted-foreground">
+            {isFetching ? 'Loading...' : 'No recorded runs yet'}
+          </div>
+        ) : (
+          records.map(record => (
+            <DropdownMenuItem key={record.id} onSelect={() => onReplay(record.id)}>
+              <span className="font-mono text-xs mr-2">#{record.id}</span>
+              <span className={record.status === 'completed' ? 'text-green-600' : 'text-red-500'}>
+                {record.status}
+              </span>
+              {record.environment && (
+                <span className="ml-2 text-xs text-muted-foreground">{record.environment}</span>
+              )}
+              <span className="ml-auto text-xs text-muted-foreground">
+                {new Date(record.startedAt).toLocaleString()}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ReplayRunMenu;
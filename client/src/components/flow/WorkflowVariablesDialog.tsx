@@ -0,0 +1,141 @@
+import React from 'react';
+import { Braces, Plus, Trash2 } from 'lucide-react';
+import { workflowEnvironmentSchema, WorkflowEnvironment, WorkflowVariables } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+
+interface WorkflowVariablesDialogProps {
+  variables: WorkflowVariables;
+  onChange: (variables: WorkflowVariables) => void;
+}
+
+// One row per variable name, with its value in every environment
+interface VariableRow {
+  name: string;
+  values: Partial<Record<WorkflowEnvironment, string>>;
+}
+
+const environments = workflowEnvironmentSchema.options;
+
+const toRows = (variables: WorkflowVariables): VariableRow[] => {
+  const names = Array.from(new Set(environments.flatMap(environment => Object.keys(variables[environment] || {}))));
+  return names.map(name => ({
+    name,
+    values: Object.fromEntries(environments
+      .filter(environment => variables[environment]?.[name] !== undefined)
+      .map(environment => [environment, String(variables[environment]![name])]))
+  }));
+};
+
+// Rows without a name are dropped, and so are empty values
+const toVariables = (rows: VariableRow[]): WorkflowVariables => {
+  const variables: WorkflowVariables = {};
+  environments.forEach(environment => {
+    const values: Record<string, string> = {};
+    rows.forEach(row => {
+      const value = row.values[environment];
+      if (row.name.trim() && value !== undefined && value !== '') {
+        values[row.name.trim()] = value;
+      }
+    });
+    variables[environment] = values;
+  });
+  return variables;
+};
+
+/**
+ * Edits the workflow's variables, with a value for each environment
+ */
+const WorkflowVariablesDialog: React.FC<WorkflowVariablesDialogProps> = ({ variables, onChange }) => {
+  const [open, setOpen] = React.useState(false);
+  const [rows, setRows] = React.useState<VariableRow[]>([]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) setRows(toRows(variables));
+    setOpen(isOpen);
+  };
+
+  const updateRow = (index: number, row: VariableRow) => {
+    setRows(current => current.map((existing, i) => (i === index ? row : existing)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" title="Variables that node settings read as {{ $vars.name }}">
+          <Braces className="h-4 w-4 mr-2" />
+          Variables
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Workflow Variables</DialogTitle>
+          <DialogDescription>
+            Node settings read these as {'{{ $vars.name }}'}. Each run uses the values of its environment.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 text-xs font-medium text-muted-foreground">
+            <span>Name</span>
+            {environments.map(environment => <span key={environment}>{environment}</span>)}
+            <span className="w-9" />
+          </div>
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2">
+              <Input
+                value={row.name}
+                placeholder="apiBase"
+                className="font-mono text-xs"
+                onChange={(e) => updateRow(index, { ...row, name: e.target.value })}
+              />
+              {environments.map(environment => (
+                <Input
+                  key={environment}
+                  value={row.values[environment] ?? ''}
+                  className="font-mono text-xs"
+                  onChange={(e) => updateRow(index, { ...row, values: { ...row.values, [environment]: e.target.value } })}
+                />
+              ))}
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Remove variable"
+                onClick={() => setRows(current => current.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setRows(current => [...current, { name: '', values: {} }])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add variable
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            onClick={() => {
+              onChange(toVariables(rows));
+              setOpen(false);
+            }}
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkflowVariablesDialog;
@@ -0,0 +1,41 @@
+/**
+ * PinnedDataBadge
+ *
+ * Marks any node component whose output is pinned (node data `pinnedOutput`),
+ * so it is obvious on the canvas that the node does not execute.
+ */
+
+import React, { ComponentType } from 'react';
+import { NodeProps } from 'reactflow';
+import { Pin } from 'lucide-react';
+
+const wrappedComponents = new WeakMap<ComponentType<NodeProps>, ComponentType<NodeProps>>();
+
+export function withPinnedDataBadge(NodeComponent: ComponentType<NodeProps>): ComponentType<NodeProps> {
+  // Keep one wrapper per component so ReactFlow does not remount nodes
+  const cached = wrappedComponents.get(NodeComponent);
+  if (cached) return cached;
+
+  const WithPinnedDataBadge = (props: NodeProps) => {
+    const itemCount = props.data?.pinnedOutput?.items?.length;
+
+    return (
+      <div className={itemCount !== undefined ? 'relative rounded-lg ring-2 ring-amber-400 ring-offset-2' : 'relative'}>
+        <NodeComponent {...props} />
+        {itemCount !== undefined && (
+          <div
+            className="absolute left-3 -top-3 flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-400 text-amber-950 text-xs font-medium shadow"
+            title="This node emits its pinned output instead of executing"
+          >
+            <Pin className="h-3 w-3" />
+            Pinned · {itemCount} item{itemCount === 1 ? '' : 's'}
+          </div>
+        )}
+      </div>
+    );
+  };
+  WithPinnedDataBadge.displayName = `WithPinnedDataBadge(${NodeComponent.displayName || NodeComponent.name || 'Node'})`;
+
+  wrappedComponents.set(NodeComponent, WithPinnedDataBadge);
+  return WithPinnedDataBadge;
+}
@@ -0,0 +1,40 @@
+/**
+ * ErrorOutputHandle
+ * 
+ * Adds the "error" output handle to any node component when the node's
+ * execution policy enables it, so node UIs do not need to render it themselves.
+ */
+
+import React, { ComponentType } from 'react';
+import { NodeProps, Position } from 'reactflow';
+import { HandleWithLabel } from './HandleWithLabel';
+
+const wrappedComponents = new WeakMap<ComponentType<NodeProps>, ComponentType<NodeProps>>();
+
+export function withErrorOutputHandle(NodeComponent: ComponentType<NodeProps>): ComponentType<NodeProps> {
+  // Keep one wrapper per component so ReactFlow does not remount nodes
+  const cached = wrappedComponents.get(NodeComponent);
+  if (cached) return cached;
+  
+  const WithErrorOutputHandle = (props: NodeProps) => (
+    <div className="relative">
+      <NodeComponent {...props} />
+      {props.data?.executionPolicy?.errorOutput && (
+        <div className="absolute right-3 -bottom-7">
+          <HandleWithLabel
+            type="source"
+            position={Position.Bottom}
+            id="error"
+            label="Error"
+            isConnectable={props.isConnectable}
+            labelClassName="text-red-500"
+          />
+        </div>
+      )}
+    </div>
+  );
+  WithErrorOutputHandle.displayName = `WithErrorOutputHandle(${NodeComponent.displayName || NodeComponent.name || 'Node'})`;
+  
+  wrappedComponents.set(NodeComponent, WithErrorOutputHandle);
+  return WithErrorOutputHandle;
+}
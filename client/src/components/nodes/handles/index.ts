@@ -6,4 +6,5 @@
 
 export * from './EditableHandle';
 export * from './EditableHandleDialog';
-export * from './HandleWithLabel';
\ No newline at end of file
+export * from './HandleWithLabel';
+export * from './ErrorOutputHandle';
\ No newline at end of file
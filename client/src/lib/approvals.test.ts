@@ -0,0 +1,120 @@
+/**
+ * Approval tests
+ *
+ * Run with `npm test` (Node's test runner through tsx).
+ */
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import express from 'express';
+
+// Without a reachable Replit database, storage keeps its data in memory
+process.env.REPLIT_DB_URL = 'http://127.0.0.1:9/db';
+const { storage } = await import('../../../server/storage');
+const { registerRoutes } = await import('../../../server/routes');
+const { runWorkflow } = await import('../../../server/services/workflowRunner');
+const { startRunQueue, waitForQueuedRun } = await import('../../../server/services/runQueue');
+
+await storage.ready;
+await startRunQueue();
+
+const app = express();
+app.use(express.json());
+const server = await registerRoutes(app);
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+after(() => server.close());
+
+const edge = (source: string, target: string, sourceHandle = 'output') =>
+  ({ id: `${source}-${target}`, source, target, sourceHandle, targetHandle: 'input' });
+
+// A draft goes to review; approving sends it, rejecting discards it
+const createReviewWorkflow = () => storage.createWorkflow({
+  name: 'Review workflow',
+  type: 'custom',
+  status: 'active',
+  flowData: {
+    nodes: [
+      { id: 'draft', type: 'text_input', data: { inputText: 'Dear customer' } },
+      { id: 'review', type: 'approval', data: { settings: { title: 'Check the email', message: 'Send it?' } } },
+      { id: 'send', type: 'text_input', data: { inputText: 'sent' } },
+      { id: 'discard', type: 'text_input', data: { inputText: 'discarded' } }
+    ],
+    edges: [edge('draft', 'review'), edge('review', 'send', 'approved'), edge('review', 'discard', 'rejected')]
+  }
+} as any);
+
+const decide = (approvalId: number, decision: 'approve' | 'reject', body: Record<string, any> = {}) =>
+  fetch(`${baseUrl}/api/approvals/${approvalId}/${decision}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+// The nodes that ran in the resumed run, with their status
+const getResumedNodes = async (queuedRunId: number) => {
+  const run = await waitForQueuedRun(queuedRunId);
+  const record = (await storage.getExecutionRecord(run.executionRecordId!))!;
+  return { run, nodes: Object.fromEntries(Object.values(record.nodes).map(node => [node.nodeId, node.status])) };
+};
+
+test('a run suspended at an approval node is saved as a pending approval', async () => {
+  const workflow = await createReviewWorkflow();
+
+  const result = await runWorkflow(workflow.id, {});
+
+  assert.equal(result.executionDetails.status, 'suspended');
+  const approvalId = result.executionDetails.approvalId!;
+  const response = await fetch(`${baseUrl}/api/approvals?workflowId=${workflow.id}&status=pending`);
+  const [approval] = await response.json();
+  assert.equal(approval.id, approvalId);
+  assert.equal(approval.nodeId, 'review');
+  assert.equal(approval.title, 'Check the email');
+  assert.equal(approval.message, 'Send it?');
+  assert.deepEqual(approval.data, { text: 'Dear customer' });
+});
+
+test('approving resumes the run down the approved output', async () => {
+  const workflow = await createReviewWorkflow();
+  const { executionDetails } = await runWorkflow(workflow.id, {});
+
+  const response = await decide(executionDetails.approvalId!, 'approve', { comment: 'Looks good', decidedBy: 'ann' });
+  const approval = await response.json();
+
+  assert.equal(response.status, 200);
+  assert.equal(approval.status, 'approved');
+  assert.equal(approval.comment, 'Looks good');
+  assert.equal(approval.decidedBy, 'ann');
+  assert.equal(approval.statusUrl, `/api/queue/${approval.resumedQueuedRunId}`);
+
+  const { run, nodes } = await getResumedNodes(approval.resumedQueuedRunId);
+  assert.equal(run.status, 'succeeded');
+  assert.equal(nodes.send, 'completed');
+  assert.notEqual(nodes.discard, 'completed');
+});
+
+test('rejecting resumes the run down the rejected output', async () => {
+  const workflow = await createReviewWorkflow();
+  const { executionDetails } = await runWorkflow(workflow.id, {});
+
+  const approval = await (await decide(executionDetails.approvalId!, 'reject')).json();
+
+  assert.equal(approval.status, 'rejected');
+  const { run, nodes } = await getResumedNodes(approval.resumedQueuedRunId);
+  assert.equal(run.status, 'succeeded');
+  assert.equal(nodes.discard, 'completed');
+  assert.notEqual(nodes.send, 'completed');
+});
+
+test('an approval can be decided only once', async () => {
+  const workflow = await createReviewWorkflow();
+  const { executionDetails } = await runWorkflow(workflow.id, {});
+  const approvalId = executionDetails.approvalId!;
+
+  await decide(approvalId, 'approve');
+  const second = await decide(approvalId, 'reject');
+
+  assert.equal(second.status, 409);
+  assert.equal((await second.json()).message, 'Approval already approved');
+  assert.equal((await decide(999999, 'approve')).status, 404);
+});
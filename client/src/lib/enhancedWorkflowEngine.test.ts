@@ -0,0 +1,429 @@
+/**
+ * Enhanced Workflow Engine tests
+ *
+ * Run with `npm test` (Node's test runner through tsx).
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_MAX_CONCURRENCY,
+  ERROR_OUTPUT_PORT,
+  executeEnhancedWorkflow,
+  getRerunPresetOutputs,
+  registerEnhancedNodeExecutor,
+  registerFolderNodeExecutors
+} from './enhancedWorkflowEngine';
+import { getDivergedNodeIds, getRecordedOutputs, getRecordedWorkflow } from './workflowReplay';
+import { createPinnedOutput, NodeExecutionData, WorkflowData } from './types/workflow';
+import { ExecutionRecord } from '@shared/schema';
+import * as decision from '../nodes/System/decision/executor';
+
+const output = (...values: any[]): NodeExecutionData => ({
+  items: values.map(json => ({ json, text: JSON.stringify(json) })),
+  meta: { startTime: new Date(), endTime: new Date() }
+});
+
+registerFolderNodeExecutors({ decision });
+
+// Passes its input items on unchanged
+registerEnhancedNodeExecutor('test_echo', {
+  execute: async (_nodeData, inputs) => output(...(inputs.input?.items || []).map(item => item.json))
+});
+
+// Emits its "greeting" setting
+registerEnhancedNodeExecutor('test_greet', {
+  execute: async nodeData => output(nodeData.greeting)
+});
+
+test('a node after a decision runs on the branch that was taken', async () => {
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'source', type: 'test_source', data: {} },
+      { id: 'decide', type: 'decision', data: { condition: 'value > 1' } },
+      { id: 'a', type: 'test_echo', data: {} },
+      { id: 'b', type: 'test_echo', data: {} },
+      { id: 'merge', type: 'test_echo', data: {} }
+    ],
+    edges: [
+      { id: 'e1', source: 'source', target: 'decide', sourceHandle: 'output', targetHandle: 'input' },
+      { id: 'e2', source: 'decide', target: 'a', sourceHandle: 'true', targetHandle: 'input' },
+      { id: 'e3', source: 'decide', target: 'b', sourceHandle: 'false', targetHandle: 'input' },
+      { id: 'e4', source: 'a', target: 'merge', sourceHandle: 'output', targetHandle: 'input' },
+      { id: 'e5', source: 'b', target: 'merge', sourceHandle: 'output', targetHandle: 'input' }
+    ]
+  };
+
+  const state = await executeEnhancedWorkflow(workflow, undefined, undefined, {
+    presetOutputs: { source: output(2) }
+  });
+
+  assert.equal(state.status, 'completed');
+  assert.equal(state.nodeStates.a.status, 'completed');
+  assert.equal(state.nodeStates.b.status, 'skipped');
+  assert.equal(state.nodeStates.merge.status, 'completed');
+  assert.deepEqual(state.nodeOutputs.merge.items.map(item => item.json), [2]);
+});
+
+test('a failed decision takes neither branch', async () => {
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'source', type: 'test_source', data: {} },
+      { id: 'decide', type: 'decision', data: { condition: 'value.missing.property' } },
+      { id: 'a', type: 'test_echo', data: {} },
+      { id: 'b', type: 'test_echo', data: {} }
+    ],
+    edges: [
+      { id: 'e1', source: 'source', target: 'decide', sourceHandle: 'output', targetHandle: 'input' },
+      { id: 'e2', source: 'decide', target: 'a', sourceHandle: 'true', targetHandle: 'input' },
+      { id: 'e3', source: 'decide', target: 'b', sourceHandle: 'false', targetHandle: 'input' }
+    ]
+  };
+
+  const state = await executeEnhancedWorkflow(workflow, undefined, undefined, {
+    presetOutputs: { source: output(2) }
+  });
+
+  assert.equal(state.nodeOutputs.decide.meta.error, true);
+  assert.equal(state.nodeStates.a.status, 'skipped');
+  assert.equal(state.nodeStates.b.status, 'skipped');
+});
+
+test('a decision routes each item on its own, and its failed items take no branch', async () => {
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'source', type: 'test_source', data: {} },
+      { id: 'decide', type: 'decision', data: { condition: 'value.name.length > 3' } },
+      { id: 'a', type: 'test_echo', data: {} },
+      { id: 'b', type: 'test_echo', data: {} }
+    ],
+    edges: [
+      { id: 'e1', source: 'source', target: 'decide', sourceHandle: 'output', targetHandle: 'input' },
+      { id: 'e2', source: 'decide', target: 'a', sourceHandle: 'true', targetHandle: 'input' },
+      { id: 'e3', source: 'decide', target: 'b', sourceHandle: 'false', targetHandle: 'input' }
+    ]
+  };
+
+  const state = await executeEnhancedWorkflow(workflow, undefined, undefined, {
+    presetOutputs: { source: output({}, { name: 'Grace' }, { name: 'Ada' }) }
+  });
+
+  assert.equal(state.nodeOutputs.decide.meta.error, true);
+  assert.deepEqual(state.nodeOutputs.a.items.map(item => item.json), [{ name: 'Grace' }]);
+  assert.deepEqual(state.nodeOutputs.b.items.map(item => item.json), [{ name: 'Ada' }]);
+});
+
+test('expressions in settings resolve against each input item', async () => {
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'source', type: 'test_source', data: {} },
+      { id: 'greet', type: 'test_greet', data: { greeting: 'Hello {{ $input.json.name }}' } }
+    ],
+    edges: [
+      { id: 'e1', source: 'source', target: 'greet', sourceHandle: 'output', targetHandle: 'input' }
+    ]
+  };
+
+  const state = await executeEnhancedWorkflow(workflow, undefined, undefined, {
+    presetOutputs: { source: output({ name: 'Ada' }, { name: 'Grace' }, { name: 'Linus' }) }
+  });
+
+  assert.equal(state.status, 'completed');
+  assert.deepEqual(
+    state.nodeOutputs.greet.items.map(item => item.json),
+    ['Hello Ada', 'Hello Grace', 'Hello Linus']
+  );
+});
+
+test('a timed-out attempt is aborted before it is retried', async () => {
+  const attemptSignals: AbortSignal[] = [];
+  registerEnhancedNodeExecutor('test_hang', {
+    execute: (_nodeData, _inputs, context) => {
+      attemptSignals.push(context!.signal!);
+      // Only ever settles by being aborted
+      return new Promise((_, reject) => {
+        context!.signal!.addEventListener('abort', () => reject(new Error('Aborted')));
+      });
+    }
+  });
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'hang', type: 'test_hang', data: { executionPolicy: { timeout: 20, retries: 1, retryDelay: 0 } } }
+    ],
+    edges: []
+  };
+
+  const state = await executeEnhancedWorkflow(workflow);
+
+  assert.equal(attemptSignals.length, 2);
+  assert.ok(attemptSignals.every(signal => signal.aborted));
+  assert.deepEqual(state.nodeStates.hang.attempts?.map(attempt => attempt.error), [
+    'Timed out after 20ms',
+    'Timed out after 20ms'
+  ]);
+});
+
+test('independent nodes run side by side, at most maxConcurrency at a time', async () => {
+  let running = 0;
+  let mostRunning = 0;
+  registerEnhancedNodeExecutor('test_slow', {
+    execute: async () => {
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      running--;
+      return output('done');
+    }
+  });
+  const workflow: WorkflowData = {
+    nodes: ['a', 'b', 'c', 'd', 'e'].map(id => ({ id, type: 'test_slow', data: {} })),
+    edges: [],
+    settings: { maxConcurrency: 2 }
+  };
+
+  const state = await executeEnhancedWorkflow(workflow);
+
+  assert.equal(state.status, 'completed');
+  assert.equal(mostRunning, 2);
+  assert.ok(['a', 'b', 'c', 'd', 'e'].every(id => state.nodeStates[id].status === 'completed'));
+
+  mostRunning = 0;
+  await executeEnhancedWorkflow({ ...workflow, settings: {} });
+  assert.equal(mostRunning, DEFAULT_MAX_CONCURRENCY);
+});
+
+test('failed attempts are retried with exponential backoff', async () => {
+  let calls = 0;
+  registerEnhancedNodeExecutor('test_flaky', {
+    execute: async () => {
+      calls++;
+      if (calls < 3) throw new Error('503 Service Unavailable');
+      return output('done');
+    }
+  });
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'flaky', type: 'test_flaky', data: { executionPolicy: { retries: 3, retryDelay: 20, backoff: 'exponential' } } }
+    ],
+    edges: []
+  };
+
+  const state = await executeEnhancedWorkflow(workflow);
+
+  const attempts = state.nodeStates.flaky.attempts!;
+  assert.equal(state.nodeStates.flaky.status, 'completed');
+  assert.deepEqual(attempts.map(attempt => attempt.status), ['error', 'error', 'completed']);
+  assert.deepEqual(attempts.map(attempt => attempt.errorKind), ['server_error', 'server_error', undefined]);
+  // Timers may fire a millisecond early
+  const waits = [1, 2].map(index => attempts[index].startTime.getTime() - attempts[index - 1].endTime.getTime());
+  assert.ok(waits[0] >= 19, `first retry waited ${waits[0]}ms`);
+  assert.ok(waits[1] >= 39, `second retry waited ${waits[1]}ms`);
+});
+
+test('only the error kinds in retryOn are retried', async () => {
+  let calls = 0;
+  registerEnhancedNodeExecutor('test_broken', {
+    execute: async () => {
+      calls++;
+      throw new Error('500 Internal Server Error');
+    }
+  });
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'broken', type: 'test_broken', data: { executionPolicy: { retries: 2, retryDelay: 0, retryOn: ['rate_limit'] } } }
+    ],
+    edges: []
+  };
+
+  const state = await executeEnhancedWorkflow(workflow);
+
+  assert.equal(calls, 1);
+  assert.equal(state.nodeStates.broken.status, 'error');
+  assert.equal(state.nodeStates.broken.error, '500 Internal Server Error');
+});
+
+test('with an error output, failed items go to the error port and the others carry on', async () => {
+  registerEnhancedNodeExecutor('test_positive', {
+    execute: async (_nodeData, inputs) => {
+      const value = inputs.input.items[0].json;
+      if (value < 0) throw new Error(`${value} is negative`);
+      return output(value);
+    }
+  });
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'source', type: 'test_source', data: {} },
+      { id: 'check', type: 'test_positive', data: { executionPolicy: { errorOutput: true } } },
+      { id: 'ok', type: 'test_echo', data: {} },
+      { id: 'handler', type: 'test_echo', data: {} }
+    ],
+    edges: [
+      { id: 'e1', source: 'source', target: 'check', sourceHandle: 'output', targetHandle: 'input' },
+      { id: 'e2', source: 'check', target: 'ok', sourceHandle: 'output', targetHandle: 'input' },
+      { id: 'e3', source: 'check', target: 'handler', sourceHandle: ERROR_OUTPUT_PORT, targetHandle: 'input' }
+    ]
+  };
+
+  const state = await executeEnhancedWorkflow(workflow, undefined, undefined, {
+    presetOutputs: { source: output(1, -1, 2) }
+  });
+
+  assert.equal(state.nodeStates.check.status, 'completed');
+  assert.equal(state.nodeOutputs.check.meta.failedRuns, 1);
+  assert.deepEqual(state.nodeOutputs.ok.items.map(item => item.json), [1, 2]);
+  assert.deepEqual(state.nodeOutputs.handler.items.map(item => item.json), [
+    { error: '-1 is negative', errorKind: 'other', nodeId: 'check', input: -1 }
+  ]);
+});
+
+test('running from a node reuses the earlier outputs of the nodes outside its downstream part', async () => {
+  const executedNodeIds: string[] = [];
+  registerEnhancedNodeExecutor('test_tracked', {
+    execute: async (nodeData, inputs, context) => {
+      executedNodeIds.push(context!.nodeId);
+      return output(`${nodeData.greeting} ${inputs.input?.items[0]?.json ?? ''}`.trim());
+    }
+  });
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'source', type: 'test_tracked', data: { greeting: 'Ada' } },
+      { id: 'other', type: 'test_tracked', data: { greeting: 'Grace' } },
+      { id: 'greet', type: 'test_tracked', data: { greeting: 'Hello' } },
+      { id: 'shout', type: 'test_tracked', data: { greeting: '!' } }
+    ],
+    edges: [
+      { id: 'e1', source: 'source', target: 'greet', sourceHandle: 'output', targetHandle: 'input' },
+      { id: 'e2', source: 'greet', target: 'shout', sourceHandle: 'output', targetHandle: 'input' }
+    ]
+  };
+  const firstRun = await executeEnhancedWorkflow(workflow);
+
+  // Edit the node, then run from it
+  workflow.nodes[2].data = { greeting: 'Goodbye' };
+  const presetOutputs = getRerunPresetOutputs(workflow, 'greet', firstRun.nodeOutputs);
+  executedNodeIds.length = 0;
+  const rerun = await executeEnhancedWorkflow(workflow, undefined, undefined, { presetOutputs });
+
+  assert.deepEqual(Object.keys(presetOutputs).sort(), ['other', 'source']);
+  assert.deepEqual(executedNodeIds, ['greet', 'shout']);
+  assert.deepEqual(rerun.nodeOutputs.shout.items.map(item => item.json), ['! Goodbye Ada']);
+  assert.throws(() => getRerunPresetOutputs(workflow, 'missing', firstRun.nodeOutputs), /Node missing not found/);
+});
+
+test('a replay returns the recordings of external nodes and reports the nodes that diverge', async () => {
+  let requests = 0;
+  registerEnhancedNodeExecutor('http_request', {
+    execute: async () => {
+      requests++;
+      return output({ name: 'live' });
+    }
+  });
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'fetch', type: 'http_request', data: {} },
+      { id: 'greet', type: 'test_greet', data: { greeting: 'Hello {{ $input.json.name }}' } }
+    ],
+    edges: [
+      { id: 'e1', source: 'fetch', target: 'greet', sourceHandle: 'output', targetHandle: 'input' }
+    ]
+  };
+  const record = {
+    workflowSnapshot: workflow,
+    nodes: {
+      fetch: { nodeId: 'fetch', nodeType: 'http_request', status: 'completed', output: output({ name: 'Ada' }) },
+      greet: { nodeId: 'greet', nodeType: 'test_greet', status: 'completed', output: output('Hello Ada') }
+    }
+  } as unknown as ExecutionRecord;
+  const replay = (workflowData: WorkflowData) => executeEnhancedWorkflow(workflowData, undefined, undefined, {
+    recordedOutputs: getRecordedOutputs(record)
+  });
+
+  const faithful = await replay(getRecordedWorkflow(record));
+  // The same run after the greeting was edited
+  const edited = await replay({
+    ...workflow,
+    nodes: [workflow.nodes[0], { ...workflow.nodes[1], data: { greeting: 'Hi {{ $input.json.name }}' } }]
+  });
+
+  assert.equal(requests, 0);
+  assert.deepEqual(faithful.nodeOutputs.greet.items.map(item => item.json), ['Hello Ada']);
+  assert.deepEqual(getDivergedNodeIds(faithful, record), []);
+  assert.deepEqual(edited.nodeOutputs.greet.items.map(item => item.json), ['Hi Ada']);
+  assert.deepEqual(getDivergedNodeIds(edited, record), ['greet']);
+});
+
+test('a node with a pinned output emits it instead of executing', async () => {
+  let calls = 0;
+  registerEnhancedNodeExecutor('test_expensive', {
+    execute: async () => {
+      calls++;
+      return output('live');
+    }
+  });
+  const workflow: WorkflowData = {
+    nodes: [
+      // Pinned data is taken as is, expressions included
+      { id: 'expensive', type: 'test_expensive', data: { pinnedOutput: createPinnedOutput(['pinned', '{{ $vars.name }}']) } },
+      { id: 'next', type: 'test_echo', data: {} }
+    ],
+    edges: [
+      { id: 'e1', source: 'expensive', target: 'next', sourceHandle: 'output', targetHandle: 'input' }
+    ]
+  };
+
+  const state = await executeEnhancedWorkflow(workflow, undefined, undefined, { variables: { name: 'Ada' } });
+
+  assert.equal(calls, 0);
+  assert.equal(state.nodeStates.expensive.message, 'Pinned output');
+  assert.deepEqual(state.nodeOutputs.next.items.map(item => item.json), ['pinned', '{{ $vars.name }}']);
+});
+
+test('expressions reference other nodes by label or ID, and a lone expression keeps its type', async () => {
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'user', type: 'test_source', data: { label: 'Fetch user' } },
+      { id: 'greet', type: 'test_greet', data: {
+        greeting: {
+          text: 'Hi {{ $node["Fetch user"].items[0].json.name }}, {{name}}',
+          profile: '{{ $node.user.items[0].json }}',
+          roles: ['{{ $node.user.items[0].json.roles.length }}']
+        }
+      } },
+      { id: 'broken', type: 'test_greet', data: { greeting: '{{ $nodes.user }}' } }
+    ],
+    edges: [
+      { id: 'e1', source: 'user', target: 'greet', sourceHandle: 'output', targetHandle: 'input' },
+      { id: 'e2', source: 'user', target: 'broken', sourceHandle: 'output', targetHandle: 'input' }
+    ]
+  };
+
+  const state = await executeEnhancedWorkflow(workflow, undefined, undefined, {
+    presetOutputs: { user: output({ name: 'Ada', roles: ['admin', 'dev'] }) }
+  });
+
+  // Plain placeholders are left to the node
+  assert.deepEqual(state.nodeOutputs.greet.items[0].json, {
+    text: 'Hi Ada, {{name}}',
+    profile: { name: 'Ada', roles: ['admin', 'dev'] },
+    roles: [2]
+  });
+  assert.equal(state.nodeStates.broken.status, 'error');
+  assert.match(state.nodeStates.broken.error!, /Invalid expression "\$nodes.user": it must start with \$node, \$input, \$vars/);
+});
+
+test('$vars in settings reads the workflow variables of the run', async () => {
+  const workflow: WorkflowData = {
+    nodes: [
+      { id: 'greet', type: 'test_greet', data: { greeting: '{{ $vars.apiBase }}/users?limit={{ $vars.limit }}' } },
+      { id: 'missing', type: 'test_greet', data: { greeting: 'Hello {{ $vars.unknown }}!' } }
+    ],
+    edges: []
+  };
+
+  const state = await executeEnhancedWorkflow(workflow, undefined, undefined, {
+    variables: { apiBase: 'https://api.example.com', limit: 10 }
+  });
+
+  assert.deepEqual(state.nodeOutputs.greet.items.map(item => item.json), ['https://api.example.com/users?limit=10']);
+  // Unknown variables are left empty
+  assert.deepEqual(state.nodeOutputs.missing.items.map(item => item.json), ['Hello !']);
+});
@@ -1,16 +1,53 @@
-import { Node, Edge } from 'reactflow';
+/**
+ * Enhanced Workflow Engine
+ * 
+ * Executes workflow graphs using the folder-based node executors.
+ * This module has no browser-only dependencies: the canvas and the server's
+ * runWorkflow both execute workflows through executeEnhancedWorkflow.
+ */
+
 import { 
   EnhancedNodeExecutor,
   NodeExecutionData, 
   WorkflowData, 
   WorkflowExecutionState, 
   NodeState,
+  NodeItemMode,
+  NodeExecutionContext,
+  NodeExecutionPolicy,
+  NodeAttempt,
+  NodeErrorKind,
   WorkflowItem,
-  createWorkflowItem
+  createWorkflowItem,
+  isWorkflowEntryNode
 } from './types/workflow';
+import { getInputValue } from '../nodes/nodeOutputUtils';
+import { ExpressionContext, resolveExpressions } from './expressions';
 
 const nodeRegistry: Record<string, EnhancedNodeExecutor> = {};
 
+/**
+ * How many independent nodes may run at the same time when the workflow
+ * does not set settings.maxConcurrency
+ */
+export const DEFAULT_MAX_CONCURRENCY = 4;
+
+/**
+ * Wait before the first retry when a node's execution policy sets no retryDelay (ms)
+ */
+export const DEFAULT_RETRY_DELAY = 1000;
+
+/**
+ * Node types that call external services (or, for execute_workflow, the server).
+ * Replays use their recorded outputs instead of executing them.
+ */
+export const EXTERNAL_NODE_TYPES = ['claude', 'perplexity_api', 'http_request', 'webhook_response', 'execute_workflow'];
+
+/**
+ * Error message of a run that was stopped through its abort signal
+ */
+export const WORKFLOW_CANCELLED_MESSAGE = 'Workflow run was cancelled';
+
 /**
  * Create an enhanced node executor with standard interfaces
  */
@@ -35,11 +72,17 @@ export function createEnhancedNodeExecutor(
       description: string;
     }>;
   },
-  executorFn: (nodeData: Record<string, any>, inputs: Record<string, NodeExecutionData>) => Promise<NodeExecutionData>
+  executorFn: (
+    nodeData: Record<string, any>,
+    inputs: Record<string, NodeExecutionData>,
+    context?: NodeExecutionContext
+  ) => Promise<NodeExecutionData>,
+  itemMode?: NodeItemMode
 ): EnhancedNodeExecutor {
   return {
     definition,
-    execute: executorFn
+    execute: executorFn,
+    itemMode
   };
 }
 
@@ -51,6 +94,73 @@ export function registerEnhancedNodeExecutor(nodeType: string, executor: Enhance
   console.log(`Registered enhanced node executor for type: ${nodeType}`);
 }
 
+/**
+ * Check whether an executor is registered for a node type
+ */
+export function hasEnhancedNodeExecutor(nodeType: string): boolean {
+  return !!nodeRegistry[nodeType];
+}
+
+/**
+ * Wrap a folder-based executor module so that it always resolves to NodeExecutionData
+ */
+export function createFolderNodeExecutor(
+  nodeType: string,
+  executor: { execute: (nodeData: any, inputs?: any, context?: NodeExecutionContext) => Promise<any> }
+) {
+  return async (nodeData: any, inputs: Record<string, any>, context?: NodeExecutionContext): Promise<NodeExecutionData> => {
+    try {
+      // Execute the node
+      const result = await executor.execute(nodeData, inputs, context);
+      
+      // Executors that already return NodeExecutionData are passed through
+      if (result && Array.isArray(result.items) && result.meta) {
+        return result;
+      }
+      
+      // Format the result
+      return {
+        items: Array.isArray(result) 
+          ? result.map(item => ({ json: item, text: JSON.stringify(item) }))
+          : [{ json: result, text: typeof result === 'string' ? result : JSON.stringify(result) }],
+        meta: { startTime: new Date(), endTime: new Date() }
+      };
+    } catch (error) {
+      console.error(`Error executing ${nodeType} node:`, error);
+      return {
+        items: [{
+          json: { error: error instanceof Error ? error.message : String(error) },
+          text: error instanceof Error ? error.message : String(error)
+        }],
+        meta: {
+          startTime: new Date(),
+          endTime: new Date(),
+          error: true,
+          errorMessage: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+  };
+}
+
+/**
+ * Register a map of folder-based executor modules (see nodes/executors.ts)
+ * Used where import.meta.glob discovery is not available, such as the server
+ */
+export function registerFolderNodeExecutors(
+  modules: Record<string, {
+    execute: (nodeData: any, inputs?: any, context?: NodeExecutionContext) => Promise<any>;
+    itemMode?: NodeItemMode;
+  }>
+): void {
+  for (const [nodeType, executor] of Object.entries(modules)) {
+    registerEnhancedNodeExecutor(nodeType, {
+      execute: createFolderNodeExecutor(nodeType, executor),
+      itemMode: executor.itemMode
+    });
+  }
+}
+
 /**
  * Register all enhanced node executors
  */
@@ -153,11 +263,20 @@ function resolveExecutionOrder(dependencyGraph: Record<string, string[]>): strin
   return order;
 }
 
+/**
+ * A connection from a source node's output port to an input port
+ */
+interface PortConnection {
+  nodeId: string;
+  outputKey: string;
+}
+
 /**
  * Get input mapping for nodes (which input connects to which output)
+ * An input port can be fed by several connections; their items are combined
  */
-function getInputMapping(workflowData: WorkflowData): Record<string, Record<string, { nodeId: string, outputKey: string }>> {
-  const inputMapping: Record<string, Record<string, { nodeId: string, outputKey: string }>> = {};
+function getInputMapping(workflowData: WorkflowData): Record<string, Record<string, PortConnection[]>> {
+  const inputMapping: Record<string, Record<string, PortConnection[]>> = {};
   
   // Initialize empty objects for all nodes
   workflowData.nodes.forEach(node => {
@@ -172,16 +291,605 @@ function getInputMapping(workflowData: WorkflowData): Record<string, Record<stri
     const sourceHandle = edge.sourceHandle || 'default';
     
     if (inputMapping[targetNode]) {
-      inputMapping[targetNode][targetHandle] = {
+      if (!inputMapping[targetNode][targetHandle]) {
+        inputMapping[targetNode][targetHandle] = [];
+      }
+      inputMapping[targetNode][targetHandle].push({
         nodeId: sourceNode,
         outputKey: sourceHandle
-      };
+      });
     }
   });
   
   return inputMapping;
 }
 
+/**
+ * Output port that receives the failures of nodes whose execution policy enables it
+ */
+export const ERROR_OUTPUT_PORT = 'error';
+
+/**
+ * Get the data a node emits on one of its output ports
+ * 
+ * - For nodes with an error output, failed runs only leave through the "error" port
+ *   and successful runs through the other ports
+ * - Items tagged with meta.outputType (e.g. decision's true/false) only flow out of
+ *   the matching port; when none match, the port is inactive and undefined is returned
+ * - Routing nodes (meta.routed) route each item on its own: a failed run of the node
+ *   produces no items, so its item reaches no branch while the other items are routed
+ * - Items keyed with _key (see createNodeOutput) flow out of the matching port
+ * - Items holding objects keyed by port name (e.g. { output: ... }) yield that key
+ * - Otherwise the whole output flows out of the port
+ */
+export function getOutputPortData(
+  output: NodeExecutionData,
+  outputKey: string
+): NodeExecutionData | undefined {
+  const items = Array.isArray(output?.items) ? output.items : [];
+  
+  // Error output: the "error" port only carries failures, the other ports only successes
+  if (output?.meta?.errorOutput) {
+    const isErrorItem = (item: WorkflowItem) => item.meta?.outputType === ERROR_OUTPUT_PORT;
+    const errorItems = items.filter(isErrorItem);
+    if (outputKey === ERROR_OUTPUT_PORT) {
+      return errorItems.length > 0 ? { ...output, items: errorItems } : undefined;
+    }
+    if (errorItems.length > 0) {
+      const successItems = items.filter(item => !isErrorItem(item));
+      return successItems.length > 0
+        ? getOutputPortData({ ...output, items: successItems }, outputKey)
+        : undefined;
+    }
+  }
+  
+  // Routed items: strict matching on the output type (a switch node also routes to a "default" port)
+  if (output?.meta?.routed || items.some(item => item.meta?.outputType !== undefined)) {
+    const routedItems = items.filter(item => item.meta?.outputType === outputKey);
+    return routedItems.length > 0 ? { ...output, items: routedItems } : undefined;
+  }
+  
+  if (!outputKey || outputKey === 'default' || items.length === 0) {
+    return output;
+  }
+  
+  // Keyed items produced by createNodeOutput
+  const keyedItems = items.filter(item => item._key === outputKey);
+  if (keyedItems.length > 0) {
+    return { ...output, items: keyedItems };
+  }
+  
+  // Objects keyed by port name (e.g. { output: ... }); the items keep their lineage
+  const isKeyedByPort = (item: WorkflowItem) =>
+    item.json && typeof item.json === 'object' && !Array.isArray(item.json) && outputKey in item.json;
+  if (items.every(isKeyedByPort)) {
+    const portItems = items.flatMap(item => {
+      const value = item.json[outputKey];
+      const lineage = item.meta?.lineage;
+      if (value && Array.isArray(value.items) && value.meta) {
+        return (value as NodeExecutionData).items.map(portItem => ({
+          ...portItem,
+          meta: { ...portItem.meta, lineage: portItem.meta?.lineage ?? lineage }
+        }));
+      }
+      const portItem = createWorkflowItem(value, outputKey);
+      return [{ ...portItem, meta: { ...portItem.meta, lineage } }];
+    });
+    return { items: portItems, meta: output.meta };
+  }
+  
+  return output;
+}
+
+/**
+ * Classify a node error so that execution policies can choose which errors to retry
+ */
+export function getNodeErrorKind(message: string): NodeErrorKind {
+  if (/timed out|timeout|ETIMEDOUT/i.test(message)) return 'timeout';
+  if (/\b429\b|rate.?limit|too many requests/i.test(message)) return 'rate_limit';
+  if (/\b5\d\d\b|internal server error|bad gateway|service unavailable|overloaded/i.test(message)) return 'server_error';
+  if (/ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up|network|fetch failed/i.test(message)) return 'network';
+  return 'other';
+}
+
+/**
+ * Get the error message of a node output that reports a failure
+ */
+function getOutputErrorMessage(output: NodeExecutionData): string | undefined {
+  if (!output?.meta?.error) return undefined;
+  
+  const { error, errorMessage, message } = output.meta;
+  if (errorMessage) return errorMessage;
+  if (typeof error === 'object' && error?.message) return error.message;
+  return message || output.items?.[0]?.json?.error || 'Node reported an error';
+}
+
+/**
+ * Run one execution of a node under its execution policy: each attempt is limited
+ * to policy.timeout, and failed attempts are retried with backoff. Each attempt gets
+ * its own signal, aborted when it times out or the run is cancelled, so a timed-out
+ * attempt stops its network calls before a retry starts. A failure is
+ * either a thrown error or an output whose meta reports an error. The last failed
+ * attempt is passed on as is, so the node fails the same way it would without a policy.
+ */
+async function executeWithPolicy(
+  executor: EnhancedNodeExecutor,
+  nodeData: Record<string, any>,
+  inputs: Record<string, NodeExecutionData>,
+  context: NodeExecutionContext,
+  onAttempt: (attempt: NodeAttempt) => void,
+  itemIndex?: number
+): Promise<NodeExecutionData> {
+  const policy: NodeExecutionPolicy = nodeData.executionPolicy || {};
+  const retries = Math.max(0, Number(policy.retries) || 0);
+  const retryDelay = Math.max(0, Number(policy.retryDelay ?? DEFAULT_RETRY_DELAY) || 0);
+  const timeout = Math.max(0, Number(policy.timeout) || 0);
+  
+  for (let attempt = 1; ; attempt++) {
+    const startTime = new Date();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let output: NodeExecutionData | undefined;
+    let failure: unknown;
+    
+    const attemptController = new AbortController();
+    const abortAttempt = () => attemptController.abort();
+    if (context.signal?.aborted) {
+      abortAttempt();
+    }
+    context.signal?.addEventListener('abort', abortAttempt);
+    
+    try {
+      const execution = executor.execute(nodeData, inputs, { ...context, signal: attemptController.signal });
+      output = timeout > 0
+        ? await Promise.race([
+            execution,
+            new Promise<never>((_, reject) => {
+              // Rejecting first makes the attempt fail as a timeout, not with the abort error
+              timer = setTimeout(() => {
+                reject(new Error(`Timed out after ${timeout}ms`));
+                abortAttempt();
+              }, timeout);
+            })
+          ])
+        : await execution;
+    } catch (error) {
+      failure = error;
+    } finally {
+      clearTimeout(timer);
+      context.signal?.removeEventListener('abort', abortAttempt);
+    }
+    
+    const errorMessage = output
+      ? getOutputErrorMessage(output)
+      : failure instanceof Error ? failure.message : String(failure);
+    const errorKind = errorMessage !== undefined ? getNodeErrorKind(errorMessage) : undefined;
+    onAttempt({
+      attempt,
+      itemIndex,
+      status: errorMessage === undefined ? 'completed' : 'error',
+      startTime,
+      endTime: new Date(),
+      error: errorMessage,
+      errorKind
+    });
+    
+    // A cancelled run is not retried
+    const retryable = errorKind !== undefined && !context.signal?.aborted &&
+      (!policy.retryOn || policy.retryOn.length === 0 || policy.retryOn.includes(errorKind));
+    if (!retryable || attempt > retries) {
+      if (output) return output;
+      throw failure;
+    }
+    
+    const delay = policy.backoff === 'exponential' ? retryDelay * 2 ** (attempt - 1) : retryDelay;
+    if (delay > 0) {
+      await waitForRetry(delay, context.signal);
+    }
+  }
+}
+
+/**
+ * Wait before a retry; cancelling the run ends the wait early
+ */
+function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, delay);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Run one execution of a node; with an error output enabled, a failure becomes an
+ * item on the "error" port holding the error details and the input of the run
+ */
+async function executeWithErrorOutput(
+  executor: EnhancedNodeExecutor,
+  nodeData: Record<string, any>,
+  inputs: Record<string, NodeExecutionData>,
+  itemPorts: string[],
+  context: NodeExecutionContext,
+  onAttempt: (attempt: NodeAttempt) => void,
+  itemIndex?: number
+): Promise<NodeExecutionData> {
+  if (!nodeData.executionPolicy?.errorOutput) {
+    return executeWithPolicy(executor, nodeData, inputs, context, onAttempt, itemIndex);
+  }
+  
+  const startTime = new Date();
+  let errorMessage: string | undefined;
+  try {
+    const output = await executeWithPolicy(executor, nodeData, inputs, context, onAttempt, itemIndex);
+    errorMessage = getOutputErrorMessage(output);
+    if (errorMessage === undefined) {
+      return output;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : String(error);
+  }
+  
+  // The input of the run: the items of the main input port (or of the first connected port)
+  const inputPort = itemPorts.includes('input') ? 'input' : itemPorts[0];
+  const input = inputPort ? getInputValue(inputs[inputPort]) : undefined;
+  const json = {
+    error: errorMessage,
+    errorKind: getNodeErrorKind(errorMessage),
+    nodeId: context.nodeId,
+    input
+  };
+  
+  return {
+    items: [{
+      json,
+      text: errorMessage,
+      meta: { outputType: ERROR_OUTPUT_PORT }
+    }],
+    meta: { startTime, endTime: new Date(), failedRuns: 1 }
+  };
+}
+
+/**
+ * Run a node once per incoming item, or once per batch for nodes with the 'batch' item mode
+ * 
+ * Connected input ports are split by item index: run i receives item i of each port.
+ * Ports with fewer items repeat their last item, so a single item is shared by every run.
+ * Batch nodes receive all items at once, or batches of `batchSize` items when configured.
+ * Output items record the input item they were produced from in meta.lineage.
+ * When the node is split into runs, prepareRun gives each run its node data and inputs
+ * (expressions in the settings refer to that run's items).
+ */
+async function executeNodeForItems(
+  executor: EnhancedNodeExecutor,
+  nodeId: string,
+  nodeData: Record<string, any>,
+  inputs: Record<string, NodeExecutionData>,
+  itemPorts: string[],
+  context: NodeExecutionContext,
+  onAttempt: (attempt: NodeAttempt) => void,
+  prepareRun?: (runInputs: Record<string, NodeExecutionData>) => { nodeData: Record<string, any>; inputs: Record<string, NodeExecutionData> }
+): Promise<NodeExecutionData> {
+  const itemCount = Math.max(0, ...itemPorts.map(port => inputs[port].items.length));
+  const batchSize = executor.itemMode === 'batch'
+    ? Math.max(1, Number(nodeData.batchSize) || itemCount)
+    : 1;
+  
+  // Nothing to split: run the node once
+  if (itemCount === 0 || (batchSize >= itemCount && executor.itemMode === 'batch')) {
+    return executeWithErrorOutput(executor, nodeData, inputs, itemPorts, context, onAttempt);
+  }
+  
+  const startTime = new Date();
+  const outputs: NodeExecutionData[] = [];
+  
+  for (let start = 0; start < itemCount; start += batchSize) {
+    if (context.signal?.aborted) {
+      throw new Error(WORKFLOW_CANCELLED_MESSAGE);
+    }
+    const end = Math.min(start + batchSize, itemCount);
+    
+    // Select this run's items from each connected port
+    const runInputs: Record<string, NodeExecutionData> = { ...inputs };
+    itemPorts.forEach(port => {
+      const portItems = inputs[port].items;
+      runInputs[port] = {
+        ...inputs[port],
+        items: portItems.length === itemCount
+          ? portItems.slice(start, end)
+          : [portItems[Math.min(start, portItems.length - 1)]].filter(Boolean)
+      };
+    });
+    
+    const run = prepareRun ? prepareRun(runInputs) : { nodeData, inputs: runInputs };
+    const output = await executeWithErrorOutput(executor, run.nodeData, run.inputs, itemPorts, context, onAttempt, start);
+    
+    // Items produced by a single-item run descend from that input item
+    if (executor.itemMode !== 'batch' && Array.isArray(output?.items)) {
+      const inputItem = itemPorts
+        .map(port => inputs[port].items)
+        .find(portItems => portItems.length === itemCount)?.[start];
+      const lineage = [...(inputItem?.meta?.lineage || []), { nodeId, itemIndex: start }];
+      output.items = output.items.map(item => ({
+        ...item,
+        meta: { ...item.meta, lineage }
+      }));
+    }
+    
+    outputs.push(output);
+  }
+  
+  // Combine the runs, keeping item order; the first failed run reports the error
+  const failedOutput = outputs.find(output => output?.meta?.error);
+  const failedRuns = outputs.reduce((count, output) => count + (output?.meta?.failedRuns || 0), 0);
+  return {
+    items: outputs.flatMap(output => Array.isArray(output?.items) ? output.items : []),
+    meta: {
+      ...outputs[0]?.meta,
+      startTime,
+      endTime: new Date(),
+      itemsProcessed: itemCount,
+      failedRuns: failedRuns > 0 ? failedRuns : undefined,
+      ...(failedOutput ? {
+        error: true,
+        errorMessage: failedOutput.meta.errorMessage,
+        message: failedOutput.meta.message,
+        routed: failedOutput.meta.routed
+      } : {})
+    }
+  };
+}
+
+/**
+ * Whether a connection delivers data to its target
+ * Connections from skipped nodes and from inactive output ports do not.
+ * Connections from failed nodes count as active so that the failure surfaces downstream.
+ */
+function isConnectionActive(executionState: WorkflowExecutionState, connection: PortConnection): boolean {
+  if (executionState.nodeStates[connection.nodeId]?.status === 'skipped') {
+    return false;
+  }
+  
+  const sourceOutput = executionState.nodeOutputs[connection.nodeId];
+  return !sourceOutput || getOutputPortData(sourceOutput, connection.outputKey) !== undefined;
+}
+
+/**
+ * Loop nodes run the sub-graph connected to their "item" port once per iteration item,
+ * then emit the gathered results on their "done" port
+ */
+const LOOP_NODE_TYPE = 'loop';
+const LOOP_ITEM_PORT = 'item';
+const LOOP_DONE_PORT = 'done';
+
+/**
+ * Get the body of a loop node: every node reachable from the loop's item port
+ */
+function getLoopBodyNodeIds(workflowData: WorkflowData, loopNodeId: string): Set<string> {
+  const bodyNodeIds = new Set<string>();
+  const queue = workflowData.edges
+    .filter(edge => edge.source === loopNodeId && edge.sourceHandle === LOOP_ITEM_PORT)
+    .map(edge => edge.target);
+  
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (nodeId === loopNodeId || bodyNodeIds.has(nodeId)) continue;
+    
+    bodyNodeIds.add(nodeId);
+    workflowData.edges
+      .filter(edge => edge.source === nodeId)
+      .forEach(edge => queue.push(edge.target));
+  }
+  
+  return bodyNodeIds;
+}
+
+/**
+ * Run tasks with at most `concurrency` of them in flight, keeping results in task order
+ */
+async function runWithConcurrency<T>(
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<T>
+): Promise<T[]> {
+  const results: T[] = new Array(count);
+  let nextIndex = 0;
+  
+  const worker = async () => {
+    while (nextIndex < count) {
+      const index = nextIndex++;
+      results[index] = await task(index);
+    }
+  };
+  
+  const workerCount = Math.max(1, Math.min(concurrency, count));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
+
+/**
+ * Run a loop node's body once per iteration item and gather the results
+ * 
+ * Each iteration is a separate run of the body sub-graph, with the loop node's output
+ * preset to the iteration item. Nodes outside the body that feed into it keep their outputs.
+ * The result of an iteration is the output of the last body node without outgoing connections
+ * that ran; iterations where none ran (e.g. every branch was skipped) contribute no result.
+ */
+async function executeLoopBody(
+  workflowData: WorkflowData,
+  loopNodeId: string,
+  bodyNodeIds: Set<string>,
+  iterationData: NodeExecutionData,
+  concurrency: number,
+  executionState: WorkflowExecutionState,
+  onNodeStateChange: ((nodeId: string, state: NodeState) => void) | undefined,
+  options: {
+    debugMode?: boolean;
+    metadata?: Record<string, any>;
+    signal?: AbortSignal;
+    beforeNode?: (nodeId: string, nodeType: string, inputs: Record<string, NodeExecutionData>, outputs: Record<string, NodeExecutionData>) => Promise<void>;
+    variables?: Record<string, any>;
+  }
+): Promise<NodeExecutionData> {
+  const startTime = new Date();
+  
+  // Nodes outside the body that feed into it are preset with their outputs
+  const externalOutputs: Record<string, NodeExecutionData> = {};
+  workflowData.edges.forEach(edge => {
+    if (bodyNodeIds.has(edge.target) && edge.source !== loopNodeId && !bodyNodeIds.has(edge.source)) {
+      const output = executionState.nodeOutputs[edge.source];
+      if (output) {
+        externalOutputs[edge.source] = output;
+      }
+    }
+  });
+  
+  const subWorkflowNodeIds = new Set([loopNodeId, ...Array.from(bodyNodeIds), ...Object.keys(externalOutputs)]);
+  const subWorkflow: WorkflowData = {
+    nodes: workflowData.nodes.filter(node => subWorkflowNodeIds.has(node.id)),
+    edges: workflowData.edges.filter(edge =>
+      bodyNodeIds.has(edge.target) && subWorkflowNodeIds.has(edge.source)
+    ),
+    settings: workflowData.settings
+  };
+  
+  // Body nodes without outgoing connections inside the body produce the iteration result
+  const sinkNodeIds = new Set(
+    Array.from(bodyNodeIds).filter(nodeId =>
+      !workflowData.edges.some(edge => edge.source === nodeId && bodyNodeIds.has(edge.target))
+    )
+  );
+  
+  const iterations = await runWithConcurrency(iterationData.items.length, concurrency, async (index) => {
+    const completedSinks: string[] = [];
+    
+    const subState = await executeEnhancedWorkflow(
+      subWorkflow,
+      (nodeId, state) => {
+        if (!bodyNodeIds.has(nodeId)) return;
+        if (state.status === 'completed' && sinkNodeIds.has(nodeId)) {
+          completedSinks.push(nodeId);
+        }
+        if (onNodeStateChange) {
+          onNodeStateChange(nodeId, state);
+        }
+      },
+      undefined,
+      {
+        debugMode: options.debugMode,
+        metadata: { ...options.metadata, loopNodeId, iteration: index },
+        signal: options.signal,
+        beforeNode: options.beforeNode,
+        variables: options.variables,
+        presetOutputs: {
+          ...externalOutputs,
+          [loopNodeId]: { items: [iterationData.items[index]], meta: iterationData.meta }
+        }
+      }
+    );
+    
+    if (subState.status === 'cancelled') {
+      throw new Error(WORKFLOW_CANCELLED_MESSAGE);
+    }
+    if (subState.status === 'error') {
+      throw new Error(`Iteration ${index + 1} failed: ${subState.error}`);
+    }
+    if (subState.status === 'suspended') {
+      throw new Error(`Iteration ${index + 1} failed: node ${subState.suspendedNodeId} cannot suspend a run inside a loop`);
+    }
+    
+    const resultNodeId = completedSinks[completedSinks.length - 1];
+    return { subState, result: resultNodeId ? subState.nodeOutputs[resultNodeId] : undefined };
+  });
+  
+  // Body nodes report the last iteration's state, or the first failed iteration's error
+  bodyNodeIds.forEach(nodeId => {
+    let nodeState: NodeState | undefined;
+    iterations.forEach(({ subState }, index) => {
+      const state = subState.nodeStates[nodeId];
+      if (!state || nodeState?.status === 'error') return;
+      nodeState = state.status === 'error'
+        ? { ...state, error: `Iteration ${index + 1}: ${state.error}` }
+        : state;
+      if (subState.nodeOutputs[nodeId]) {
+        executionState.nodeOutputs[nodeId] = subState.nodeOutputs[nodeId];
+      }
+    });
+    if (nodeState) {
+      executionState.nodeStates[nodeId] = nodeState;
+    }
+  });
+  
+  const results = iterations
+    .filter(iteration => iteration.result !== undefined)
+    .map(iteration => getInputValue(iteration.result));
+  
+  return {
+    items: [{
+      json: results,
+      text: JSON.stringify(results),
+      meta: { outputType: LOOP_DONE_PORT }
+    }],
+    meta: {
+      startTime,
+      endTime: new Date(),
+      itemsProcessed: iterationData.items.length
+    }
+  };
+}
+
+/**
+ * Get a node and every node downstream of it, i.e. the nodes that "run from here" executes again.
+ * A loop body only runs as part of its loop, so starting inside a body includes the loop node.
+ */
+export function getDownstreamNodeIds(workflowData: WorkflowData, startNodeId: string): Set<string> {
+  const downstreamNodeIds = new Set<string>();
+  const queue = [startNodeId];
+  
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (downstreamNodeIds.has(nodeId)) continue;
+    
+    downstreamNodeIds.add(nodeId);
+    workflowData.edges
+      .filter(edge => edge.source === nodeId)
+      .forEach(edge => queue.push(edge.target));
+    
+    workflowData.nodes
+      .filter(node => node.type === LOOP_NODE_TYPE && getLoopBodyNodeIds(workflowData, node.id).has(nodeId))
+      .forEach(node => queue.push(node.id));
+  }
+  
+  return downstreamNodeIds;
+}
+
+/**
+ * Get the preset outputs for re-running a workflow from a node: every node
+ * outside the re-run part reuses its output from a previous run. Nodes without
+ * a previous output (e.g. because they failed) are executed again as well.
+ */
+export function getRerunPresetOutputs(
+  workflowData: WorkflowData,
+  startNodeId: string,
+  previousOutputs: Record<string, NodeExecutionData>
+): Record<string, NodeExecutionData> {
+  if (!workflowData.nodes.some(node => node.id === startNodeId)) {
+    throw new Error(`Node ${startNodeId} not found in workflow`);
+  }
+  
+  const downstreamNodeIds = getDownstreamNodeIds(workflowData, startNodeId);
+  const presetOutputs: Record<string, NodeExecutionData> = {};
+  workflowData.nodes.forEach(node => {
+    if (!downstreamNodeIds.has(node.id) && previousOutputs[node.id]) {
+      presetOutputs[node.id] = previousOutputs[node.id];
+    }
+  });
+  
+  return presetOutputs;
+}
+
 /**
  * Execute an enhanced workflow
  */
@@ -192,9 +900,21 @@ export async function executeEnhancedWorkflow(
   options: {
     debugMode?: boolean;
     metadata?: Record<string, any>;
+    // Outputs to use instead of executing the node (e.g. workflow input injected by the server)
+    presetOutputs?: Record<string, NodeExecutionData>;
+    // Cancels the run: no further nodes start, and running executors receive the signal
+    signal?: AbortSignal;
+    // Replay of a recorded run: entry nodes and nodes of EXTERNAL_NODE_TYPES return their
+    // recorded output instead of executing; every other node executes on its inputs
+    recordedOutputs?: Record<string, NodeExecutionData>;
+    // Awaited before each node executes, once its inputs are resolved (used by the
+    // step-through debugger to pause the run); aborting the signal meanwhile stops the node
+    beforeNode?: (nodeId: string, nodeType: string, inputs: Record<string, NodeExecutionData>, outputs: Record<string, NodeExecutionData>) => Promise<void>;
+    // Values of $vars in expressions (see expressions.ts)
+    variables?: Record<string, any>;
   } = {}
 ): Promise<WorkflowExecutionState> {
-  const { debugMode = false } = options;
+  const { debugMode = false, presetOutputs = {}, signal, recordedOutputs, beforeNode, variables = {} } = options;
   
   console.log('Executing enhanced workflow with', workflowData.nodes.length, 'nodes');
   if (debugMode) {
@@ -212,10 +932,27 @@ export async function executeEnhancedWorkflow(
   
   // Create dependency graph and resolve execution order
   const dependencyGraph = createNodeDependencyGraph(workflowData);
+  
+  // Find loop bodies; a loop runs after every node that feeds into its body
+  const loopBodies = new Map<string, Set<string>>();
+  const loopBodyNodeIds = new Set<string>();
+  workflowData.nodes
+    .filter(node => node.type === LOOP_NODE_TYPE && !presetOutputs[node.id])
+    .forEach(node => {
+      const bodyNodeIds = getLoopBodyNodeIds(workflowData, node.id);
+      loopBodies.set(node.id, bodyNodeIds);
+      bodyNodeIds.forEach(nodeId => loopBodyNodeIds.add(nodeId));
+      workflowData.edges.forEach(edge => {
+        if (bodyNodeIds.has(edge.target) && edge.source !== node.id && !bodyNodeIds.has(edge.source)) {
+          dependencyGraph[node.id].push(edge.source);
+        }
+      });
+    });
   let executionOrder: string[];
   
   try {
     executionOrder = resolveExecutionOrder(dependencyGraph);
+    executionState.executionOrder = executionOrder;
     console.log('Resolved execution order:', executionOrder);
   } catch (error) {
     executionState.status = 'error';
@@ -238,152 +975,387 @@ export async function executeEnhancedWorkflow(
     nodeMap.set(node.id, node);
   });
   
-  // Execute nodes in order
-  try {
-    for (const nodeId of executionOrder) {
-      const node = nodeMap.get(nodeId);
-      
-      if (!node) {
-        throw new Error(`Node with id ${nodeId} not found in workflow`);
+  // Run a single node: use its preset output, skip it, or execute it
+  const runNode = async (nodeId: string): Promise<void> => {
+    const node = nodeMap.get(nodeId);
+    
+    if (!node) {
+      throw new Error(`Node with id ${nodeId} not found in workflow`);
+    }
+    
+    const nodeType = node.type;
+    const nodeData = node.data || {};
+    
+    // Loop body nodes are run by their loop; if the loop never ran, neither did they
+    if (loopBodyNodeIds.has(nodeId)) {
+      if (!executionState.nodeStates[nodeId]) {
+        const now = new Date();
+        executionState.nodeStates[nodeId] = { status: 'skipped', startTime: now, endTime: now };
+        if (onNodeStateChange) {
+          onNodeStateChange(nodeId, executionState.nodeStates[nodeId]);
+        }
       }
+      return;
+    }
+    
+    // Use the preset output instead of executing the node
+    if (presetOutputs[nodeId]) {
+      const output = presetOutputs[nodeId];
+      const now = new Date();
       
-      const nodeType = node.type;
-      const nodeData = node.data || {};
-      
-      // Get executor for node type - from either the enhanced registry or the direct executors
-      const executor = nodeRegistry[nodeType];
+      executionState.nodeOutputs[nodeId] = output;
+      executionState.nodeStates[nodeId] = {
+        status: 'completed',
+        startTime: now,
+        endTime: now,
+        output
+      };
       
-      if (!executor) {
-        // Cannot find executor for this node type
-        throw new Error(`No executor registered for node type "${nodeType}". Make sure this node type is properly registered in the System or Custom folder.`);
+      if (onNodeStateChange) {
+        onNodeStateChange(nodeId, executionState.nodeStates[nodeId]);
       }
-      
-      // Prepare node state in execution state
+      return;
+    }
+    
+    // Skip nodes whose incoming connections are all inactive, i.e. nodes that only
+    // hang off the untaken output of a decision (or off other skipped nodes).
+    // A node where branches rejoin runs as long as one of its connections is active.
+    const nodeInputMapping = inputMapping[nodeId] || {};
+    const incomingConnections = Object.values(nodeInputMapping).flat();
+    if (incomingConnections.length > 0 && !incomingConnections.some(connection => isConnectionActive(executionState, connection))) {
+      const now = new Date();
       executionState.nodeStates[nodeId] = {
-        status: 'running',
-        startTime: new Date(),
-        endTime: null,
-        output: undefined
+        status: 'skipped',
+        startTime: now,
+        endTime: now
       };
       
-      // Notify of node state change
       if (onNodeStateChange) {
         onNodeStateChange(nodeId, executionState.nodeStates[nodeId]);
       }
-      
-      try {
-        // Collect inputs from connected nodes
-        const inputs: Record<string, NodeExecutionData> = {};
-        const nodeInputMapping = inputMapping[nodeId] || {};
-        
-        // Import the transformation utility
-        // @ts-ignore - This is dynamically loaded
-        const { transformNodeData } = await import('./nodeDataUtils');
+      return;
+    }
+    
+    // Get executor for node type - from either the enhanced registry or the direct executors
+    const executor = nodeRegistry[nodeType];
+    
+    if (!executor) {
+      // Cannot find executor for this node type
+      throw new Error(`No executor registered for node type "${nodeType}". Make sure this node type is properly registered in the System or Custom folder.`);
+    }
+    
+    // Prepare node state in execution state
+    executionState.nodeStates[nodeId] = {
+      status: 'running',
+      startTime: new Date(),
+      endTime: null,
+      output: undefined,
+      attempts: []
+    };
+    
+    // Notify of node state change
+    if (onNodeStateChange) {
+      onNodeStateChange(nodeId, executionState.nodeStates[nodeId]);
+    }
+    
+    // Record every attempt; failed attempts that will be retried are reported while the node runs
+    const attempts: NodeAttempt[] = executionState.nodeStates[nodeId].attempts!;
+    const recordAttempt = (attempt: NodeAttempt) => {
+      attempts.push(attempt);
+      if (attempt.status === 'error' && onNodeStateChange) {
+        onNodeStateChange(nodeId, {
+          ...executionState.nodeStates[nodeId],
+          message: `Attempt ${attempt.attempt} failed: ${attempt.error}`
+        });
+      }
+    };
+    
+    // Collect inputs from connected nodes; the node state records them once resolved
+    const inputs: Record<string, NodeExecutionData> = {};
+    
+    try {
+      // For each input port, get the data from the connected output ports
+      for (const [inputKey, connections] of Object.entries(nodeInputMapping)) {
+        const portItems: WorkflowItem[] = [];
+        let portMeta: NodeExecutionData['meta'] | undefined;
         
-        // For each input target, get the output from the source node
-        for (const [inputKey, { nodeId: sourceNodeId, outputKey }] of Object.entries(nodeInputMapping)) {
+        for (const { nodeId: sourceNodeId, outputKey } of connections) {
+          // Skipped branches contribute nothing to a merge
+          if (executionState.nodeStates[sourceNodeId]?.status === 'skipped') {
+            continue;
+          }
+          
           const sourceOutput = executionState.nodeOutputs[sourceNodeId];
           
           if (!sourceOutput) {
             throw new Error(`No output available from source node ${sourceNodeId}`);
           }
           
-          // Transform the output based on source node type and target node expectations
-          // Determine source type and target type (simplified for now)
-          const sourceType = typeof sourceOutput === 'object' ? 'object' : typeof sourceOutput;
-          const targetType = 'string'; // Simplified assumption for now
-          
-          // Transform the data for compatibility
-          try {
-            // First try to access specific outputKey if specified
-            let transformedOutput = sourceOutput;
-            
-            // Apply data transformation
-            transformedOutput = transformNodeData(transformedOutput, sourceType, targetType);
-            
-            // Set the transformed output as input
-            inputs[inputKey] = transformedOutput;
-          } catch (error) {
-            console.warn(`Error transforming data from node ${sourceNodeId} to ${nodeId}:`, error);
-            // Still use the raw output as fallback
-            inputs[inputKey] = sourceOutput;
+          const portData = getOutputPortData(sourceOutput, outputKey);
+          if (portData) {
+            portItems.push(...portData.items);
+            portMeta = portMeta || portData.meta;
           }
         }
         
-        // Use node data as inputs for any configured values
-        for (const [key, value] of Object.entries(nodeData)) {
-          if (key !== 'label' && key !== 'description' && !key.startsWith('_')) {
-            if (!inputs[key] && value !== undefined) {
+        // Inactive ports (no data) leave the input unset
+        if (portMeta) {
+          inputs[inputKey] = { items: portItems, meta: portMeta };
+        }
+      }
+      
+      // Resolve expressions in the node's settings now that its inputs are known;
+      // $input is the main input port (or the first connected one)
+      const expressionNodes: ExpressionContext['$node'] = {};
+      workflowData.nodes.forEach(({ id, data }) => {
+        const nodeOutput = executionState.nodeOutputs[id];
+        if (!nodeOutput) return;
+        if (data?.label) expressionNodes[data.label] = nodeOutput;
+        expressionNodes[id] = nodeOutput;
+      });
+      const connectedPorts = Object.keys(inputs);
+      const resolveNodeData = (nodeInputs: Record<string, NodeExecutionData>): Record<string, any> => {
+        const mainInput = nodeInputs.input || (connectedPorts[0] ? nodeInputs[connectedPorts[0]] : undefined);
+        return resolveExpressions(nodeData, {
+          $node: expressionNodes,
+          $input: { json: mainInput?.items[0]?.json, items: mainInput?.items || [] },
+          $vars: variables
+        }, ['executionPolicy', 'pinnedOutput']);
+      };
+      
+      // Use node data as inputs for any configured values (the execution policy is for the engine)
+      const addSettingInputs = (nodeInputs: Record<string, NodeExecutionData>, data: Record<string, any>) => {
+        for (const [key, value] of Object.entries(data)) {
+          if (key !== 'label' && key !== 'description' && key !== 'executionPolicy' && key !== 'pinnedOutput' && !key.startsWith('_')) {
+            if (!connectedPorts.includes(key) && value !== undefined) {
               // Create a workflow item from the value if not already an input
-              inputs[key] = {
+              nodeInputs[key] = {
                 items: [createWorkflowItem(value, 'static')],
                 meta: { startTime: new Date(), endTime: new Date() }
               };
             }
           }
         }
-        
-        // Execute the node
-        console.log(`Executing node ${nodeId} (${nodeType})`);
-        
-        // In debug mode, log detailed node execution information
-        if (debugMode) {
-          console.log(`Node ${nodeId} (${nodeType}) execution details:`, {
-            nodeData,
-            inputs,
-            inputMapping: nodeInputMapping
-          });
+        return nodeInputs;
+      };
+      const resolvedData = resolveNodeData(inputs);
+      addSettingInputs(inputs, resolvedData);
+      
+      if (beforeNode) {
+        await beforeNode(nodeId, nodeType, inputs, executionState.nodeOutputs);
+        if (signal?.aborted) {
+          throw new Error(WORKFLOW_CANCELLED_MESSAGE);
         }
-        
-        const output = await executor.execute(nodeData, inputs);
-        
-        // In debug mode, log the output of the node
-        if (debugMode) {
-          console.log(`Node ${nodeId} (${nodeType}) output:`, output);
+      }
+      
+      // Execute the node
+      console.log(`Executing node ${nodeId} (${nodeType})`);
+      
+      // In debug mode, log detailed node execution information
+      if (debugMode) {
+        console.log(`Node ${nodeId} (${nodeType}) execution details:`, {
+          nodeData,
+          inputs,
+          inputMapping: nodeInputMapping
+        });
+      }
+      
+      // In a replay, external and entry nodes return their recording instead of executing,
+      // and so do loops whose body calls an external service (with their body's recordings)
+      const loopBody = loopBodies.get(nodeId);
+      const replayed = !!recordedOutputs && (
+        EXTERNAL_NODE_TYPES.includes(nodeType) ||
+        isWorkflowEntryNode(node) ||
+        (!!loopBody && Array.from(loopBody).some(bodyNodeId => EXTERNAL_NODE_TYPES.includes(nodeMap.get(bodyNodeId)?.type)))
+      );
+      
+      // A pinned output (see createPinnedOutput) is emitted instead of executing the node
+      const pinnedOutput: NodeExecutionData | undefined = nodeData.pinnedOutput;
+      
+      // Connected ports carry items; the node runs per item (or per batch)
+      const itemPorts = Object.keys(nodeInputMapping).filter(port => inputs[port]);
+      let output: NodeExecutionData;
+      if (pinnedOutput) {
+        output = pinnedOutput;
+      } else if (replayed) {
+        if (!recordedOutputs![nodeId]) {
+          throw new Error(`No recorded output for node ${nodeId} (${nodeType}); it is not executed during a replay`);
         }
-        
-        // Store output
-        executionState.nodeOutputs[nodeId] = output;
-        
-        // Update node state
+        output = recordedOutputs![nodeId];
+        loopBody?.forEach(bodyNodeId => {
+          const recordedOutput = recordedOutputs![bodyNodeId];
+          if (!recordedOutput) return;
+          const now = new Date();
+          executionState.nodeOutputs[bodyNodeId] = recordedOutput;
+          executionState.nodeStates[bodyNodeId] = {
+            status: 'completed',
+            startTime: now,
+            endTime: now,
+            output: recordedOutput,
+            message: 'Replayed from recording'
+          };
+          if (onNodeStateChange) {
+            onNodeStateChange(bodyNodeId, executionState.nodeStates[bodyNodeId]);
+          }
+        });
+      } else {
+        // Runs of single items (or batches) resolve expressions against their own items
+        output = await executeNodeForItems(executor, nodeId, resolvedData, inputs, itemPorts, {
+          nodeId,
+          metadata: options.metadata || {},
+          signal
+        }, recordAttempt, runInputs => {
+          const runData = resolveNodeData(runInputs);
+          return { nodeData: runData, inputs: addSettingInputs(runInputs, runData) };
+        });
+      }
+      
+      // Mark the output so that its "error" port only carries failures
+      if (nodeData.executionPolicy?.errorOutput && output) {
+        output = { ...output, meta: { ...output.meta, errorOutput: true } };
+      }
+      
+      // Loop nodes return their iteration items; run the body for each of them
+      if (loopBody && !replayed && !pinnedOutput && !output?.meta?.error && !output?.meta?.failedRuns && Array.isArray(output?.items)) {
+        output = await executeLoopBody(
+          workflowData,
+          nodeId,
+          loopBody,
+          output,
+          Number(nodeData.concurrency) || 1,
+          executionState,
+          onNodeStateChange,
+          options
+        );
+      }
+      
+      // In debug mode, log the output of the node
+      if (debugMode) {
+        console.log(`Node ${nodeId} (${nodeType}) output:`, output);
+      }
+      
+      // A node that asks to suspend the run waits with its output instead of passing it on;
+      // the run is resumed later with that node's final output preset
+      if (output?.meta?.suspended) {
+        executionState.suspendedNodeId = executionState.suspendedNodeId ?? nodeId;
         executionState.nodeStates[nodeId] = {
-          status: 'completed',
+          status: 'waiting',
           startTime: executionState.nodeStates[nodeId].startTime,
           endTime: new Date(),
-          output
+          output,
+          input: inputs,
+          attempts,
+          message: output.meta.message || 'Suspended'
         };
         
-        // Check if this is the last node in the workflow
-        const isLastNodeInFlow = executionOrder[executionOrder.length - 1] === nodeId;
-        if (isLastNodeInFlow) {
-          executionState.output = output;
-        }
-        
-        // Notify of node state change
         if (onNodeStateChange) {
           onNodeStateChange(nodeId, executionState.nodeStates[nodeId]);
         }
-      } catch (error) {
-        console.error(`Error executing node ${nodeId} (${nodeType}):`, error);
-        
-        // Update node state with error
-        executionState.nodeStates[nodeId] = {
-          status: 'error',
-          startTime: executionState.nodeStates[nodeId].startTime,
-          endTime: new Date(),
-          error: error instanceof Error ? error.message : String(error)
-        };
-        
-        // Notify of node state change
-        if (onNodeStateChange) {
-          onNodeStateChange(nodeId, executionState.nodeStates[nodeId]);
+        return;
+      }
+      
+      // Store output
+      executionState.nodeOutputs[nodeId] = output;
+      
+      // Update node state
+      executionState.nodeStates[nodeId] = {
+        status: 'completed',
+        startTime: executionState.nodeStates[nodeId].startTime,
+        endTime: new Date(),
+        output,
+        input: inputs,
+        attempts,
+        message: output?.meta?.failedRuns
+          ? `${output.meta.failedRuns} failed run(s) sent to the error output`
+          : pinnedOutput ? 'Pinned output' : replayed ? 'Replayed from recording' : undefined
+      };
+      
+      // Notify of node state change
+      if (onNodeStateChange) {
+        onNodeStateChange(nodeId, executionState.nodeStates[nodeId]);
+      }
+    } catch (error) {
+      console.error(`Error executing node ${nodeId} (${nodeType}):`, error);
+      
+      // Update node state with error
+      executionState.nodeStates[nodeId] = {
+        status: 'error',
+        startTime: executionState.nodeStates[nodeId].startTime,
+        endTime: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+        input: inputs,
+        attempts
+      };
+      
+      // Notify of node state change
+      if (onNodeStateChange) {
+        onNodeStateChange(nodeId, executionState.nodeStates[nodeId]);
+      }
+      
+      // Stop execution if node is marked as critical
+      if (nodeData.critical) {
+        throw new Error(`Critical node ${nodeId} (${nodeType}) failed: ${executionState.nodeStates[nodeId].error}`);
+      }
+    }
+  };
+  
+  // Execute nodes as soon as their dependencies have finished. Independent nodes
+  // run side by side, at most maxConcurrency at a time; ready nodes start in the
+  // resolved execution order, so outputs and results do not depend on timing.
+  // Once a node suspends the run, nothing new starts either.
+  const maxConcurrency = Math.max(1, Number(workflowData.settings?.maxConcurrency) || DEFAULT_MAX_CONCURRENCY);
+  
+  try {
+    const pendingNodeIds = [...executionOrder];
+    const finishedNodeIds = new Set<string>();
+    const runningNodes = new Map<string, Promise<void>>();
+    let failure: unknown;
+    
+    while (pendingNodeIds.length > 0 || runningNodes.size > 0) {
+      // Cancellation is checked between nodes: once aborted, nothing new starts
+      for (let index = 0; index < pendingNodeIds.length && runningNodes.size < maxConcurrency && !failure && !signal?.aborted && !executionState.suspendedNodeId;) {
+        const nodeId = pendingNodeIds[index];
+        if (!(dependencyGraph[nodeId] || []).every(dependencyId => finishedNodeIds.has(dependencyId))) {
+          index++;
+          continue;
         }
         
-        // Stop execution if node is marked as critical
-        if (nodeData.critical) {
-          throw new Error(`Critical node ${nodeId} (${nodeType}) failed: ${executionState.nodeStates[nodeId].error}`);
-        }
+        pendingNodeIds.splice(index, 1);
+        runningNodes.set(nodeId, runNode(nodeId)
+          .catch(error => {
+            failure = failure ?? error;
+          })
+          .finally(() => {
+            runningNodes.delete(nodeId);
+            finishedNodeIds.add(nodeId);
+          }));
       }
+      
+      if (runningNodes.size === 0) break;
+      await Promise.race(Array.from(runningNodes.values()));
+      
+      // Let nodes already in flight finish before reporting the failure
+      if (failure) {
+        await Promise.all(Array.from(runningNodes.values()));
+        throw failure;
+      }
+    }
+    
+    if (signal?.aborted) {
+      throw new Error(WORKFLOW_CANCELLED_MESSAGE);
+    }
+    
+    if (executionState.suspendedNodeId) {
+      executionState.status = 'suspended';
+      return executionState;
+    }
+    
+    // The workflow output comes from the last node that was not skipped
+    const lastRunNodeId = [...executionOrder]
+      .reverse()
+      .find(id => !loopBodyNodeIds.has(id) && executionState.nodeStates[id]?.status !== 'skipped');
+    if (lastRunNodeId) {
+      executionState.output = executionState.nodeOutputs[lastRunNodeId];
     }
     
     // Mark workflow as completed
@@ -391,9 +1363,11 @@ export async function executeEnhancedWorkflow(
   } catch (error) {
     console.error('Error executing workflow:', error);
     
-    // Mark workflow as failed
-    executionState.status = 'error';
-    executionState.error = error instanceof Error ? error.message : String(error);
+    // Mark workflow as failed, or as cancelled when it was stopped through its signal
+    executionState.status = signal?.aborted ? 'cancelled' : 'error';
+    executionState.error = signal?.aborted
+      ? WORKFLOW_CANCELLED_MESSAGE
+      : error instanceof Error ? error.message : String(error);
   } finally {
     // Set end time
     executionState.endTime = new Date();
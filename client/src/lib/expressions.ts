@@ -0,0 +1,152 @@
+/**
+ * Workflow Expressions
+ *
+ * Expressions reference run data from any string setting of a node:
+ *
+ *   {{ $node["Fetch"].items[0].json.title }}   output of another node, by label or ID
+ *   {{ $input.json.x }}                        first input item of the node itself
+ *   {{ $vars.apiBase }}                        workflow variable
+ *
+ * The engine resolves them before a node runs, on the canvas and on the server.
+ * A setting that is exactly one expression takes the referenced value as is;
+ * otherwise each expression is replaced by its value as text. Only expressions
+ * that start with `$` are evaluated, so plain `{{name}}` placeholders (e.g. in
+ * text_template) are left to the node.
+ *
+ * Expressions are property paths, not JavaScript: a root ($node, $input, $vars)
+ * followed by `.name`, `["name"]` or `[index]` segments.
+ */
+
+import { NodeExecutionData, WorkflowItem } from './types/workflow';
+
+/**
+ * Data that expressions can reference
+ */
+export interface ExpressionContext {
+  // Node outputs, keyed by node ID and by node label
+  $node: Record<string, NodeExecutionData>;
+  // The node's input: its first item's json, and all its items
+  $input: { json?: any; items: WorkflowItem[] };
+  // Workflow variables
+  $vars: Record<string, any>;
+}
+
+const EXPRESSION_PATTERN = /\{\{\s*(\$[^}]*?)\s*\}\}/g;
+const SINGLE_EXPRESSION_PATTERN = /^\{\{\s*(\$[^}]*?)\s*\}\}$/;
+const ROOTS = ['$node', '$input', '$vars'];
+
+/**
+ * Whether a value contains an expression
+ */
+export function hasExpression(value: unknown): value is string {
+  return typeof value === 'string' && /\{\{\s*\$/.test(value);
+}
+
+/**
+ * Split an expression into its root and path segments
+ */
+function parseExpressionPath(expression: string): { root: string; path: Array<string | number> } {
+  const rootMatch = /^\$[A-Za-z_]\w*/.exec(expression);
+  if (!rootMatch || !ROOTS.includes(rootMatch[0])) {
+    throw new Error(`Invalid expression "${expression}": it must start with ${ROOTS.join(', ')}`);
+  }
+
+  const path: Array<string | number> = [];
+  const segmentPattern = /\.([A-Za-z_$][\w$]*)|\[\s*(\d+)\s*\]|\[\s*"((?:[^"\\]|\\.)*)"\s*\]|\[\s*'((?:[^'\\]|\\.)*)'\s*\]/g;
+  let position = rootMatch[0].length;
+  while (position < expression.length) {
+    segmentPattern.lastIndex = position;
+    const match = segmentPattern.exec(expression);
+    if (!match || match.index !== position) {
+      throw new Error(`Invalid expression "${expression}": unexpected "${expression.slice(position)}"`);
+    }
+    if (match[1] !== undefined) path.push(match[1]);
+    else if (match[2] !== undefined) path.push(Number(match[2]));
+    else path.push((match[3] ?? match[4]).replace(/\\(.)/g, '$1'));
+    position = segmentPattern.lastIndex;
+  }
+
+  return { root: rootMatch[0], path };
+}
+
+/**
+ * Evaluate a single expression (without the braces)
+ * References to missing data evaluate to undefined.
+ */
+export function evaluateExpression(expression: string, context: ExpressionContext): any {
+  const { root, path } = parseExpressionPath(expression.trim());
+  return path.reduce<any>(
+    (value, segment) => (value === undefined || value === null ? undefined : value[segment]),
+    context[root as keyof ExpressionContext]
+  );
+}
+
+/**
+ * Replace the expressions in a string
+ */
+function resolveString(value: string, context: ExpressionContext): any {
+  const single = SINGLE_EXPRESSION_PATTERN.exec(value);
+  if (single) {
+    return evaluateExpression(single[1], context);
+  }
+
+  return value.replace(EXPRESSION_PATTERN, (_match, expression: string) => {
+    const result = evaluateExpression(expression, context);
+    if (result === undefined || result === null) return '';
+    return typeof result === 'object' ? JSON.stringify(result) : String(result);
+  });
+}
+
+/**
+ * Resolve the expressions in every string of a value (objects and arrays are walked)
+ *
+ * @param skipKeys Object keys whose values are left as they are
+ */
+export function resolveExpressions<T>(value: T, context: ExpressionContext, skipKeys: string[] = []): T {
+  if (hasExpression(value)) {
+    return resolveString(value, context);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveExpressions(item, context)) as unknown as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const resolved: Record<string, any> = {};
+    Object.entries(value as Record<string, any>).forEach(([key, entry]) => {
+      resolved[key] = skipKeys.includes(key) ? entry : resolveExpressions(entry, context);
+    });
+    return resolved as T;
+  }
+  return value;
+}
+
+/**
+ * Expression suggestions for the settings drawer, from the outputs of upstream nodes,
+ * the node's own input and the workflow variables. Paths go a few levels into the
+ * first item's json.
+ */
+export function getExpressionSuggestions(options: {
+  upstreamNodes: Array<{ id: string; label?: string; output?: NodeExecutionData }>;
+  input?: NodeExecutionData;
+  variables?: Record<string, any>;
+}): string[] {
+  const { upstreamNodes, input, variables = {} } = options;
+  const suggestions: string[] = [];
+
+  const addPaths = (prefix: string, value: any, depth: number) => {
+    suggestions.push(prefix);
+    if (depth === 0 || !value || typeof value !== 'object' || Array.isArray(value)) return;
+    Object.keys(value).forEach(key => {
+      const segment = /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+      addPaths(`${prefix}${segment}`, value[key], depth - 1);
+    });
+  };
+
+  upstreamNodes.forEach(node => {
+    const name = JSON.stringify(node.label || node.id);
+    addPaths(`$node[${name}].items[0].json`, node.output?.items?.[0]?.json, 3);
+  });
+  addPaths('$input.json', input?.items?.[0]?.json, 3);
+  Object.keys(variables).forEach(name => suggestions.push(`$vars.${name}`));
+
+  return suggestions;
+}
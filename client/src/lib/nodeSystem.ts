@@ -6,7 +6,7 @@
  * All nodes (both System and Custom) use the same folder-based registry mechanism.
  */
 
-import { registerEnhancedNodeExecutor, createEnhancedNodeExecutor } from './enhancedWorkflowEngine';
+import { registerEnhancedNodeExecutor, createEnhancedNodeExecutor, createFolderNodeExecutor } from './enhancedWorkflowEngine';
 import { 
   FOLDER_BASED_NODE_TYPES, 
   SYSTEM_NODE_TYPES,
@@ -159,7 +159,8 @@ async function registerNodeType(nodeType: string, missingComponents: Record<stri
               inputs: formatPortDefinitions(nodeDefinition.inputs || {}, true),
               outputs: formatPortDefinitions(nodeDefinition.outputs || {}, false)
             },
-            createNodeExecutor(nodeType, executor)
+            createFolderNodeExecutor(nodeType, executor),
+            executor.itemMode
           )
         );
         
@@ -195,35 +196,6 @@ function formatPortDefinitions(ports: Record<string, any>, isInput: boolean): Re
   );
 }
 
-/**
- * Create a node executor function that handles errors
- */
-function createNodeExecutor(nodeType: string, executor: any) {
-  return async (nodeData: any, inputs: Record<string, any>) => {
-    try {
-      // Execute the node
-      const result = await executor.execute(nodeData, inputs);
-      
-      // Format the result
-      return {
-        items: Array.isArray(result) 
-          ? result.map(item => ({ json: item, text: JSON.stringify(item) }))
-          : [{ json: result, text: typeof result === 'string' ? result : JSON.stringify(result) }],
-        meta: { startTime: new Date(), endTime: new Date() }
-      };
-    } catch (error) {
-      console.error(`Error executing ${nodeType} node:`, error);
-      return {
-        items: [{
-          json: { error: error instanceof Error ? error.message : String(error) },
-          text: error instanceof Error ? error.message : String(error)
-        }],
-        meta: { startTime: new Date(), endTime: new Date(), error: true }
-      };
-    }
-  };
-}
-
 /**
  * Record a missing or invalid component
  */
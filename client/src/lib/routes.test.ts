@@ -0,0 +1,167 @@
+/**
+ * Server API route tests
+ *
+ * Run with `npm test` (Node's test runner through tsx).
+ */
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import express from 'express';
+
+// Without a reachable Replit database, storage keeps its data in memory
+process.env.REPLIT_DB_URL = 'http://127.0.0.1:9/db';
+const { storage } = await import('../../../server/storage');
+const { registerRoutes } = await import('../../../server/routes');
+const { MAX_WORKFLOW_CALL_DEPTH } = await import('../../../server/services/workflowRunner');
+const { startRunQueue } = await import('../../../server/services/runQueue');
+
+await storage.ready;
+await startRunQueue();
+
+const app = express();
+app.use(express.json());
+const server = await registerRoutes(app);
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+after(() => server.close());
+
+// A slow endpoint for workflows to call
+const slowServer = express()
+  .get('/slow', (_req, res) => { setTimeout(() => res.json({ done: true }), 300); })
+  .listen(0, '127.0.0.1');
+await new Promise(resolve => slowServer.once('listening', resolve));
+const slowUrl = `http://127.0.0.1:${(slowServer.address() as AddressInfo).port}/slow`;
+after(() => slowServer.close());
+
+const createWorkflow = (nodes: any[], edges: any[] = []) =>
+  storage.createWorkflow({ name: 'Test workflow', type: 'custom', status: 'active', flowData: { nodes, edges } } as any);
+
+const post = (path: string, body: any, headers: Record<string, string> = {}) => fetch(`${baseUrl}${path}`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', ...headers },
+  body: JSON.stringify(body)
+});
+
+const createWebhookWorkflow = (settings: Record<string, any>, nodes: any[] = [], edges: any[] = []) =>
+  createWorkflow([{ id: 'webhook', type: 'webhook_trigger', data: { settings } }, ...nodes], edges);
+
+const edge = (source: string, target: string, sourceHandle = 'output') =>
+  ({ id: `${source}-${target}`, source, target, sourceHandle, targetHandle: 'input' });
+
+test('the execute API ignores a call stack sent by the caller', async () => {
+  const callee = await createWorkflow([{ id: 'input', type: 'text_input', data: { text: 'hello' } }]);
+  const caller = await createWorkflow([{ id: 'call', type: 'execute_workflow', data: { workflowId: callee.id } }]);
+
+  const response = await post(`/api/workflows/${caller.id}/execute`, {
+    input: {},
+    options: { callStack: Array(MAX_WORKFLOW_CALL_DEPTH).fill(caller.id) }
+  });
+  const body = await response.json();
+
+  assert.equal(response.status, 200);
+  assert.equal(body.errors, undefined);
+});
+
+test('a webhook whose run outlasts the response timeout is answered with 202', async () => {
+  const workflow = await createWebhookWorkflow(
+    { path: 'slow-run' },
+    [{ id: 'request', type: 'http_request', data: { url: slowUrl, method: 'GET' } }],
+    [edge('webhook', 'request')]
+  );
+  process.env.WEBHOOK_RESPONSE_TIMEOUT = '50';
+
+  try {
+    const response = await post('/api/webhooks/slow-run', {});
+    const body = await response.json();
+
+    assert.equal(response.status, 202);
+    assert.equal(body.status, 'running');
+    assert.equal(body.statusUrl, `/api/queue/${body.queuedRunId}`);
+    const queuedRun = await storage.getQueuedRun(body.queuedRunId);
+    assert.equal(queuedRun?.workflowId, workflow.id);
+  } finally {
+    delete process.env.WEBHOOK_RESPONSE_TIMEOUT;
+  }
+});
+
+test('a webhook run that handles its failure through an error port succeeds', async () => {
+  await createWebhookWorkflow(
+    { path: 'handled-failure' },
+    [
+      { id: 'decide', type: 'decision', data: { condition: 'value.missing.property', executionPolicy: { errorOutput: true } } },
+      { id: 'fallback', type: 'text_input', data: { text: 'fallback' } }
+    ],
+    [edge('webhook', 'decide'), edge('decide', 'fallback', 'error')]
+  );
+
+  const response = await post('/api/webhooks/handled-failure', {});
+
+  assert.equal(response.status, 200);
+  assert.equal((await response.json()).success, true);
+});
+
+test('a webhook_response node in respond mode sets the webhook response', async () => {
+  await createWebhookWorkflow(
+    { path: 'respond' },
+    [{
+      id: 'respond',
+      type: 'webhook_response',
+      data: { settings: { mode: 'respond', statusCode: 201, headers: '{"X-Custom": "1"}', responseBody: '{"text": "Hi {{ $input.json.payload.user }}"}' } }
+    }],
+    [edge('webhook', 'respond')]
+  );
+
+  const response = await post('/api/webhooks/respond', { user: 'ann' });
+
+  assert.equal(response.status, 201);
+  assert.equal(response.headers.get('x-custom'), '1');
+  assert.match(response.headers.get('content-type') || '', /^application\/json/);
+  assert.equal(await response.text(), '{"text": "Hi ann"}');
+});
+
+test('a workflow that handles an error can answer its webhook with its own response', async () => {
+  await createWebhookWorkflow(
+    { path: 'respond-to-error' },
+    [
+      { id: 'decide', type: 'decision', data: { condition: 'value.missing.property', executionPolicy: { errorOutput: true } } },
+      { id: 'respond', type: 'webhook_response', data: { settings: { mode: 'respond', statusCode: 400, responseBody: '{"error": "{{ $input.json.errorKind }}"}' } } }
+    ],
+    [edge('webhook', 'decide'), edge('decide', 'respond', 'error')]
+  );
+
+  const response = await post('/api/webhooks/respond-to-error', {});
+
+  assert.equal(response.status, 400);
+  assert.equal(await response.text(), '{"error": "other"}');
+});
+
+test('a respond-mode response is sent even when the run fails afterwards', async () => {
+  await createWebhookWorkflow(
+    { path: 'respond-then-fail' },
+    [
+      { id: 'respond', type: 'webhook_response', data: { settings: { mode: 'respond', statusCode: 422, responseBody: 'Rejected', responseType: 'text' } } },
+      { id: 'decide', type: 'decision', data: { condition: 'value.missing.property' } }
+    ],
+    [edge('webhook', 'respond'), edge('respond', 'decide')]
+  );
+
+  const response = await post('/api/webhooks/respond-then-fail', {});
+
+  assert.equal(response.status, 422);
+  assert.equal(await response.text(), 'Rejected');
+});
+
+test('a webhook run that fails without a respond-mode response answers with 500', async () => {
+  await createWebhookWorkflow(
+    { path: 'fail' },
+    [{ id: 'decide', type: 'decision', data: { condition: 'value.missing.property' } }],
+    [edge('webhook', 'decide')]
+  );
+
+  const response = await post('/api/webhooks/fail', {});
+  const body = await response.json();
+
+  assert.equal(response.status, 500);
+  assert.equal(body.success, false);
+  assert.match(body.error, /Cannot read properties of undefined/);
+});
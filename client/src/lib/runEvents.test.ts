@@ -0,0 +1,16 @@
+/**
+ * Run event tests
+ *
+ * Run with `npm test` (Node's test runner through tsx).
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getValuePreview } from '../../../server/services/runEvents';
+
+test('a value that cannot be serialized gets a placeholder preview', () => {
+  const response: any = { status: 200 };
+  response.request = { res: response };
+
+  assert.equal(getValuePreview(response), '[Unserializable value]');
+  assert.deepEqual(getValuePreview({ status: 200 }), { status: 200 });
+});
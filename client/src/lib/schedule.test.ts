@@ -0,0 +1,93 @@
+/**
+ * Schedule tests
+ *
+ * Run with `npm test` (Node's test runner through tsx).
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getIntervalMs,
+  getNextCronTime,
+  getNextScheduleTime,
+  getScheduleSettings,
+  parseCronExpression
+} from './schedule';
+
+const values = (set: Set<number>) => Array.from(set).sort((a, b) => a - b);
+
+test('cron fields accept stars, ranges, steps, lists and names', () => {
+  const schedule = parseCronExpression('*/15 9-17/4 1,15 JAN-MAR MON-FRI');
+
+  assert.deepEqual(values(schedule.minutes), [0, 15, 30, 45]);
+  assert.deepEqual(values(schedule.hours), [9, 13, 17]);
+  assert.deepEqual(values(schedule.daysOfMonth), [1, 15]);
+  assert.deepEqual(values(schedule.months), [1, 2, 3]);
+  assert.deepEqual(values(schedule.daysOfWeek), [1, 2, 3, 4, 5]);
+  assert.equal(schedule.daysOfMonthRestricted, true);
+  assert.equal(schedule.daysOfWeekRestricted, true);
+});
+
+test('a step after a single value runs to the end of the field, and weekday 7 is Sunday', () => {
+  const schedule = parseCronExpression('50/5 * * * 7');
+
+  assert.deepEqual(values(schedule.minutes), [50, 55]);
+  assert.deepEqual(values(schedule.daysOfWeek), [0]);
+  assert.equal(schedule.daysOfMonthRestricted, false);
+});
+
+test('invalid cron expressions are rejected with the reason', () => {
+  assert.throws(() => parseCronExpression('* * * *'), /expected 5 fields, got 4/);
+  assert.throws(() => parseCronExpression('60 * * * *'), /"60" is not a value between 0 and 59/);
+  assert.throws(() => parseCronExpression('*/0 * * * *'), /Invalid step/);
+  assert.throws(() => parseCronExpression('* 5-1 * * *'), /Invalid range "5-1"/);
+  assert.throws(() => parseCronExpression('* * * FOO *'), /"FOO" is not a value/);
+});
+
+test('the next cron time is the first matching minute after the given time', () => {
+  assert.equal(
+    getNextCronTime('30 9 * * *', new Date('2024-01-01T10:00:00Z')).toISOString(),
+    '2024-01-02T09:30:00.000Z'
+  );
+  // Never the given minute itself
+  assert.equal(
+    getNextCronTime('* * * * *', new Date('2024-01-01T10:00:00Z')).toISOString(),
+    '2024-01-01T10:01:00.000Z'
+  );
+  // Rare dates are found years ahead
+  assert.equal(
+    getNextCronTime('0 0 29 2 *', new Date('2024-03-01T00:00:00Z')).toISOString(),
+    '2028-02-29T00:00:00.000Z'
+  );
+});
+
+test('restricting both day fields fires on a day matching either one', () => {
+  // 1 September 2024 is a Sunday; the first Friday comes before the 13th
+  assert.equal(
+    getNextCronTime('0 0 13 * FRI', new Date('2024-09-01T00:00:00Z')).toISOString(),
+    '2024-09-06T00:00:00.000Z'
+  );
+});
+
+test('cron expressions are evaluated in the schedule timezone, across daylight saving time', () => {
+  assert.equal(
+    getNextCronTime('0 9 * * *', new Date('2024-01-15T00:00:00Z'), 'America/New_York').toISOString(),
+    '2024-01-15T14:00:00.000Z'
+  );
+  assert.equal(
+    getNextCronTime('0 9 * * *', new Date('2024-07-15T00:00:00Z'), 'America/New_York').toISOString(),
+    '2024-07-15T13:00:00.000Z'
+  );
+  assert.throws(() => getNextCronTime('0 9 * * *', new Date(), 'Not/AZone'), /Invalid timezone "Not\/AZone"/);
+});
+
+test('interval schedules fire one interval after the given time', () => {
+  const settings = getScheduleSettings({ settings: { mode: 'interval', interval: '90', intervalUnit: 'seconds' } });
+
+  assert.equal(getIntervalMs(settings), 90000);
+  assert.equal(
+    getNextScheduleTime(settings, new Date('2024-01-01T00:00:00Z')).toISOString(),
+    '2024-01-01T00:01:30.000Z'
+  );
+  assert.throws(() => getIntervalMs({ mode: 'interval', interval: 0 }), /positive number/);
+  assert.throws(() => getIntervalMs({ mode: 'interval', interval: 0.5, intervalUnit: 'seconds' }), /at least 1 second/);
+});
@@ -0,0 +1,247 @@
+/**
+ * Schedules
+ *
+ * When a schedule_trigger node fires: either on a five-field cron expression
+ * (minute hour day-of-month month day-of-week) evaluated in a timezone, or
+ * at a fixed interval. Used by the server scheduler to plan runs and by the
+ * node UI to preview the next one.
+ *
+ * Cron fields accept `*`, numbers, ranges (`1-5`), steps (`0-30/10`, or a star
+ * followed by `/15`), lists (`1,15`) and month and weekday names (`JAN`, `MON`).
+ * Weekday 0 and 7 are both Sunday. As in standard cron, when both day-of-month
+ * and day-of-week are restricted, a day matching either one fires.
+ */
+
+/**
+ * Schedule settings of a schedule_trigger node
+ */
+export interface ScheduleSettings {
+  mode: 'cron' | 'interval';
+  cron?: string;
+  interval?: number;
+  intervalUnit?: 'seconds' | 'minutes' | 'hours' | 'days';
+  // IANA timezone the cron expression is evaluated in (default UTC)
+  timezone?: string;
+}
+
+/**
+ * A parsed cron expression
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields are something other than "*"
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const INTERVAL_UNIT_MS: Record<NonNullable<ScheduleSettings['intervalUnit']>, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Enough minute, hour and day steps to cover several years, so rare dates like Feb 29 are found
+const MAX_CRON_SEARCH_STEPS = 100000;
+
+/**
+ * Read the schedule settings from a schedule_trigger node's data
+ * Settings saved through the settings drawer are nested under `settings`.
+ */
+export function getScheduleSettings(nodeData: Record<string, any> = {}): ScheduleSettings {
+  const data = { ...nodeData, ...(nodeData.settings || {}) };
+  return {
+    mode: data.mode === 'interval' ? 'interval' : 'cron',
+    cron: data.cron,
+    interval: data.interval !== undefined && data.interval !== '' ? Number(data.interval) : undefined,
+    intervalUnit: data.intervalUnit || 'minutes',
+    timezone: data.timezone || 'UTC'
+  };
+}
+
+/**
+ * Parse one cron field into the set of values it matches
+ */
+function parseCronField(field: string, min: number, max: number, names: string[] = [], nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+  const parseValue = (text: string): number => {
+    const nameIndex = names.indexOf(text.toUpperCase());
+    const value = nameIndex !== -1 ? nameIndex + nameOffset : Number(text);
+    if ((nameIndex === -1 && !/^\d+$/.test(text)) || value < min || value > max) {
+      throw new Error(`"${text}" is not a value between ${min} and ${max}`);
+    }
+    return value;
+  };
+
+  field.split(',').forEach(part => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in "${part}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const bounds = range.split('-');
+      if (bounds.length > 2) throw new Error(`Invalid range "${range}"`);
+      start = parseValue(bounds[0]);
+      // "5/15" runs from 5 to the end of the field, like "5-max/15"
+      end = bounds.length === 2 ? parseValue(bounds[1]) : stepText !== undefined ? max : start;
+      if (start > end) throw new Error(`Invalid range "${range}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+  }
+
+  try {
+    const daysOfWeek = parseCronField(fields[4], 0, 7, WEEKDAY_NAMES);
+    if (daysOfWeek.has(7)) {
+      daysOfWeek.delete(7);
+      daysOfWeek.add(0);
+    }
+
+    return {
+      minutes: parseCronField(fields[0], 0, 59),
+      hours: parseCronField(fields[1], 0, 23),
+      daysOfMonth: parseCronField(fields[2], 1, 31),
+      months: parseCronField(fields[3], 1, 12, MONTH_NAMES, 1),
+      daysOfWeek,
+      daysOfMonthRestricted: fields[2] !== '*',
+      daysOfWeekRestricted: fields[4] !== '*'
+    };
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * The wall-clock time of an instant in a timezone
+ */
+function getZonedTime(formatter: Intl.DateTimeFormat, date: Date) {
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    // Some engines format midnight as 24 even with hourCycle h23
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toUpperCase())
+  };
+}
+
+function createZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  try {
+    return new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short'
+    });
+  } catch (error) {
+    throw new Error(`Invalid timezone "${timezone}"`);
+  }
+}
+
+/**
+ * The first minute after `after` that a cron expression matches in a timezone
+ */
+export function getNextCronTime(expression: string, after: Date, timezone = 'UTC'): Date {
+  const schedule = parseCronExpression(expression);
+  const formatter = createZonedFormatter(timezone);
+
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  for (let step = 0; step < MAX_CRON_SEARCH_STEPS; step++) {
+    const zoned = getZonedTime(formatter, new Date(time));
+
+    const dayOfMonthMatches = schedule.daysOfMonth.has(zoned.day);
+    const dayOfWeekMatches = schedule.daysOfWeek.has(zoned.weekday);
+    const dayMatches = schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted
+      ? dayOfMonthMatches || dayOfWeekMatches
+      : dayOfMonthMatches && dayOfWeekMatches;
+
+    // Skip to the next day or hour when the current one cannot match
+    if (!schedule.months.has(zoned.month) || !dayMatches) {
+      time += ((24 - zoned.hour) * 60 - zoned.minute) * MINUTE_MS;
+    } else if (!schedule.hours.has(zoned.hour)) {
+      time += (60 - zoned.minute) * MINUTE_MS;
+    } else if (!schedule.minutes.has(zoned.minute)) {
+      time += MINUTE_MS;
+    } else {
+      return new Date(time);
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
+
+/**
+ * Length of a schedule's interval in milliseconds
+ */
+export function getIntervalMs(settings: ScheduleSettings): number {
+  const unitMs = INTERVAL_UNIT_MS[settings.intervalUnit || 'minutes'];
+  if (!unitMs) {
+    throw new Error(`Invalid interval unit "${settings.intervalUnit}"`);
+  }
+  if (settings.interval === undefined || !Number.isFinite(settings.interval) || settings.interval <= 0) {
+    throw new Error('Interval must be a positive number');
+  }
+  const intervalMs = settings.interval * unitMs;
+  if (intervalMs < 1000) {
+    throw new Error('Interval must be at least 1 second');
+  }
+  return intervalMs;
+}
+
+/**
+ * When a schedule fires next after `after`
+ * Throws when the schedule settings are invalid.
+ */
+export function getNextScheduleTime(settings: ScheduleSettings, after: Date): Date {
+  if (settings.mode === 'interval') {
+    return new Date(after.getTime() + getIntervalMs(settings));
+  }
+  if (!settings.cron) {
+    throw new Error('Cron expression is required');
+  }
+  return getNextCronTime(settings.cron, after, settings.timezone || 'UTC');
+}
+
+/**
+ * Short human-readable description of a schedule
+ */
+export function describeSchedule(settings: ScheduleSettings): string {
+  if (settings.mode === 'interval') {
+    return `Every ${settings.interval ?? '?'} ${settings.intervalUnit || 'minutes'}`;
+  }
+  return `${settings.cron || '(no cron expression)'} (${settings.timezone || 'UTC'})`;
+}
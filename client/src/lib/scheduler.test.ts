@@ -0,0 +1,209 @@
+/**
+ * Scheduler tests
+ *
+ * The scheduler runs on a mock clock: time only moves when a test advances it.
+ * The run queue is not started, so queued runs stay unfinished until a test
+ * cancels them.
+ *
+ * Run with `npm test` (Node's test runner through tsx).
+ */
+import { after, afterEach, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import express from 'express';
+
+// Without a reachable Replit database, storage keeps its data in memory
+process.env.REPLIT_DB_URL = 'http://127.0.0.1:9/db';
+const { storage } = await import('../../../server/storage');
+const { registerRoutes } = await import('../../../server/routes');
+const { cancelQueuedRun } = await import('../../../server/services/runQueue');
+const {
+  getScheduledJobs,
+  setSchedulerClock,
+  stopScheduler,
+  syncWorkflowSchedules
+} = await import('../../../server/services/scheduler');
+type SchedulerClock = import('../../../server/services/scheduler').SchedulerClock;
+
+await storage.ready;
+
+const app = express();
+app.use(express.json());
+const server = await registerRoutes(app);
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+after(() => server.close());
+
+/**
+ * A clock whose timers fire only when the test advances it
+ */
+class MockClock implements SchedulerClock {
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextTimerId = 1;
+
+  constructor(private time: number) {}
+
+  now = () => new Date(this.time);
+
+  setTimeout = (callback: () => void, delayMs: number) => {
+    const id = this.nextTimerId++;
+    this.timers.set(id, { at: this.time + delayMs, callback });
+    return id;
+  };
+
+  clearTimeout = (handle: unknown) => {
+    this.timers.delete(handle as number);
+  };
+
+  /**
+   * Move time forward, firing the timers that fall due on the way
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+    for (;;) {
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+      this.timers.delete(due[0]);
+      this.time = Math.max(this.time, due[1].at);
+      due[1].callback();
+      await settle();
+    }
+    this.time = target;
+  }
+}
+
+// Let the scheduler's storage and queue calls finish
+const settle = async () => {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+let clock: MockClock;
+
+beforeEach(() => {
+  clock = new MockClock(Date.parse('2024-01-01T00:00:00Z'));
+  setSchedulerClock(clock);
+});
+
+afterEach(() => {
+  stopScheduler();
+  setSchedulerClock(null);
+});
+
+const scheduleTrigger = (settings: Record<string, any>) =>
+  ({ id: 'schedule', type: 'schedule_trigger', data: { settings } });
+
+const createScheduledWorkflow = async (settings: Record<string, any>, status = 'active') => {
+  const workflow = await storage.createWorkflow({
+    name: 'Scheduled workflow',
+    type: 'custom',
+    status,
+    flowData: { nodes: [scheduleTrigger(settings)], edges: [] }
+  } as any);
+  syncWorkflowSchedules(workflow);
+  return workflow;
+};
+
+const getScheduledRuns = async (workflowId: number) =>
+  (await storage.getQueuedRuns({ workflowId })).filter(run => run.source === 'schedule');
+
+test('a job plans its next run with the scheduler clock', async () => {
+  const workflow = await createScheduledWorkflow({ mode: 'cron', cron: '30 9 * * *', timezone: 'UTC' });
+
+  const [job] = await getScheduledJobs(workflow.id);
+
+  assert.equal(job.nodeId, 'schedule');
+  assert.equal(job.nextRunAt?.toISOString(), '2024-01-01T09:30:00.000Z');
+  assert.equal(job.running, false);
+});
+
+test('a due job queues a run with the schedule time as the trigger input', async () => {
+  const workflow = await createScheduledWorkflow({ mode: 'cron', cron: '30 9 * * *', timezone: 'UTC' });
+
+  await clock.advance(9.5 * 60 * 60 * 1000);
+
+  const [run] = await getScheduledRuns(workflow.id);
+  assert.equal(run.sourceNodeId, 'schedule');
+  assert.equal(run.options.executionMode, 'schedule');
+  assert.deepEqual(run.options.nodeInputs, {
+    schedule: {
+      scheduledAt: '2024-01-01T09:30:00.000Z',
+      firedAt: '2024-01-01T09:30:00.000Z',
+      timezone: 'UTC'
+    }
+  });
+  const [job] = await getScheduledJobs(workflow.id);
+  assert.equal(job.nextRunAt?.toISOString(), '2024-01-02T09:30:00.000Z');
+  assert.equal(job.running, true);
+});
+
+test('a job skips an occurrence while its previous run has not finished', async () => {
+  const workflow = await createScheduledWorkflow({ mode: 'interval', interval: 1, intervalUnit: 'minutes' });
+
+  await clock.advance(60 * 1000);
+  await clock.advance(60 * 1000);
+
+  const runs = await getScheduledRuns(workflow.id);
+  assert.equal(runs.length, 1);
+  assert.equal((await getScheduledJobs(workflow.id))[0].skippedRuns, 1);
+
+  // Once the previous run has ended, the next occurrence runs again
+  await cancelQueuedRun(runs[0].id);
+  await settle();
+  await clock.advance(60 * 1000);
+
+  assert.equal((await getScheduledRuns(workflow.id)).length, 2);
+  const [job] = await getScheduledJobs(workflow.id);
+  assert.equal(job.skippedRuns, 1);
+  assert.equal(job.nextRunAt?.toISOString(), '2024-01-01T00:04:00.000Z');
+});
+
+test('an invalid schedule is registered with its error and never fires', async () => {
+  const workflow = await createScheduledWorkflow({ mode: 'cron', cron: '61 * * * *' });
+
+  await clock.advance(24 * 60 * 60 * 1000);
+
+  const [job] = await getScheduledJobs(workflow.id);
+  assert.equal(job.nextRunAt, null);
+  assert.match(job.error || '', /"61" is not a value between 0 and 59/);
+  assert.equal((await getScheduledRuns(workflow.id)).length, 0);
+});
+
+test('saving, deactivating and deleting a workflow registers and removes its jobs', async () => {
+  const request = (method: string, path: string, body?: any) => fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const getJobs = async (workflowId: number) =>
+    (await (await request('GET', `/api/schedules?workflowId=${workflowId}`)).json()) as any[];
+
+  const created = await (await request('POST', '/api/workflows', {
+    name: 'Scheduled workflow',
+    type: 'custom',
+    flowData: { nodes: [scheduleTrigger({ mode: 'cron', cron: '0 * * * *' })], edges: [] }
+  })).json();
+  assert.equal((await getJobs(created.id))[0].nextRunAt, '2024-01-01T01:00:00.000Z');
+
+  // Saving new settings replaces the job
+  await request('PATCH', `/api/workflows/${created.id}`, {
+    flowData: { nodes: [scheduleTrigger({ mode: 'cron', cron: '15 * * * *' })], edges: [] }
+  });
+  assert.equal((await getJobs(created.id))[0].nextRunAt, '2024-01-01T00:15:00.000Z');
+
+  await request('PATCH', `/api/workflows/${created.id}`, { status: 'inactive' });
+  assert.deepEqual(await getJobs(created.id), []);
+
+  await request('PATCH', `/api/workflows/${created.id}`, { status: 'active' });
+  assert.equal((await getJobs(created.id)).length, 1);
+
+  await request('DELETE', `/api/workflows/${created.id}`);
+  assert.deepEqual(await getJobs(created.id), []);
+
+  // A removed job does not fire
+  await clock.advance(2 * 60 * 60 * 1000);
+  assert.equal((await getScheduledRuns(created.id)).length, 0);
+});
@@ -12,6 +12,9 @@ export interface WorkflowItem {
   // The actual data
   json: any;
   
+  // Text representation of the data
+  text?: string;
+  
   // Metadata about this data item
   meta?: {
     // The source of this data
@@ -23,6 +26,10 @@ export interface WorkflowItem {
     // The output type, for nodes with multiple output types
     outputType?: string;
     
+    // Lineage: the input items this item was produced from, oldest first
+    // (one entry per node that ran on the item's ancestors)
+    lineage?: Array<{ nodeId: string; itemIndex: number }>;
+    
     // Additional context about this data
     context?: Record<string, any>;
   };
@@ -33,6 +40,9 @@ export interface WorkflowItem {
     data: string;
     filename?: string;
   };
+  
+  // Output key, for items created by createNodeOutput
+  _key?: string;
 }
 
 /**
@@ -94,6 +104,25 @@ export function createExecutionDataFromValue(value: any, source: string = 'unkno
   };
 }
 
+/**
+ * Helper function to create a node's pinned output from item values, one item per value
+ * Pinned outputs are stored in node data as `pinnedOutput`; the engine emits them
+ * instead of executing the node.
+ */
+export function createPinnedOutput(values: any[]): NodeExecutionData {
+  const now = new Date();
+  return {
+    items: values.map(value => createWorkflowItem(value, 'pinned')),
+    meta: {
+      startTime: now,
+      endTime: now,
+      itemsProcessed: values.length,
+      sourceOperation: 'pinned',
+      pinnedAt: now.toISOString()
+    }
+  };
+}
+
 /**
  * Node Definition
  */
@@ -138,7 +167,9 @@ export interface NodeDefinition {
  */
 export interface NodeState {
   // Current execution status
-  status: 'pending' | 'running' | 'completed' | 'error' | 'success' | 'waiting';
+  // 'skipped' nodes only hang off inactive outputs (e.g. the untaken branch of a decision);
+  // a 'waiting' node suspended the run (see WorkflowExecutionState.suspendedNodeId)
+  status: 'pending' | 'running' | 'completed' | 'error' | 'success' | 'waiting' | 'skipped';
   
   // When execution started
   startTime: Date;
@@ -152,7 +183,7 @@ export interface NodeState {
   // Output data (if status is completed)
   output?: any;
   
-  // Input data that was provided to the node
+  // Input data that was provided to the node, keyed by input port (set once the node has run)
   input?: any;
   
   // Name of the node for display
@@ -160,6 +191,57 @@ export interface NodeState {
   
   // Status or progress message
   message?: string;
+  
+  // Every attempt at running the node, including retries (see NodeExecutionPolicy)
+  attempts?: NodeAttempt[];
+}
+
+/**
+ * Node Attempt - One try at running a node (or one of its items)
+ */
+export interface NodeAttempt {
+  // 1 for the first try, 2 for the first retry, ...
+  attempt: number;
+  
+  // Index of the first input item of the run, when the node runs per item or per batch
+  itemIndex?: number;
+  
+  status: 'completed' | 'error';
+  startTime: Date;
+  endTime: Date;
+  
+  // Error message and its kind (if status is error)
+  error?: string;
+  errorKind?: NodeErrorKind;
+}
+
+/**
+ * Node Error Kind - Classification of node errors used to decide on retries
+ */
+export type NodeErrorKind = 'timeout' | 'network' | 'rate_limit' | 'server_error' | 'other';
+
+/**
+ * Node Execution Policy - How the engine retries, times out and handles failures of a node
+ * Stored in node data as `executionPolicy`
+ */
+export interface NodeExecutionPolicy {
+  // Extra attempts after a failed one (0 or unset: no retries)
+  retries?: number;
+  
+  // 'fixed' waits retryDelay before every retry, 'exponential' doubles the wait each time
+  backoff?: 'fixed' | 'exponential';
+  
+  // Wait before the first retry, in milliseconds
+  retryDelay?: number;
+  
+  // Time limit for each attempt, in milliseconds (0 or unset: no limit)
+  timeout?: number;
+  
+  // Kinds of errors to retry (unset or empty: every error)
+  retryOn?: NodeErrorKind[];
+  
+  // Send failures (after retries) to the node's "error" output port instead of failing the node
+  errorOutput?: boolean;
 }
 
 /**
@@ -182,14 +264,42 @@ export interface WorkflowData {
     sourceHandle?: string;
     targetHandle?: string;
   }>;
+  
+  // Workflow-wide execution settings
+  settings?: WorkflowSettings;
+}
+
+/**
+ * Workflow Settings - Execution settings saved with a workflow's flow data
+ */
+export interface WorkflowSettings {
+  // How many independent nodes may run at the same time (1 runs nodes one by one)
+  maxConcurrency?: number;
+}
+
+/**
+ * Whether a node receives the run input of a workflow (input nodes and trigger nodes)
+ */
+export function isWorkflowEntryNode(node: WorkflowData['nodes'][0]): boolean {
+  return node.type?.includes('input') ||
+    node.type?.endsWith('_trigger') ||
+    node.data?.category === 'input';
+}
+
+/**
+ * Whether a node's output is part of the result of a workflow run
+ */
+export function isWorkflowOutputNode(node: WorkflowData['nodes'][0]): boolean {
+  return node.type?.includes('output') || node.data?.category === 'output';
 }
 
 /**
  * Workflow Execution State - Tracks the execution of a workflow
  */
 export interface WorkflowExecutionState {
-  // Overall workflow status
-  status: 'pending' | 'running' | 'completed' | 'error';
+  // Overall workflow status ('cancelled' when the run's abort signal stopped it,
+  // 'suspended' when a node asked to wait, e.g. an approval node)
+  status: 'pending' | 'running' | 'completed' | 'error' | 'cancelled' | 'suspended';
   
   // Start time of workflow execution
   startTime: Date;
@@ -206,10 +316,90 @@ export interface WorkflowExecutionState {
   // Outputs from each node
   nodeOutputs: Record<string, NodeExecutionData>;
   
+  // Resolved (topological) order of the nodes; independent nodes may run at the
+  // same time, but results are reported in this order
+  executionOrder?: string[];
+  
   // Final output of the workflow (if completed)
   output?: NodeExecutionData;
+  
+  // Node that suspended the run (if suspended); its state holds the output it waits with
+  suspendedNodeId?: string;
 }
 
+/**
+ * Workflow Run Event - Progress of a server-side run, streamed over the /ws/runs WebSocket
+ */
+export type WorkflowRunEvent =
+  | (WorkflowRunEventBase & { type: 'run_started' })
+  | (WorkflowRunEventBase & { type: 'node_started'; nodeId: string; message?: string })
+  | (WorkflowRunEventBase & {
+      type: 'node_completed';
+      nodeId: string;
+      // The node's output value, shortened to a string when it is large
+      outputPreview?: any;
+      itemCount: number;
+      durationMs: number;
+      message?: string;
+    })
+  | (WorkflowRunEventBase & { type: 'node_errored'; nodeId: string; error: string; durationMs: number })
+  | (WorkflowRunEventBase & { type: 'node_skipped'; nodeId: string })
+  | (WorkflowRunEventBase & { type: 'node_waiting'; nodeId: string; message?: string; outputPreview?: any })
+  | (WorkflowRunEventBase & {
+      type: 'run_paused';
+      reason: WorkflowDebugPause['reason'];
+      nodeId: string;
+      nodeType: string;
+      // Previews of the node's inputs (by port) and of the outputs produced so far (by node)
+      inputsPreview: Record<string, any>;
+      outputsPreview: Record<string, any>;
+    })
+  | (WorkflowRunEventBase & { type: 'run_resumed'; command: WorkflowDebugCommand })
+  | (WorkflowRunEventBase & {
+      type: 'run_finished';
+      status: 'completed' | 'error' | 'cancelled' | 'suspended';
+      error?: string;
+      outputPreview?: any;
+      // The pending approval a suspended run waits for
+      approvalId?: number;
+      durationMs: number;
+    });
+
+/**
+ * Fields shared by every workflow run event
+ */
+export interface WorkflowRunEventBase {
+  runId: string;
+  workflowId: number;
+  // Execution log of the run
+  logId?: number;
+  timestamp: string;
+}
+
+/**
+ * Workflow Debug Pause - A run stopped before a node, at a breakpoint or while stepping
+ */
+export interface WorkflowDebugPause {
+  reason: 'breakpoint' | 'step';
+  
+  // The node that runs next, once the run is resumed
+  nodeId: string;
+  nodeType: string;
+  
+  // Inputs the node will receive, keyed by input port
+  inputs: Record<string, NodeExecutionData>;
+  
+  // Outputs of the nodes that have run so far, keyed by node ID
+  outputs: Record<string, NodeExecutionData>;
+}
+
+/**
+ * Workflow Debug Command - Resumes a paused run:
+ * 'step' pauses again before the next node, 'continue' runs to the next breakpoint,
+ * 'abort' cancels the run
+ */
+export type WorkflowDebugCommand = 'step' | 'continue' | 'abort';
+
 /**
  * Enhanced Node Executor - Interface for node executor implementations
  */
@@ -218,9 +408,38 @@ export interface EnhancedNodeExecutor {
   definition?: NodeDefinition;
   
   // Execute function
-  execute: (nodeData: Record<string, any>, inputs: Record<string, NodeExecutionData>) => Promise<NodeExecutionData>;
+  execute: (
+    nodeData: Record<string, any>,
+    inputs: Record<string, NodeExecutionData>,
+    context?: NodeExecutionContext
+  ) => Promise<NodeExecutionData>;
+  
+  // How the node handles several incoming items:
+  // 'each' (default) runs the node once per item, 'batch' once per batch of items
+  itemMode?: NodeItemMode;
 }
 
+/**
+ * Node Execution Context - Information about the run a node executes in
+ */
+export interface NodeExecutionContext {
+  // ID of the node being executed
+  nodeId: string;
+  
+  // Run metadata passed to executeEnhancedWorkflow (e.g. workflowId, logId, callStack,
+  // apiKeys on server runs)
+  metadata: Record<string, any>;
+  
+  // Aborted when the run is cancelled or the attempt times out; executors pass it on
+  // to their network calls
+  signal?: AbortSignal;
+}
+
+/**
+ * Node Item Mode - How a node handles several incoming items
+ */
+export type NodeItemMode = 'each' | 'batch';
+
 /**
  * Internal Node Executor - Specialized executor for internal system nodes
  */
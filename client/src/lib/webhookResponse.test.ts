@@ -0,0 +1,53 @@
+/**
+ * Webhook response (respond mode) tests
+ *
+ * Run with `npm test` (Node's test runner through tsx).
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createWebhookHttpResponse,
+  getWebhookResponseSettings
+} from '../nodes/System/webhook_response/executor';
+
+const respond = (settings: Record<string, any>, inputData?: any) =>
+  createWebhookHttpResponse(getWebhookResponseSettings({ settings: { mode: 'respond', ...settings } }), inputData);
+
+test('a JSON body given as JSON text is sent unchanged', () => {
+  const response = respond({ responseBody: '{"text": "Hi"}' });
+
+  assert.equal(response.statusCode, 200);
+  assert.equal(response.body, '{"text": "Hi"}');
+  assert.equal(response.headers['Content-Type'], 'application/json; charset=utf-8');
+});
+
+test('a JSON body that is not JSON text is serialized, and an empty body sends the input', () => {
+  assert.equal(respond({ responseBody: 'plain words' }).body, '"plain words"');
+  assert.equal(respond({ responseBody: '' }, { user: 'ann' }).body, '{"user":"ann"}');
+});
+
+test('text and html bodies are sent as text with their content type', () => {
+  const text = respond({ responseType: 'text', responseBody: 'Done' });
+  const html = respond({ responseType: 'html' }, '<p>Done</p>');
+
+  assert.deepEqual([text.body, text.headers['Content-Type']], ['Done', 'text/plain; charset=utf-8']);
+  assert.deepEqual([html.body, html.headers['Content-Type']], ['<p>Done</p>', 'text/html; charset=utf-8']);
+});
+
+test('a content type in the custom headers replaces the one of the response type', () => {
+  const response = respond({
+    responseType: 'text',
+    responseBody: 'a,b',
+    headers: '{"content-type": "text/csv", "X-Request-Id": 7}'
+  });
+
+  assert.deepEqual(response.headers, { 'content-type': 'text/csv', 'X-Request-Id': '7' });
+});
+
+test('status codes are rounded, default to 200 and must be valid', () => {
+  assert.equal(respond({ statusCode: '201' }).statusCode, 201);
+  assert.equal(respond({ statusCode: 202.4 }).statusCode, 202);
+  assert.equal(respond({}).statusCode, 200);
+  assert.throws(() => respond({ statusCode: 999 }), /Invalid response status code: 999/);
+  assert.throws(() => respond({ statusCode: 42 }), /Invalid response status code: 42/);
+});
@@ -0,0 +1,171 @@
+/**
+ * Webhook authentication tests
+ *
+ * Run with `npm test` (Node's test runner through tsx).
+ */
+import { after, test } from 'node:test';
+import { createHmac } from 'crypto';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import express from 'express';
+
+// Without a reachable Replit database, storage keeps its data in memory
+process.env.REPLIT_DB_URL = 'http://127.0.0.1:9/db';
+const { storage } = await import('../../../server/storage');
+const { registerRoutes } = await import('../../../server/routes');
+const { startRunQueue } = await import('../../../server/services/runQueue');
+const { keepWebhookRawBody, WEBHOOK_PATH_PREFIX } = await import('../../../server/services/webhooks');
+
+await storage.ready;
+await startRunQueue();
+
+// The same body parsers as the server, so that webhook calls keep their raw body
+const app = express();
+app.use(express.json({ verify: keepWebhookRawBody }));
+app.use(WEBHOOK_PATH_PREFIX, express.text({ type: () => true, verify: keepWebhookRawBody }));
+const server = await registerRoutes(app);
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+after(() => server.close());
+
+const createWebhookWorkflow = (settings: Record<string, any>) =>
+  storage.createWorkflow({
+    name: 'Webhook workflow',
+    type: 'custom',
+    status: 'active',
+    flowData: { nodes: [{ id: 'webhook', type: 'webhook_trigger', data: { settings } }], edges: [] }
+  } as any);
+
+const call = (path: string, headers: Record<string, string> = {}, method = 'POST', body = '{"event":"ping"}') =>
+  fetch(`${baseUrl}/api/webhooks/${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: method === 'GET' ? undefined : body
+  });
+
+const getMetrics = async (workflowId: number) =>
+  (await (await fetch(`${baseUrl}/api/webhook-metrics?workflowId=${workflowId}`)).json())[0];
+
+test('an apiKey webhook accepts only calls with its key', async () => {
+  const workflow = await createWebhookWorkflow({ path: 'api-key', authType: 'apiKey', secret: 'key-1' });
+
+  const missing = await call('api-key');
+  const invalid = await call('api-key', { 'X-API-Key': 'key-2' });
+  const valid = await call('api-key', { 'X-API-Key': 'key-1' });
+
+  assert.equal(missing.status, 401);
+  assert.equal((await missing.json()).message, 'Missing or invalid X-API-Key header');
+  assert.equal(invalid.status, 401);
+  assert.equal(valid.status, 200);
+
+  // Rejected calls are counted but never run the workflow
+  const metrics = await getMetrics(workflow.id);
+  assert.equal(metrics.received, 3);
+  assert.equal(metrics.accepted, 1);
+  assert.equal(metrics.rejected.unauthorized, 2);
+  assert.equal((await storage.getQueuedRuns({ workflowId: workflow.id })).length, 1);
+});
+
+test('a bearer webhook checks the token and keeps it from the workflow', async () => {
+  const workflow = await createWebhookWorkflow({ path: 'bearer', authType: 'bearer', secret: 'token-1' });
+
+  const invalid = await call('bearer', { Authorization: 'Bearer token-2' });
+  const valid = await call('bearer', { Authorization: 'Bearer token-1' });
+
+  assert.equal(invalid.status, 401);
+  assert.equal(invalid.headers.get('www-authenticate'), 'Bearer');
+  assert.equal(valid.status, 200);
+  const [run] = await storage.getQueuedRuns({ workflowId: workflow.id });
+  assert.equal(run.input.headers.authorization, undefined);
+});
+
+test('a webhook with an auth type but no secret rejects every call', async () => {
+  await createWebhookWorkflow({ path: 'no-secret', authType: 'apiKey' });
+
+  const response = await call('no-secret', { 'X-API-Key': '' });
+
+  assert.equal(response.status, 401);
+  assert.match((await response.json()).message, /no secret is configured/);
+});
+
+test('a method the webhook does not allow is answered with 405 and the allowed methods', async () => {
+  const workflow = await createWebhookWorkflow({ path: 'methods', methods: ['post', 'put'] });
+
+  const response = await call('methods', {}, 'GET');
+
+  assert.equal(response.status, 405);
+  assert.equal(response.headers.get('allow'), 'POST, PUT');
+  assert.equal((await call('methods', {}, 'PUT')).status, 200);
+  assert.equal((await getMetrics(workflow.id)).rejected.method_not_allowed, 1);
+});
+
+const sign = (content: string, secret = 'signing-secret', algorithm = 'sha256', encoding: 'hex' | 'base64' = 'hex') =>
+  createHmac(algorithm, secret).update(content).digest(encoding);
+
+test('an hmac webhook verifies the signature over the raw body', async () => {
+  const workflow = await createWebhookWorkflow({
+    path: 'hmac',
+    authType: 'hmac',
+    secret: 'signing-secret',
+    signatureHeader: 'X-Hub-Signature-256'
+  });
+  // Spacing that parsing and serializing the body again would lose
+  const body = '{ "event":  "push" }';
+
+  const valid = await call('hmac', { 'X-Hub-Signature-256': `sha256=${sign(body)}` }, 'POST', body);
+  const invalid = await call('hmac', { 'X-Hub-Signature-256': `sha256=${sign(body, 'other-secret')}` }, 'POST', body);
+  const missing = await call('hmac', {}, 'POST', body);
+
+  assert.equal(valid.status, 200);
+  assert.equal(invalid.status, 401);
+  assert.equal((await invalid.json()).message, 'Invalid webhook signature');
+  assert.equal(missing.status, 401);
+  assert.equal((await missing.json()).message, 'Missing X-Hub-Signature-256 header');
+  assert.equal((await getMetrics(workflow.id)).rejected.unauthorized, 2);
+});
+
+test('an hmac webhook supports sha1 and base64 signatures', async () => {
+  await createWebhookWorkflow({
+    path: 'hmac-base64',
+    authType: 'hmac',
+    secret: 'signing-secret',
+    signatureAlgorithm: 'sha1',
+    signatureEncoding: 'base64'
+  });
+  const body = '{"event":"order"}';
+
+  const valid = await call('hmac-base64', { 'X-Signature': sign(body, 'signing-secret', 'sha1', 'base64') }, 'POST', body);
+  const hex = await call('hmac-base64', { 'X-Signature': sign(body, 'signing-secret', 'sha1') }, 'POST', body);
+
+  assert.equal(valid.status, 200);
+  assert.equal(hex.status, 401);
+});
+
+test('an hmac webhook with a tolerance rejects calls signed too long ago', async () => {
+  await createWebhookWorkflow({
+    path: 'hmac-timestamp',
+    authType: 'hmac',
+    secret: 'signing-secret',
+    signatureHeader: 'Stripe-Signature',
+    timestampTolerance: 300
+  });
+  const body = '{"event":"charge"}';
+  const stripeSignature = (timestamp: number) => `t=${timestamp},v1=${sign(`${timestamp}.${body}`)}`;
+  const now = Math.floor(Date.now() / 1000);
+
+  const fresh = await call('hmac-timestamp', { 'Stripe-Signature': stripeSignature(now) }, 'POST', body);
+  const replayed = await call('hmac-timestamp', { 'Stripe-Signature': stripeSignature(now - 600) }, 'POST', body);
+  // The timestamp is part of the signed content, so it cannot be swapped for a fresh one
+  const tampered = await call('hmac-timestamp', {
+    'Stripe-Signature': stripeSignature(now - 600).replace(`t=${now - 600}`, `t=${now}`)
+  }, 'POST', body);
+  const unsigned = await call('hmac-timestamp', { 'Stripe-Signature': sign(body) }, 'POST', body);
+
+  assert.equal(fresh.status, 200);
+  assert.equal(replayed.status, 401);
+  assert.equal((await replayed.json()).message, 'Webhook timestamp is more than 300s off');
+  assert.equal(tampered.status, 401);
+  assert.equal((await tampered.json()).message, 'Invalid webhook signature');
+  assert.equal(unsigned.status, 401);
+  assert.equal((await unsigned.json()).message, 'Missing webhook timestamp');
+});
@@ -7,7 +7,17 @@
 
 import { apiClient } from './apiClient';
 import { executeEnhancedWorkflow } from './enhancedWorkflowEngine';
-import { WorkflowExecutionState, NodeState } from './types/workflow';
+import { WorkflowDebugger } from './workflowDebugger';
+import { WorkflowEnvironment, WorkflowVariables } from '@shared/schema';
+import {
+  WorkflowExecutionState,
+  NodeExecutionData,
+  NodeState,
+  WorkflowDebugCommand,
+  WorkflowDebugPause,
+  WorkflowRunEvent,
+  createExecutionDataFromValue
+} from './types/workflow';
 
 // Extended WorkflowData interface to include additional properties from the API
 interface WorkflowData {
@@ -17,6 +27,7 @@ interface WorkflowData {
   type: string;
   agentId?: number;
   flowData: any;
+  variables?: WorkflowVariables | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -56,6 +67,10 @@ export async function executeWorkflow(
     onWorkflowComplete?: (state: WorkflowExecutionState) => void;
     logToServer?: boolean;
     metadata?: Record<string, any>;
+    // Pauses the run at breakpoints (see workflowDebugger.ts)
+    debugger?: WorkflowDebugger;
+    // Environment whose workflow variables the run uses (default "dev")
+    environment?: WorkflowEnvironment;
   } = {}
 ): Promise<WorkflowExecutionState> {
   try {
@@ -64,7 +79,9 @@ export async function executeWorkflow(
       onNodeStateChange, 
       onWorkflowComplete, 
       logToServer = true,
-      metadata = {}
+      metadata = {},
+      debugger: workflowDebugger,
+      environment = 'dev'
     } = options;
     
     // Load workflow if ID is provided
@@ -212,7 +229,10 @@ export async function executeWorkflow(
       },
       {
         debugMode: metadata?.debug_mode || false,
-        metadata
+        metadata: { ...metadata, environment },
+        beforeNode: workflowDebugger?.beforeNode,
+        signal: workflowDebugger?.signal,
+        variables: workflowData.variables?.[environment] || {}
       }
     );
     
@@ -223,6 +243,234 @@ export async function executeWorkflow(
   }
 }
 
+/**
+ * Opens the run events WebSocket (see server/services/runEvents.ts)
+ * Resolves once the socket is connected, so no event of a run started afterwards is missed.
+ * 
+ * @param filter Only receive events of this run or workflow
+ * @param onEvent Called for every run event
+ * @returns The open socket; close it to stop receiving events
+ */
+export function subscribeToRunEvents(
+  filter: { runId?: string; workflowId?: number },
+  onEvent: (event: WorkflowRunEvent) => void
+): Promise<WebSocket> {
+  const params = new URLSearchParams();
+  if (filter.runId) params.set('runId', filter.runId);
+  if (filter.workflowId !== undefined) params.set('workflowId', String(filter.workflowId));
+  
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const socket = new WebSocket(`${protocol}//${window.location.host}/ws/runs?${params}`);
+  
+  socket.onmessage = (message) => {
+    try {
+      onEvent(JSON.parse(message.data));
+    } catch (error) {
+      console.warn('Ignoring malformed run event:', error);
+    }
+  };
+  
+  return new Promise((resolve, reject) => {
+    socket.onopen = () => resolve(socket);
+    socket.onerror = () => reject(new Error('Could not connect to the run events stream'));
+  });
+}
+
+/**
+ * Resumes a paused server run (see executeWorkflowOnServer's debug option)
+ */
+export async function sendRunDebugCommand(runId: string, command: WorkflowDebugCommand): Promise<void> {
+  await apiClient.post(`/api/runs/${runId}/debug`, { command });
+}
+
+/**
+ * Executes a saved workflow on the server and follows it live
+ * 
+ * The run is started in async mode, and node states are reported from the
+ * run events streamed over WebSocket. Node outputs are previews, shortened
+ * by the server when they are large.
+ * 
+ * @param workflowId ID of the saved workflow
+ * @param input Input data for the workflow
+ * @param options Execution options; aborting `signal` cancels the run, and with
+ *   `debug` the run pauses at breakpoints until `onPause`'s resume is called.
+ *   Without `environment`, the server's default environment is used.
+ * @returns Promise resolving to the execution state once the run has finished
+ */
+export async function executeWorkflowOnServer(
+  workflowId: number,
+  input: any = {},
+  options: {
+    onNodeStateChange?: (nodeId: string, state: NodeState) => void;
+    onWorkflowComplete?: (state: WorkflowExecutionState) => void;
+    onRunEvent?: (event: WorkflowRunEvent) => void;
+    signal?: AbortSignal;
+    environment?: WorkflowEnvironment;
+    debug?: {
+      breakpoints?: string[];
+      // Pause before the first node
+      stepMode?: boolean;
+      onPause?: (pause: WorkflowDebugPause, resume: (command: WorkflowDebugCommand) => Promise<void>) => void;
+    };
+  } = {}
+): Promise<WorkflowExecutionState> {
+  const { onNodeStateChange, onWorkflowComplete, onRunEvent, signal, environment, debug } = options;
+  
+  const executionState: WorkflowExecutionState = {
+    status: 'running',
+    nodeStates: {},
+    startTime: new Date(),
+    endTime: null,
+    nodeOutputs: {}
+  };
+  
+  let runId: string | undefined;
+  let pendingEvents: WorkflowRunEvent[] = [];
+  let finish: () => void = () => {};
+  let fail: (error: Error) => void = () => {};
+  const finished = new Promise<void>((resolve, reject) => {
+    finish = resolve;
+    fail = reject;
+  });
+  
+  const setNodeState = (nodeId: string, state: NodeState) => {
+    executionState.nodeStates[nodeId] = state;
+    if (onNodeStateChange) {
+      onNodeStateChange(nodeId, state);
+    }
+  };
+  
+  const handleEvent = (event: WorkflowRunEvent) => {
+    if (onRunEvent) {
+      onRunEvent(event);
+    }
+    
+    const time = new Date(event.timestamp);
+    switch (event.type) {
+      case 'node_started':
+        setNodeState(event.nodeId, { status: 'running', startTime: time, endTime: null, message: event.message });
+        break;
+      case 'node_completed': {
+        const output = createExecutionDataFromValue(event.outputPreview, 'server_run');
+        executionState.nodeOutputs[event.nodeId] = output;
+        setNodeState(event.nodeId, {
+          status: 'completed',
+          startTime: new Date(time.getTime() - event.durationMs),
+          endTime: time,
+          output,
+          message: event.message
+        });
+        break;
+      }
+      case 'node_errored':
+        setNodeState(event.nodeId, {
+          status: 'error',
+          startTime: new Date(time.getTime() - event.durationMs),
+          endTime: time,
+          error: event.error
+        });
+        break;
+      case 'node_skipped':
+        setNodeState(event.nodeId, { status: 'skipped', startTime: time, endTime: time });
+        break;
+      case 'node_waiting':
+        executionState.suspendedNodeId = executionState.suspendedNodeId ?? event.nodeId;
+        setNodeState(event.nodeId, {
+          status: 'waiting',
+          startTime: executionState.nodeStates[event.nodeId]?.startTime || time,
+          endTime: time,
+          output: event.outputPreview !== undefined
+            ? createExecutionDataFromValue(event.outputPreview, 'server_run')
+            : undefined,
+          message: event.message
+        });
+        break;
+      case 'run_paused': {
+        const fromPreviews = (previews: Record<string, any>) => {
+          const data: Record<string, NodeExecutionData> = {};
+          Object.entries(previews).forEach(([key, preview]) => {
+            data[key] = createExecutionDataFromValue(preview, 'server_run');
+          });
+          return data;
+        };
+        debug?.onPause?.(
+          {
+            reason: event.reason,
+            nodeId: event.nodeId,
+            nodeType: event.nodeType,
+            inputs: fromPreviews(event.inputsPreview),
+            outputs: fromPreviews(event.outputsPreview)
+          },
+          (command) => sendRunDebugCommand(event.runId, command)
+        );
+        break;
+      }
+      case 'run_finished':
+        executionState.status = event.status;
+        executionState.error = event.error;
+        executionState.endTime = time;
+        if (event.outputPreview !== undefined) {
+          executionState.output = createExecutionDataFromValue(event.outputPreview, 'server_run');
+        }
+        finish();
+        break;
+    }
+  };
+  
+  // Events can arrive before the run ID does; keep them until it is known
+  const socket = await subscribeToRunEvents({ workflowId }, (event) => {
+    if (!runId) {
+      pendingEvents.push(event);
+    } else if (event.runId === runId) {
+      handleEvent(event);
+    }
+  });
+  socket.onclose = () => fail(new Error('Lost connection to the run events stream'));
+  
+  const cancel = () => {
+    if (runId) {
+      apiClient.post(`/api/runs/${runId}/cancel`).catch(error => {
+        console.warn('Failed to cancel server run:', error);
+      });
+    }
+  };
+  
+  try {
+    const response = await apiClient.post(`/api/workflows/${workflowId}/execute`, {
+      input,
+      options: debug
+        ? {
+            async: true,
+            environment,
+            breakpoints: debug.breakpoints,
+            ...(debug.stepMode ? { executionMode: 'step' } : {})
+          }
+        : { async: true, environment }
+    });
+    runId = response.runId as string;
+    
+    pendingEvents.filter(event => event.runId === runId).forEach(handleEvent);
+    pendingEvents = [];
+    
+    if (signal?.aborted) {
+      cancel();
+    }
+    signal?.addEventListener('abort', cancel);
+    
+    await finished;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    socket.onclose = null;
+    socket.close();
+  }
+  
+  if (onWorkflowComplete) {
+    onWorkflowComplete(executionState);
+  }
+  
+  return executionState;
+}
+
 /**
  * Creates a new agent using workflow 15 (Build New Agent Structure)
  * This is a convenience method for the most common workflow operation
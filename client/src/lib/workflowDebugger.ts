@@ -0,0 +1,107 @@
+/**
+ * Workflow Debugger
+ *
+ * Step-through debugging for the enhanced workflow engine. A debugger pauses a run
+ * before nodes that have a breakpoint, or before every node while stepping, and
+ * waits for a step, continue or abort command. It is used for canvas runs in the
+ * test bench and, through the run manager, for server runs.
+ */
+
+import { NodeExecutionData, WorkflowDebugCommand, WorkflowDebugPause } from './types/workflow';
+
+/**
+ * A debugger attached to one run
+ */
+export interface WorkflowDebugger {
+  // Pass as the beforeNode option of executeEnhancedWorkflow
+  beforeNode: (
+    nodeId: string,
+    nodeType: string,
+    inputs: Record<string, NodeExecutionData>,
+    outputs: Record<string, NodeExecutionData>
+  ) => Promise<void>;
+
+  // Pass as the signal option; aborted by the 'abort' command
+  signal: AbortSignal;
+
+  // Resume the paused run; returns false when the run is not paused
+  resume: (command: WorkflowDebugCommand) => boolean;
+
+  // Breakpoints can change while the run is paused
+  setBreakpoints: (nodeIds: string[]) => void;
+
+  // The current pause, if the run is paused
+  getPause: () => WorkflowDebugPause | undefined;
+}
+
+/**
+ * Create a debugger for a run
+ *
+ * @param options.breakpoints IDs of the nodes to pause before
+ * @param options.stepMode Pause before the first node, as if stepping from the start
+ * @param options.controller Aborted by the 'abort' command (a new one is created if not given)
+ * @param options.onPause Called whenever the run pauses
+ * @param options.onResume Called when a command resumes the run
+ */
+export function createWorkflowDebugger(options: {
+  breakpoints?: string[];
+  stepMode?: boolean;
+  controller?: AbortController;
+  onPause?: (pause: WorkflowDebugPause) => void;
+  onResume?: (command: WorkflowDebugCommand) => void;
+} = {}): WorkflowDebugger {
+  const { controller = new AbortController(), onPause, onResume } = options;
+  let breakpoints = new Set(options.breakpoints || []);
+  let stepping = !!options.stepMode;
+  let pause: WorkflowDebugPause | undefined;
+  let release: (() => void) | undefined;
+
+  // Independent nodes may reach the debugger at the same time; they pause one after the other
+  let queue: Promise<void> = Promise.resolve();
+
+  // Cancelling the run (e.g. through the run manager) releases a pause
+  controller.signal.addEventListener('abort', () => {
+    pause = undefined;
+    release?.();
+  });
+
+  const beforeNode: WorkflowDebugger['beforeNode'] = (nodeId, nodeType, inputs, outputs) => {
+    const turn = queue.then(async () => {
+      if (controller.signal.aborted) return;
+
+      const reason = stepping ? 'step' : breakpoints.has(nodeId) ? 'breakpoint' : undefined;
+      if (!reason) return;
+
+      await new Promise<void>(resolve => {
+        release = resolve;
+        pause = { reason, nodeId, nodeType, inputs, outputs: { ...outputs } };
+        onPause?.(pause);
+      });
+      release = undefined;
+    });
+    queue = turn;
+    return turn;
+  };
+
+  return {
+    beforeNode,
+    signal: controller.signal,
+    resume: (command) => {
+      if (!pause || !release) return false;
+
+      stepping = command === 'step';
+      pause = undefined;
+      onResume?.(command);
+      if (command === 'abort') {
+        controller.abort();
+      } else {
+        release();
+      }
+      return true;
+    },
+    setBreakpoints: (nodeIds) => {
+      breakpoints = new Set(nodeIds);
+    },
+    getPause: () => pause
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Workflow Replay
+ *
+ * Helpers for replaying a recorded server run (an execution record) in the editor.
+ * The engine feeds each node's recorded output back through the graph: nodes that
+ * call external services return their recording, every other node executes again,
+ * so a reported bug can be reproduced without spending tokens or calling third-party APIs.
+ */
+
+import { ExecutionRecord } from '@shared/schema';
+import { apiClient } from './apiClient';
+import { NodeExecutionData, WorkflowData, WorkflowExecutionState } from './types/workflow';
+
+/**
+ * Loads an execution record by ID from the server
+ */
+export async function loadExecutionRecord(id: number): Promise<ExecutionRecord> {
+  return apiClient.get(`/api/executions/${id}`);
+}
+
+/**
+ * The workflow exactly as it was when the recorded run happened
+ */
+export function getRecordedWorkflow(record: ExecutionRecord): WorkflowData {
+  const { nodes = [], edges = [], settings } = record.workflowSnapshot;
+  return { nodes, edges, settings };
+}
+
+/**
+ * Get the recorded output of every node that completed in the recorded run
+ */
+export function getRecordedOutputs(record: ExecutionRecord): Record<string, NodeExecutionData> {
+  const outputs: Record<string, NodeExecutionData> = {};
+  Object.values(record.nodes).forEach(nodeRecord => {
+    if (nodeRecord.status === 'completed' && nodeRecord.output) {
+      outputs[nodeRecord.nodeId] = nodeRecord.output;
+    }
+  });
+  return outputs;
+}
+
+/**
+ * Get the nodes whose output in a replay differs from the recorded run
+ */
+export function getDivergedNodeIds(state: WorkflowExecutionState, record: ExecutionRecord): string[] {
+  const getValues = (output?: NodeExecutionData) =>
+    JSON.stringify((output?.items || []).map(item => item.json));
+
+  return Object.keys(state.nodeStates).filter(nodeId => {
+    const nodeRecord = record.nodes[nodeId];
+    if (!nodeRecord) return false;
+    if (state.nodeStates[nodeId].status !== nodeRecord.status) return true;
+    return getValues(state.nodeOutputs[nodeId]) !== getValues(nodeRecord.output);
+  });
+}
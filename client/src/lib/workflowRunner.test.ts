@@ -0,0 +1,116 @@
+/**
+ * Server workflow runner tests
+ *
+ * Run with `npm test` (Node's test runner through tsx).
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Without a reachable Replit database, storage keeps its data in memory
+process.env.REPLIT_DB_URL = 'http://127.0.0.1:9/db';
+const { storage } = await import('../../../server/storage');
+const { runWorkflow, redactSecrets, MAX_WORKFLOW_CALL_DEPTH } = await import('../../../server/services/workflowRunner');
+
+await storage.ready;
+
+const createWorkflow = (nodes: any[], edges: any[] = []) =>
+  storage.createWorkflow({ name: 'Test workflow', type: 'custom', status: 'active', flowData: { nodes, edges } } as any);
+
+test('a workflow that calls itself stops at the maximum call depth', async () => {
+  const workflow = await createWorkflow([]);
+  await storage.updateWorkflow(workflow.id, {
+    flowData: {
+      nodes: [{ id: 'call', type: 'execute_workflow', data: { workflowId: workflow.id } }],
+      edges: []
+    }
+  } as any);
+
+  const result = await runWorkflow(workflow.id, {});
+
+  const chain = Array(MAX_WORKFLOW_CALL_DEPTH + 1).fill(workflow.id).join(' -> ');
+  assert.equal(result.executionDetails.status, 'error');
+  assert.match(result.errors[0].error, new RegExp(`Maximum workflow call depth of ${MAX_WORKFLOW_CALL_DEPTH} exceeded: ${chain}$`));
+});
+
+test('execution records keep no credentials', async () => {
+  const workflow = await createWorkflow([
+    { id: 'input', type: 'text_input', data: { text: 'hello', apiKey: 'sk-node-key' } }
+  ]);
+
+  const result = await runWorkflow(workflow.id, {
+    payload: { message: 'hi' },
+    headers: { authorization: 'Bearer abc', 'x-hub-signature-256': 'sha256=123', 'content-type': 'application/json' }
+  });
+  const record = (await storage.getExecutionRecord(result.executionDetails.executionRecordId))!;
+
+  assert.deepEqual(record.input, {
+    payload: { message: 'hi' },
+    headers: { authorization: '[redacted]', 'x-hub-signature-256': '[redacted]', 'content-type': 'application/json' }
+  });
+  assert.equal(record.workflowSnapshot.nodes[0].data.apiKey, '[redacted]');
+  assert.equal(record.workflowSnapshot.nodes[0].data.text, 'hello');
+  assert.doesNotMatch(JSON.stringify(record.nodes), /sk-node-key/);
+});
+
+test('redacting a circular value cuts off the cycle', () => {
+  // Shaped like a raw HTTP response, which refers back to itself through its request
+  const response: any = { status: 200, config: { headers: { Authorization: 'Bearer abc' } } };
+  response.request = { res: response };
+
+  assert.deepEqual(redactSecrets(response), {
+    status: 200,
+    config: { headers: { Authorization: '[redacted]' } },
+    request: { res: '[Circular]' }
+  });
+});
+
+test('only failures that no error port handles fail the run', async () => {
+  const failingDecision = { id: 'decide', type: 'decision', data: { condition: 'value.missing.property', executionPolicy: { errorOutput: true } } };
+  const handled = await createWorkflow(
+    [{ id: 'input', type: 'text_input', data: { text: 'hello' } }, failingDecision, { id: 'fallback', type: 'text_input', data: { text: 'fallback' } }],
+    [
+      { id: 'e1', source: 'input', target: 'decide', sourceHandle: 'output', targetHandle: 'input' },
+      { id: 'e2', source: 'decide', target: 'fallback', sourceHandle: 'error', targetHandle: 'input' }
+    ]
+  );
+  const unhandled = await createWorkflow(
+    [{ id: 'input', type: 'text_input', data: { text: 'hello' } }, failingDecision],
+    [{ id: 'e1', source: 'input', target: 'decide', sourceHandle: 'output', targetHandle: 'input' }]
+  );
+
+  const handledResult = await runWorkflow(handled.id, {});
+  const unhandledResult = await runWorkflow(unhandled.id, {});
+
+  assert.equal(handledResult.executionDetails.status, 'completed');
+  assert.equal(handledResult.errors, undefined);
+  assert.equal(unhandledResult.executionDetails.status, 'error');
+  assert.equal(unhandledResult.errors[0].nodeId, 'decide');
+});
+
+test('a run uses the variables of its environment', async () => {
+  const workflow = await storage.createWorkflow({
+    name: 'Test workflow',
+    type: 'custom',
+    status: 'active',
+    flowData: { nodes: [{ id: 'input', type: 'text_input', data: { inputText: 'Calling {{ $vars.apiBase }}' } }], edges: [] },
+    variables: { dev: { apiBase: 'http://localhost' }, prod: { apiBase: 'https://api.example.com' } }
+  } as any);
+  const getText = async (result: Awaited<ReturnType<typeof runWorkflow>>) => {
+    const record = (await storage.getExecutionRecord(result.executionDetails.executionRecordId))!;
+    return { environment: record.environment, text: record.nodes.input.output.items[0].json.text };
+  };
+
+  const prod = await runWorkflow(workflow.id, {}, { environment: 'prod' });
+  const staging = await runWorkflow(workflow.id, {}, { environment: 'staging' });
+  process.env.WORKFLOW_ENVIRONMENT = 'dev';
+  try {
+    const byDefault = await runWorkflow(workflow.id, {});
+    assert.deepEqual(await getText(byDefault), { environment: 'dev', text: 'Calling http://localhost' });
+  } finally {
+    delete process.env.WORKFLOW_ENVIRONMENT;
+  }
+
+  assert.deepEqual(await getText(prod), { environment: 'prod', text: 'Calling https://api.example.com' });
+  // An environment without values leaves the variables empty
+  assert.deepEqual(await getText(staging), { environment: 'staging', text: 'Calling ' });
+});
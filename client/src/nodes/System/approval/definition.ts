@@ -0,0 +1,59 @@
+/**
+ * Approval Node Definition
+ * 
+ * This node pauses the run until a person approves or rejects the data it
+ * receives, e.g. an LLM-drafted email before it is sent. The run continues
+ * down the output that matches the decision.
+ */
+
+import { z } from 'zod';
+
+import { UserCheck } from 'lucide-react';
+
+const definition = {
+  type: 'approval',
+  name: 'Approval',
+  description: 'Waits for a person to approve or reject the incoming data before the run continues',
+  category: 'logic',
+  icon: UserCheck,
+  version: '1.0.0',
+  inputs: {
+    input: {
+      type: 'any',
+      description: 'Data to review'
+    }
+  },
+  outputs: {
+    approved: {
+      type: 'any',
+      description: 'The reviewed data, once approved'
+    },
+    rejected: {
+      type: 'any',
+      description: 'The reviewed data, once rejected'
+    }
+  },
+  settings: [
+    {
+      key: 'title',
+      type: 'string',
+      label: 'Title',
+      description: 'What the reviewer is asked to approve',
+      placeholder: 'Send this email?',
+      default: 'Approval required'
+    },
+    {
+      key: 'message',
+      type: 'string',
+      label: 'Instructions',
+      description: 'Shown to the reviewer next to the data',
+      required: false
+    }
+  ],
+  validation: z.object({
+    title: z.string().default('Approval required'),
+    message: z.string().optional()
+  })
+};
+
+export default definition;
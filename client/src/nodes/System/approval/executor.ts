@@ -0,0 +1,84 @@
+/**
+ * Approval Node Executor
+ * 
+ * The node suspends the run with the data to review. On the server, the
+ * workflow runner saves the suspended run as a pending approval; deciding it
+ * resumes the run with the node's output preset by createApprovalDecisionOutput,
+ * so this executor never sees the decision. On the canvas, the run simply stops
+ * at the node.
+ */
+
+import { NodeExecutionData } from '@/lib/types/workflow';
+
+export const APPROVED_PORT = 'approved';
+export const REJECTED_PORT = 'rejected';
+
+export interface ApprovalSettings {
+  title: string;
+  message?: string;
+}
+
+// The reviewer decides on all incoming items at once
+export const itemMode = 'batch' as const;
+
+/**
+ * Read the approval settings from an approval node's data
+ * Settings saved through the settings drawer are nested under `settings`.
+ */
+export function getApprovalSettings(nodeData: Record<string, any> = {}): ApprovalSettings {
+  const data = { ...nodeData, ...(nodeData.settings || {}) };
+  return {
+    title: data.title || 'Approval required',
+    message: data.message || undefined
+  };
+}
+
+/**
+ * Execute function for the approval node
+ */
+export const execute = async (
+  nodeData: Record<string, any>,
+  inputs: Record<string, any> = {}
+): Promise<NodeExecutionData> => {
+  const startTime = new Date();
+  const input: NodeExecutionData | undefined = inputs.input;
+  
+  return {
+    items: input?.items || [],
+    meta: {
+      startTime,
+      endTime: new Date(),
+      // Makes the engine suspend the run at this node
+      suspended: true,
+      message: 'Waiting for approval',
+      approval: getApprovalSettings(nodeData)
+    }
+  };
+};
+
+/**
+ * The output the node resumes with once its approval is decided: the reviewed
+ * items, routed to the "approved" or "rejected" port, with the decision in meta.approval
+ */
+export function createApprovalDecisionOutput(
+  waitingOutput: NodeExecutionData | undefined,
+  decision: { status: 'approved' | 'rejected'; comment?: string | null; decidedBy?: string | null; decidedAt: Date }
+): NodeExecutionData {
+  const outputType = decision.status === 'approved' ? APPROVED_PORT : REJECTED_PORT;
+  const items = waitingOutput?.items?.length ? waitingOutput.items : [{ json: null }];
+  
+  return {
+    items: items.map(item => ({ ...item, meta: { ...item.meta, outputType } })),
+    meta: {
+      startTime: waitingOutput?.meta?.startTime ?? decision.decidedAt,
+      endTime: decision.decidedAt,
+      outputType,
+      approval: {
+        status: decision.status,
+        comment: decision.comment ?? null,
+        decidedBy: decision.decidedBy ?? null,
+        decidedAt: decision.decidedAt
+      }
+    }
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Approval Node UI Component
+ *
+ * This component renders the approval node in the workflow editor, with
+ * what the reviewer is asked and an output for each decision.
+ */
+
+import React from 'react';
+import { Position } from 'reactflow';
+import DefaultNode from '../../Default/ui';
+import { HandleWithLabel } from '@/components/nodes/handles';
+import { APPROVED_PORT, getApprovalSettings, REJECTED_PORT } from './executor';
+
+export default function ApprovalNode({ id, data }: { id: string, data: any }) {
+  const settings = getApprovalSettings(data);
+
+  const nodeContent = (
+    <div className="p-4 flex flex-col gap-3">
+      <HandleWithLabel
+        type="target"
+        position={Position.Left}
+        id="input"
+        label="Review"
+      />
+      <div className="bg-muted/80 p-2 rounded-md flex flex-col gap-1">
+        <div className="text-xs font-semibold truncate">{settings.title}</div>
+        {settings.message && (
+          <div className="text-xs text-muted-foreground line-clamp-2">{settings.message}</div>
+        )}
+        <div className="text-xs text-muted-foreground mt-1">
+          Server runs wait here until the approval is decided on the agent page
+        </div>
+      </div>
+      <div className="flex flex-col items-end gap-2">
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={APPROVED_PORT}
+          label="Approved"
+          labelClassName="text-green-600"
+        />
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={REJECTED_PORT}
+          label="Rejected"
+          labelClassName="text-red-500"
+        />
+      </div>
+    </div>
+  );
+
+  // Render using the DefaultNode wrapper, with the decision outputs in place of the default output
+  return (
+    <DefaultNode
+      id={id}
+      data={{
+        ...data,
+        type: 'approval',
+        icon: 'user-check',
+        childrenContent: nodeContent,
+        hideDefaultHandles: true,
+        note: data.note,
+        showNote: data.showNote,
+        useGlobalSettingsOnly: true
+      }}
+    />
+  );
+}
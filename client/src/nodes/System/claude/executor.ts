@@ -7,6 +7,7 @@
 
 // Import node types
 import { NodeExecutionData, WorkflowItem } from '../../types';
+import { NodeExecutionContext } from '../../../lib/types/workflow';
 
 /**
  * Calls the Claude API with configured parameters
@@ -17,7 +18,8 @@ async function callClaudeAPI(
   model: string = 'claude-3-sonnet-20240229',
   systemPrompt?: string,
   temperature: number = 0.7,
-  maxTokens: number = 2000
+  maxTokens: number = 2000,
+  signal?: AbortSignal
 ): Promise<string> {
   try {
     // Prepare messages array
@@ -44,7 +46,8 @@ async function callClaudeAPI(
         messages,
         temperature,
         max_tokens: maxTokens
-      })
+      }),
+      signal
     });
 
     if (!response.ok) {
@@ -124,7 +127,8 @@ function extractInputText(inputs: Record<string, any> = {}): string {
  */
 export const execute = async (
   nodeData: any,
-  inputs: Record<string, any> = {}
+  inputs: Record<string, any> = {},
+  context?: NodeExecutionContext
 ): Promise<Record<string, NodeExecutionData>> => {
   // Record start time
   const startTime = new Date();
@@ -132,7 +136,10 @@ export const execute = async (
   try {
     // Extract input text from node data or connected nodes
     let prompt = '';
-    if (inputs && Object.keys(inputs).length > 0) {
+    if (inputs?.input) {
+      // Text connected to the node's input port
+      prompt = extractInputText({ input: inputs.input });
+    } else if (inputs && Object.keys(inputs).length > 0 && !nodeData.inputText) {
       prompt = extractInputText(inputs);
     } else if (nodeData.inputText) {
       prompt = nodeData.inputText;
@@ -160,8 +167,11 @@ export const execute = async (
       };
     }
     
-    // Get API key from node data or environment
-    const apiKey = nodeData.apiKey || process.env.CLAUDE_API_KEY || '';
+    // Get API key from node data, the keys configured for the run, or environment
+    const apiKey = nodeData.apiKey
+      || context?.metadata?.apiKeys?.claude
+      || (typeof process !== 'undefined' ? process.env.CLAUDE_API_KEY : undefined)
+      || '';
     
     // Validate API key
     if (!apiKey) {
@@ -198,7 +208,8 @@ export const execute = async (
       model,
       systemPrompt,
       temperature,
-      maxTokens
+      maxTokens,
+      context?.signal
     );
     
     // Return successful result
@@ -5,7 +5,7 @@
  * It processes CSV data, applies filters, and provides output in various formats.
  */
 
-import { createNodeOutput, createErrorOutput } from '../../../nodes/nodeOutputUtils';
+import { createNodeOutput, createErrorOutput, getInputText } from '../../../nodes/nodeOutputUtils';
 import { NodeExecutionData } from '@shared/nodeTypes';
 
 export interface CsvProcessorNodeData {
@@ -211,12 +211,11 @@ export const execute = async (
     const startTime = new Date();
     
     // Check for CSV data
-    if (!inputs || !inputs.csvData) {
+    const csvData = getInputText(inputs?.csvInput ?? inputs?.csvData);
+    if (!csvData) {
       return createErrorOutput('No CSV data provided for processing', 'csv_processor');
     }
     
-    const csvData = inputs.csvData;
-    
     // Parse configuration
     const delimiter = nodeData.delimiter || ',';
     const hasHeader = nodeData.hasHeader;
@@ -4,6 +4,8 @@
  * This executor applies JavaScript transformations to data.
  */
 
+import { getInputValue } from '../../nodeOutputUtils';
+
 // Define the shape of a transformation
 export interface Transformation {
   name: string;
@@ -21,7 +23,7 @@ export interface DataTransformNodeData {
  */
 export async function execute(nodeData: DataTransformNodeData, inputs: Record<string, any> = {}) {
   const { transformations } = nodeData;
-  let inputData = inputs.data;
+  let inputData = getInputValue(inputs.input ?? inputs.data);
   
   try {
     if (inputData === undefined) {
@@ -4,6 +4,8 @@
  * This executor evaluates conditional logic and routes data flow.
  */
 
+import { createRoutingErrorOutput, getInputValue } from '../../nodeOutputUtils';
+
 // Define the shape of the node's data
 export interface DecisionNodeData {
   condition: string;
@@ -14,40 +16,39 @@ export interface DecisionNodeData {
  */
 export async function execute(nodeData: DecisionNodeData, inputs: Record<string, any> = {}) {
   const { condition } = nodeData;
-  const value = inputs.value;
+  const value = getInputValue(inputs.input ?? inputs.value);
   
   try {
     if (value === undefined) {
-      return {
-        error: 'No input value provided'
-      };
+      return createRoutingErrorOutput('No input value provided', 'decision');
     }
     
     if (!condition || condition.trim() === '') {
-      return {
-        error: 'No condition provided'
-      };
+      return createRoutingErrorOutput('No condition provided', 'decision');
     }
     
     // Create and evaluate the condition expression
     const conditionFunction = new Function('value', `return ${condition};`);
     const result = conditionFunction(value);
     
-    // Return the appropriate output based on the condition result
-    if (result) {
-      return {
-        true: value
-      };
-    } else {
-      return {
-        false: value
-      };
-    }
-  } catch (error) {
-    console.error('Error executing decision node:', error);
+    // Return the value on the output matching the condition result.
+    // The item's output type routes it to the "true" or "false" port only.
+    const outputType = result ? 'true' : 'false';
     return {
-      error: error instanceof Error ? error.message : String(error)
+      items: [{
+        json: value,
+        text: typeof value === 'string' ? value : JSON.stringify(value),
+        meta: { outputType }
+      }],
+      meta: {
+        startTime: new Date(),
+        endTime: new Date(),
+        outputType
+      }
     };
+  } catch (error) {
+    console.error('Error executing decision node:', error);
+    return createRoutingErrorOutput(error instanceof Error ? error.message : String(error), 'decision');
   }
 }
 
@@ -0,0 +1,52 @@
+/**
+ * Execute Workflow Node Definition
+ * 
+ * This file defines the metadata and schema for the Execute Workflow node.
+ */
+
+import { NodeDefinition } from '../../types';
+
+// Define node definition
+const definition: NodeDefinition = {
+  type: 'execute_workflow',
+  name: 'Execute Workflow',
+  description: 'Run another saved workflow and use its results',
+  category: 'logic',
+  version: '1.0.0',
+  icon: 'workflow',
+  
+  inputs: {
+    input: {
+      type: 'any',
+      description: 'Input for every input node of the called workflow'
+    }
+  },
+  
+  outputs: {
+    output: {
+      type: 'any',
+      description: 'Result of the called workflow (its first output node)'
+    }
+  },
+  
+  configOptions: [
+    {
+      key: 'workflowId',
+      type: 'number',
+      description: 'ID of the saved workflow to run',
+      default: null
+    }
+  ],
+  
+  defaultData: {
+    workflowId: null
+  }
+};
+
+// Additional metadata for UI/rendering (optional)
+export const nodeMetadata = {
+  tags: ['logic', 'workflow', 'sub-workflow', 'call', 'reuse'],
+  color: '#6366F1' // Indigo color
+};
+
+export default definition;
@@ -0,0 +1,158 @@
+/**
+ * Execute Workflow Node Executor
+ * 
+ * This executor runs another saved workflow as a sub-workflow. The "input" port
+ * feeds every input node of the called workflow; ports named after one of its
+ * input nodes feed that node only. The called workflow's output nodes become
+ * this node's outputs.
+ */
+
+import axios from 'axios';
+import { getInputValue } from '../../nodeOutputUtils';
+import { NodeExecutionContext } from '@/lib/types/workflow';
+import { WorkflowEnvironment } from '@shared/schema';
+
+// Define the shape of the node's data
+export interface ExecuteWorkflowNodeData {
+  label?: string;
+  // ID of the saved workflow to run
+  workflowId: number | null;
+}
+
+/**
+ * A request to run a sub-workflow
+ */
+export interface SubWorkflowRunRequest {
+  workflowId: number;
+  // Input for every input node of the called workflow
+  input: any;
+  // Input for specific input nodes, keyed by node ID
+  nodeInputs: Record<string, any>;
+  // IDs of the workflows that led to this call, outermost first
+  callStack: number[];
+  // Execution log of the calling run, if it has one
+  parentLogId?: number;
+  // Environment of the calling run, whose variables the sub-workflow uses as well
+  environment?: WorkflowEnvironment;
+  // Aborted when the calling run is cancelled
+  signal?: AbortSignal;
+}
+
+/**
+ * The parts of a runWorkflow result that the node uses
+ */
+export interface SubWorkflowRunResult {
+  output: any;
+  outputs?: Record<string, any>;
+  errors?: Array<{ nodeId?: string; error: string }>;
+  executionDetails?: { status?: string; logId?: number };
+}
+
+export type SubWorkflowRunner = (request: SubWorkflowRunRequest) => Promise<SubWorkflowRunResult>;
+
+/**
+ * In the browser, sub-workflows run on the server through the execute API
+ * The server starts a new call stack for them (the API does not accept one), so
+ * the depth limit counts from the called workflow.
+ */
+const runWorkflowThroughApi: SubWorkflowRunner = async ({ workflowId, input, nodeInputs, environment, signal }) => {
+  try {
+    const options = { nodeInputs, environment };
+    const response = await axios.post(`/api/workflows/${workflowId}/execute`, { input, options }, { signal });
+    return response.data;
+  } catch (error: any) {
+    const details = error?.response?.data?.details || error?.response?.data?.message;
+    throw new Error(details || (error instanceof Error ? error.message : String(error)));
+  }
+};
+
+let workflowRunner: SubWorkflowRunner = runWorkflowThroughApi;
+
+/**
+ * Replace how sub-workflows are run
+ * The server registers a runner that calls runWorkflow directly.
+ */
+export function setWorkflowRunner(runner: SubWorkflowRunner): void {
+  workflowRunner = runner;
+}
+
+/**
+ * Execute the execute workflow node with the provided data and inputs
+ */
+export async function execute(
+  nodeData: ExecuteWorkflowNodeData,
+  inputs: Record<string, any> = {},
+  context?: NodeExecutionContext
+) {
+  const startTime = new Date();
+  const workflowId = Number(nodeData.workflowId);
+  
+  if (!workflowId) {
+    throw new Error('No workflow selected');
+  }
+  
+  // Ports other than "input" are named after the called workflow's input nodes.
+  // The engine also passes the node's own settings as inputs; those are not forwarded.
+  const nodeInputs: Record<string, any> = {};
+  Object.entries(inputs).forEach(([port, value]) => {
+    if (port !== 'input' && !(port in nodeData)) {
+      nodeInputs[port] = getInputValue(value);
+    }
+  });
+  
+  const metadata = context?.metadata || {};
+  const result = await workflowRunner({
+    workflowId,
+    input: inputs.input !== undefined ? getInputValue(inputs.input) : {},
+    nodeInputs,
+    callStack: Array.isArray(metadata.callStack) ? metadata.callStack : [],
+    parentLogId: typeof metadata.logId === 'number' ? metadata.logId : undefined,
+    environment: metadata.environment,
+    signal: context?.signal
+  });
+  
+  // The called workflow's execution log, for following the run from the caller
+  const childLogId = result.executionDetails?.logId;
+  
+  if (result.errors && result.errors.length > 0) {
+    const [firstError] = result.errors;
+    const failedNode = firstError.nodeId ? ` (node ${firstError.nodeId})` : '';
+    return {
+      items: [],
+      meta: {
+        startTime,
+        endTime: new Date(),
+        error: true,
+        errorMessage: `Workflow ${workflowId} failed${failedNode}: ${firstError.error}`,
+        workflowId,
+        childLogId
+      }
+    };
+  }
+  
+  // "output" holds the workflow result; each output node is also available under its ID
+  const json: Record<string, any> = { output: result.output };
+  Object.entries(result.outputs || {}).forEach(([nodeId, value]) => {
+    if (value !== undefined) {
+      json[nodeId] = value;
+    }
+  });
+  
+  return {
+    items: [{
+      json,
+      text: JSON.stringify(json),
+      meta: { workflowId, childLogId }
+    }],
+    meta: {
+      startTime,
+      endTime: new Date(),
+      workflowId,
+      childLogId
+    }
+  };
+}
+
+export const defaultData: ExecuteWorkflowNodeData = {
+  workflowId: null
+};
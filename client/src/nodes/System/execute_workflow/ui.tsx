@@ -0,0 +1,179 @@
+/**
+ * Execute Workflow Node UI Component
+ *
+ * This component lets the user pick a saved workflow to run. Once a workflow is
+ * selected, its input nodes appear as extra input handles on the left and its
+ * output nodes as extra output handles on the right.
+ */
+
+import React, { useCallback, useEffect } from 'react';
+import { Handle, Position, NodeProps, useReactFlow, useUpdateNodeInternals } from 'reactflow';
+import { useQuery } from '@tanstack/react-query';
+import { Workflow as WorkflowIcon, ExternalLink } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { HandleWithLabel } from '@/components/nodes/handles';
+import { Workflow } from '@shared/schema';
+import { WorkflowData, isWorkflowEntryNode, isWorkflowOutputNode } from '@/lib/types/workflow';
+import { ExecuteWorkflowNodeData } from './executor';
+
+// Re-export defaultData from executor
+export { defaultData } from './executor';
+
+export const validator = (data: ExecuteWorkflowNodeData) => {
+  const errors: string[] = [];
+
+  if (!data.workflowId) {
+    errors.push('Select a workflow to run');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+};
+
+/**
+ * Get the nodes of a saved workflow (flow data is stored as a string or an object)
+ */
+function getWorkflowNodes(workflow?: Workflow): WorkflowData['nodes'] {
+  if (!workflow?.flowData) return [];
+  try {
+    const flowData = typeof workflow.flowData === 'string'
+      ? JSON.parse(workflow.flowData)
+      : workflow.flowData;
+    return Array.isArray(flowData?.nodes) ? flowData.nodes : [];
+  } catch {
+    return [];
+  }
+}
+
+const getNodeLabel = (node: WorkflowData['nodes'][0]) => node.data?.label || node.type;
+
+export function component({ id, data, isConnectable = true }: NodeProps<ExecuteWorkflowNodeData>) {
+  const { setNodes } = useReactFlow();
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  const { data: workflows = [] } = useQuery<Workflow[]>({
+    queryKey: ['/api/workflows']
+  });
+  const { data: selectedWorkflow } = useQuery<Workflow>({
+    queryKey: [`/api/workflows/${data.workflowId}`],
+    enabled: !!data.workflowId
+  });
+
+  const workflowNodes = getWorkflowNodes(selectedWorkflow);
+  const inputNodes = workflowNodes.filter(isWorkflowEntryNode);
+  const outputNodes = workflowNodes.filter(isWorkflowOutputNode);
+
+  // Let ReactFlow pick up the handles of the selected workflow
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, inputNodes.length, outputNodes.length, updateNodeInternals]);
+
+  // Update node data in the flow
+  const updateNodeData = useCallback((updates: Partial<ExecuteWorkflowNodeData>) => {
+    setNodes(nodes =>
+      nodes.map(node => {
+        if (node.id === id) {
+          return {
+            ...node,
+            data: {
+              ...node.data,
+              ...updates
+            }
+          };
+        }
+        return node;
+      })
+    );
+  }, [id, setNodes]);
+
+  return (
+    <div className="p-3 rounded-md bg-background border shadow-sm min-w-[280px]">
+      {/* Input handle: feeds every input node of the workflow */}
+      <Handle
+        type="target"
+        position={Position.Top}
+        id="input"
+        isConnectable={isConnectable}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <div className="flex items-center gap-2 mb-3">
+        <WorkflowIcon className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-medium">{data.label || 'Execute Workflow'}</h3>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <Label className="text-xs">Workflow</Label>
+          <Select
+            value={data.workflowId ? String(data.workflowId) : undefined}
+            onValueChange={(value) => updateNodeData({ workflowId: parseInt(value, 10) })}
+          >
+            <SelectTrigger className="h-8 mt-1 text-xs">
+              <SelectValue placeholder="Select a workflow" />
+            </SelectTrigger>
+            <SelectContent>
+              {workflows.map(workflow => (
+                <SelectItem key={workflow.id} value={String(workflow.id)}>
+                  {workflow.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {data.workflowId && (
+            <a
+              href={`/workflow-editor/${data.workflowId}`}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-primary mt-1"
+            >
+              Open workflow <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+
+        {(inputNodes.length > 0 || outputNodes.length > 0) && (
+          <div className="flex justify-between gap-4">
+            <div className="space-y-2">
+              {inputNodes.map(node => (
+                <HandleWithLabel
+                  key={node.id}
+                  type="target"
+                  position={Position.Left}
+                  id={node.id}
+                  label={getNodeLabel(node)}
+                  isConnectable={isConnectable}
+                />
+              ))}
+            </div>
+            <div className="space-y-2">
+              {outputNodes.map(node => (
+                <HandleWithLabel
+                  key={node.id}
+                  type="source"
+                  position={Position.Right}
+                  id={node.id}
+                  label={getNodeLabel(node)}
+                  isConnectable={isConnectable}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-center mt-3">
+        <HandleWithLabel
+          type="source"
+          position={Position.Bottom}
+          id="output"
+          label="Output"
+          isConnectable={isConnectable}
+        />
+      </div>
+    </div>
+  );
+};
@@ -46,6 +46,9 @@ interface FunctionNodeData {
   [key: string]: any;
 }
 
+// The function processes all incoming items itself, so it receives them in one batch
+export const itemMode = 'batch' as const;
+
 // Simple result cache for identical inputs
 const resultCache = new Map<string, any>();
 
@@ -54,9 +57,14 @@ const resultCache = new Map<string, any>();
  */
 export async function execute(
   nodeData: FunctionNodeData,
-  input: NodeExecutionData
+  inputs: Record<string, NodeExecutionData> | NodeExecutionData
 ): Promise<NodeExecutionData> {
   const startTime = new Date();
+  
+  // Read the node's input port (a bare NodeExecutionData is accepted for direct calls)
+  const input: NodeExecutionData = Array.isArray((inputs as NodeExecutionData)?.items)
+    ? inputs as NodeExecutionData
+    : (inputs as Record<string, NodeExecutionData>)?.input || { items: [], meta: { startTime, endTime: startTime } };
   const meta = {
     startTime,
     endTime: new Date(),
@@ -4,7 +4,10 @@
  * This file contains the execution logic for the HTTP request node.
  */
 
+import { getInputValue } from '../../nodeOutputUtils';
+
 import axios, { AxiosRequestConfig, AxiosResponse, Method } from 'axios';
+import { NodeExecutionContext } from '@/lib/types/workflow';
 
 export interface HttpRequestNodeData {
   url: string;
@@ -19,9 +22,14 @@ export interface HttpRequestNodeData {
  * 
  * @param nodeData The node configuration data
  * @param inputs Optional inputs from connected nodes
+ * @param context Execution context; its signal aborts the request when the run is cancelled
  * @returns The execution result
  */
-export const execute = async (nodeData: HttpRequestNodeData, inputs?: any): Promise<any> => {
+export const execute = async (
+  nodeData: HttpRequestNodeData,
+  inputs?: any,
+  context?: NodeExecutionContext
+): Promise<any> => {
   try {
     const startTime = new Date().toISOString();
     
@@ -33,7 +41,7 @@ export const execute = async (nodeData: HttpRequestNodeData, inputs?: any): Prom
     // Merge headers from node data and inputs
     const headers = {
       ...(nodeData.headers || {}),
-      ...(inputs?.headers || {})
+      ...(getInputValue(inputs?.headers) || {})
     };
     
     // Prepare request configuration
@@ -41,17 +49,18 @@ export const execute = async (nodeData: HttpRequestNodeData, inputs?: any): Prom
       url: nodeData.url,
       method: nodeData.method || 'GET',
       headers,
-      timeout: nodeData.timeout || 10000
+      timeout: nodeData.timeout || 10000,
+      signal: context?.signal
     };
     
     // Add body if method is not GET or HEAD
     if (
       nodeData.method &&
       !['GET', 'HEAD'].includes(nodeData.method) &&
-      (nodeData.body || inputs?.body)
+      (nodeData.body || getInputValue(inputs?.body))
     ) {
       // Prefer body from inputs, fall back to nodeData body
-      const requestBody = inputs?.body || nodeData.body;
+      const requestBody = getInputValue(inputs?.body) || nodeData.body;
       
       // If body is a string and we're sending JSON, try to parse it
       if (
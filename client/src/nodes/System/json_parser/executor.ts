@@ -5,10 +5,12 @@
  * It takes a JSON string input and returns a parsed JavaScript object.
  */
 
+import { getInputText } from '../../nodeOutputUtils';
+
 export const execute = async (nodeData: any, inputs: any = {}): Promise<any> => {
   try {
     // Get the input JSON string
-    const jsonString = inputs?.json_string || '{}';
+    const jsonString = getInputText(inputs?.json_string) || '{}';
     
     // Default settings
     const returnErrorObject = nodeData?.returnErrorObject || false;
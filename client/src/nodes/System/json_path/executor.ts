@@ -4,6 +4,8 @@
  * This executor extracts data from JSON using JSONPath expressions.
  */
 
+import { getInputValue } from '../../nodeOutputUtils';
+
 // Define the shape of the node's data
 export interface JSONPathNodeData {
   path: string;
@@ -53,7 +55,7 @@ function getValueByPath(obj: any, path: string): any {
  */
 export async function execute(nodeData: JSONPathNodeData, inputs: Record<string, any> = {}) {
   const { path } = nodeData;
-  const inputData = inputs.data;
+  const inputData = getInputValue(inputs.input ?? inputs.data);
   
   try {
     if (!inputData) {
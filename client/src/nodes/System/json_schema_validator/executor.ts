@@ -5,7 +5,7 @@
  * It validates JSON data against a JSON schema using Ajv and returns validation results.
  */
 
-import { createNodeOutput, createErrorOutput } from '../../../nodes/nodeOutputUtils';
+import { createNodeOutput, createErrorOutput, getInputValue } from '../../../nodes/nodeOutputUtils';
 import { NodeExecutionData } from '@shared/nodeTypes';
 
 // We'll use vanilla JS validation since we don't want to add Ajv as a dependency
@@ -107,18 +107,17 @@ export const execute = async (
     const startTime = new Date();
     
     // Check for input JSON
-    if (!inputs || !inputs.json) {
+    const jsonData = getInputValue(inputs?.data ?? inputs?.json);
+    if (!jsonData) {
       return createErrorOutput('No JSON data provided for validation', 'json_schema_validator');
     }
     
-    const jsonData = inputs.json;
-    
     // Get schema - either from inputs or from node data
     let schema: any;
     
     if (inputs.schema) {
       // Use schema from inputs if available
-      schema = inputs.schema;
+      schema = getInputValue(inputs.schema);
     } else {
       // Parse schema from node data
       try {
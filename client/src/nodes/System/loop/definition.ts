@@ -0,0 +1,72 @@
+/**
+ * Loop Node Definition
+ * 
+ * This file defines the metadata and schema for the Loop node.
+ */
+
+import { NodeDefinition } from '../../types';
+
+// Define node definition
+const definition: NodeDefinition = {
+  type: 'loop',
+  name: 'Loop',
+  description: 'Run the connected nodes once per item and gather the results',
+  category: 'logic',
+  version: '1.0.0',
+  icon: 'repeat',
+  
+  inputs: {
+    input: {
+      type: 'any',
+      description: 'Array or items to iterate over'
+    }
+  },
+  
+  outputs: {
+    item: {
+      type: 'any',
+      description: 'The current item; connect the nodes to run per item here'
+    },
+    done: {
+      type: 'array',
+      description: 'Results of all iterations, in input order'
+    },
+    error: {
+      type: 'string',
+      description: 'Error message if the input cannot be iterated'
+    }
+  },
+  
+  configOptions: [
+    {
+      key: 'iterateOver',
+      type: 'select',
+      description: 'What to iterate over',
+      default: 'auto',
+      options: [
+        { value: 'auto', label: 'Auto (array elements or items)' },
+        { value: 'items', label: 'Each incoming item' },
+        { value: 'array', label: 'Elements of the input array' }
+      ]
+    },
+    {
+      key: 'concurrency',
+      type: 'number',
+      description: 'How many iterations may run at the same time',
+      default: 1
+    }
+  ],
+  
+  defaultData: {
+    iterateOver: 'auto',
+    concurrency: 1
+  }
+};
+
+// Additional metadata for UI/rendering (optional)
+export const nodeMetadata = {
+  tags: ['logic', 'loop', 'for each', 'iterate', 'map', 'batch'],
+  color: '#10B981' // Emerald color
+};
+
+export default definition;
@@ -0,0 +1,92 @@
+/**
+ * Loop Node Executor
+ * 
+ * This executor splits the input into iteration items. The workflow engine then
+ * runs the sub-graph connected to the "item" port once per iteration item and
+ * gathers the results into one array on the "done" port.
+ */
+
+import { createErrorOutput, getInputValue, isNodeExecutionData } from '../../nodeOutputUtils';
+import { WorkflowItem } from '@/lib/types/workflow';
+
+// Define the shape of the node's data
+export interface LoopNodeData {
+  label?: string;
+  // What to iterate over: each incoming item, the elements of an array, or whichever fits the input
+  iterateOver: 'auto' | 'items' | 'array';
+  // How many iterations may run at the same time
+  concurrency: number;
+}
+
+// The loop iterates over all incoming items itself, so it receives them in one batch
+export const itemMode = 'batch' as const;
+
+/**
+ * Get the items to iterate over
+ */
+function getIterationItems(input: any, iterateOver: LoopNodeData['iterateOver']): WorkflowItem[] {
+  const toItem = (value: any): WorkflowItem => ({
+    json: value,
+    text: typeof value === 'string' ? value : JSON.stringify(value)
+  });
+  
+  if (iterateOver === 'items') {
+    return isNodeExecutionData(input) ? input.items : [toItem(input)];
+  }
+  
+  const value = getInputValue(input);
+  if (iterateOver === 'array') {
+    if (!Array.isArray(value)) {
+      throw new Error('Input is not an array');
+    }
+    return value.map(toItem);
+  }
+  
+  // Auto: a single array is iterated element by element, anything else item by item
+  if (Array.isArray(value) && !(isNodeExecutionData(input) && input.items.length > 1)) {
+    return value.map(toItem);
+  }
+  return isNodeExecutionData(input) ? input.items : [toItem(input)];
+}
+
+/**
+ * Execute the loop node with the provided data and inputs
+ */
+export async function execute(nodeData: LoopNodeData, inputs: Record<string, any> = {}) {
+  const startTime = new Date();
+  const { iterateOver = 'auto' } = nodeData;
+  const input = inputs.input;
+  
+  try {
+    if (input === undefined) {
+      return createErrorOutput('No input provided', 'loop');
+    }
+    
+    const items = getIterationItems(input, iterateOver);
+    
+    // Iteration items leave through the "item" port only
+    return {
+      items: items.map((item, index) => ({
+        ...item,
+        meta: {
+          ...item.meta,
+          outputType: 'item',
+          context: { ...item.meta?.context, index, total: items.length }
+        }
+      })),
+      meta: {
+        startTime,
+        endTime: new Date(),
+        itemsProcessed: items.length
+      }
+    };
+  } catch (error) {
+    console.error('Error executing loop node:', error);
+    return createErrorOutput(error instanceof Error ? error.message : String(error), 'loop');
+  }
+}
+
+export const defaultData: LoopNodeData = {
+  iterateOver: 'auto',
+  concurrency: 1
+};
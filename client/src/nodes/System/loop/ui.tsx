@@ -0,0 +1,122 @@
+/**
+ * Loop Node UI Component
+ *
+ * This component provides an interface for running a sub-graph once per item.
+ * Nodes connected to the "Each item" handle form the loop body.
+ */
+
+import React, { useCallback } from 'react';
+import { Handle, Position, NodeProps, useReactFlow } from 'reactflow';
+import { Repeat } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { HandleWithLabel } from '@/components/nodes/handles';
+import { LoopNodeData } from './executor';
+
+// Re-export defaultData from executor
+export { defaultData } from './executor';
+
+export const validator = (data: LoopNodeData) => {
+  const errors: string[] = [];
+
+  if (data.concurrency !== undefined && (!Number.isInteger(Number(data.concurrency)) || Number(data.concurrency) < 1)) {
+    errors.push('Concurrency must be a whole number of at least 1');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+};
+
+export function component({ id, data, isConnectable = true }: NodeProps<LoopNodeData>) {
+  const { setNodes } = useReactFlow();
+
+  // Update node data in the flow
+  const updateNodeData = useCallback((updates: Partial<LoopNodeData>) => {
+    setNodes(nodes =>
+      nodes.map(node => {
+        if (node.id === id) {
+          return {
+            ...node,
+            data: {
+              ...node.data,
+              ...updates
+            }
+          };
+        }
+        return node;
+      })
+    );
+  }, [id, setNodes]);
+
+  return (
+    <div className="p-3 rounded-md bg-background border shadow-sm min-w-[280px]">
+      {/* Input handle */}
+      <Handle
+        type="target"
+        position={Position.Top}
+        id="input"
+        isConnectable={isConnectable}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <div className="flex items-center gap-2 mb-3">
+        <Repeat className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-medium">{data.label || 'Loop'}</h3>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <Label className="text-xs">Iterate over</Label>
+          <Select
+            value={data.iterateOver || 'auto'}
+            onValueChange={(value) => updateNodeData({ iterateOver: value as LoopNodeData['iterateOver'] })}
+          >
+            <SelectTrigger className="h-8 mt-1 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Auto (array elements or items)</SelectItem>
+              <SelectItem value="items">Each incoming item</SelectItem>
+              <SelectItem value="array">Elements of the input array</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor={`${id}-concurrency`} className="text-xs">Concurrency</Label>
+          <Input
+            id={`${id}-concurrency`}
+            type="number"
+            min={1}
+            value={data.concurrency ?? 1}
+            onChange={(e) => updateNodeData({ concurrency: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            className="text-xs h-8 mt-1"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Iterations that may run at the same time
+          </p>
+        </div>
+      </div>
+
+      <div className="flex justify-between mt-3">
+        <HandleWithLabel
+          type="source"
+          position={Position.Bottom}
+          id="item"
+          label="Each item"
+          isConnectable={isConnectable}
+        />
+        <HandleWithLabel
+          type="source"
+          position={Position.Bottom}
+          id="done"
+          label="Done"
+          isConnectable={isConnectable}
+        />
+      </div>
+    </div>
+  );
+};
@@ -5,7 +5,7 @@
  * It processes markdown text, generates HTML, and extracts metadata.
  */
 
-import { createNodeOutput, createErrorOutput } from '../../../nodes/nodeOutputUtils';
+import { createNodeOutput, createErrorOutput, getInputText, getInputValue } from '../../../nodes/nodeOutputUtils';
 import { NodeExecutionData } from '@shared/nodeTypes';
 
 export interface MarkdownRendererNodeData {
@@ -199,7 +199,7 @@ export const execute = async (
     
     // Get markdown content, either from input or default
     const markdownContent = (inputs && inputs.markdown) 
-      ? inputs.markdown 
+      ? getInputText(inputs.markdown) 
       : nodeData.defaultMarkdown;
     
     if (!markdownContent) {
@@ -209,14 +209,15 @@ export const execute = async (
     // Process any variables if provided
     let processedMarkdown = markdownContent;
     
-    if (inputs && inputs.variables && typeof inputs.variables === 'object') {
+    const variables = getInputValue(inputs?.variables);
+    if (variables && typeof variables === 'object') {
       // Simple variable interpolation with {{varName}} syntax
       processedMarkdown = markdownContent.replace(
         /\{\{([^}]+)\}\}/g,
         (match: string, varName: string) => {
           const name = varName.trim();
-          return inputs.variables[name] !== undefined 
-            ? String(inputs.variables[name]) 
+          return variables[name] !== undefined 
+            ? String(variables[name]) 
             : match;
         }
       );
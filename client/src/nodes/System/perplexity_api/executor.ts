@@ -4,8 +4,9 @@
  * Handles the execution logic for the Perplexity API node.
  */
 
-import { createNodeOutput, createErrorOutput } from '@/nodes/nodeOutputUtils';
+import { createNodeOutput, createErrorOutput, getInputText } from '@/nodes/nodeOutputUtils';
 import { NodeExecutionData } from '@/nodes/types';
+import { NodeExecutionContext } from '@/lib/types/workflow';
 
 // Define configuration data interface for this node
 export interface PerplexityApiNodeData {
@@ -32,21 +33,26 @@ export const defaultData: PerplexityApiNodeData = {
  */
 export const execute = async (
   data: PerplexityApiNodeData, 
-  inputs: Record<string, any>
+  inputs: Record<string, any>,
+  context?: NodeExecutionContext
 ): Promise<Record<string, any>> => {
   try {
     const startTime = new Date();
     // Extract inputs
-    const prompt = inputs.prompt;
-    const systemPrompt = inputs.system || data.systemPrompt;
+    const prompt = getInputText(inputs.prompt);
+    const systemPrompt = getInputText(inputs.system) || data.systemPrompt;
     
     // Validate inputs
     if (!prompt) {
       return createErrorOutput('Prompt is required');
     }
 
-    // Get API key from node settings or environment variable
-    const apiKey = data.apiKey || import.meta.env.VITE_PERPLEXITY_API_KEY;
+    // Get API key from node settings, the keys configured for the run (server runs),
+    // or environment variable (Vite env in the browser, process.env on the server)
+    const apiKey = data.apiKey
+      || context?.metadata?.apiKeys?.perplexity
+      || import.meta.env?.VITE_PERPLEXITY_API_KEY
+      || (typeof process !== 'undefined' ? process.env.PERPLEXITY_API_KEY : undefined);
 
     if (!apiKey) {
       return createErrorOutput('Perplexity API key is required. Please configure it in the node settings or provide it as an environment variable.');
@@ -76,7 +82,8 @@ export const execute = async (
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${apiKey}`
       },
-      body: JSON.stringify(requestBody)
+      body: JSON.stringify(requestBody),
+      signal: context?.signal
     });
 
     // Handle response
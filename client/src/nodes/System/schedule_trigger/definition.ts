@@ -0,0 +1,84 @@
+/**
+ * Schedule Trigger Node Definition
+ * 
+ * This node starts the workflow on a timer: on a cron expression in a
+ * timezone, or at a fixed interval. The server scheduler runs active
+ * workflows that contain it.
+ */
+
+import { z } from 'zod';
+
+import { Clock } from 'lucide-react';
+
+const definition = {
+  type: 'schedule_trigger',
+  name: 'Schedule Trigger',
+  description: 'Runs this workflow on a cron schedule or at a fixed interval',
+  category: 'actions',
+  icon: Clock,
+  version: '1.0.0',
+  inputs: {},
+  outputs: {
+    output: {
+      type: 'object',
+      description: 'When the run was scheduled for and when it started (scheduledAt, firedAt, timezone)'
+    }
+  },
+  settings: [
+    {
+      key: 'mode',
+      type: 'select',
+      label: 'Schedule Type',
+      description: 'Fire on a cron expression or at a fixed interval',
+      options: [
+        { label: 'Cron Expression', value: 'cron' },
+        { label: 'Interval', value: 'interval' }
+      ],
+      default: 'cron'
+    },
+    {
+      key: 'cron',
+      type: 'string',
+      label: 'Cron Expression',
+      description: 'Minute, hour, day of month, month and day of week',
+      placeholder: '0 9 * * MON-FRI',
+      required: false
+    },
+    {
+      key: 'interval',
+      type: 'number',
+      label: 'Interval',
+      description: 'Time between runs, in the interval unit',
+      required: false
+    },
+    {
+      key: 'intervalUnit',
+      type: 'select',
+      label: 'Interval Unit',
+      options: [
+        { label: 'Seconds', value: 'seconds' },
+        { label: 'Minutes', value: 'minutes' },
+        { label: 'Hours', value: 'hours' },
+        { label: 'Days', value: 'days' }
+      ],
+      default: 'minutes'
+    },
+    {
+      key: 'timezone',
+      type: 'string',
+      label: 'Timezone',
+      description: 'IANA timezone the cron expression is evaluated in',
+      placeholder: 'Europe/Berlin',
+      default: 'UTC'
+    }
+  ],
+  validation: z.object({
+    mode: z.enum(['cron', 'interval']).default('cron'),
+    cron: z.string().optional(),
+    interval: z.number().positive().optional(),
+    intervalUnit: z.enum(['seconds', 'minutes', 'hours', 'days']).default('minutes'),
+    timezone: z.string().default('UTC')
+  })
+};
+
+export default definition;
@@ -0,0 +1,50 @@
+/**
+ * Schedule Trigger Node Executor
+ * 
+ * Scheduled runs are started by the server scheduler (server/services/scheduler.ts),
+ * which passes the schedule time as the node's run input, so this executor only
+ * runs on the canvas or when the workflow is started some other way. It then
+ * reports the current time as if the schedule had fired now.
+ */
+
+import { createNodeOutput, createErrorOutput } from '../../nodeOutputUtils';
+import { describeSchedule, getNextScheduleTime, getScheduleSettings } from '@/lib/schedule';
+
+/**
+ * Execute function for the schedule trigger node
+ */
+export const execute = async (
+  nodeData: Record<string, any>
+): Promise<any> => {
+  const startTime = new Date();
+  
+  try {
+    const settings = getScheduleSettings(nodeData);
+    // Fails on an invalid schedule, the same way the scheduler would
+    const nextRunAt = getNextScheduleTime(settings, startTime);
+    
+    return createNodeOutput(
+      {
+        output: {
+          scheduledAt: startTime.toISOString(),
+          firedAt: startTime.toISOString(),
+          timezone: settings.timezone
+        }
+      },
+      {
+        startTime,
+        additionalMeta: {
+          schedule: describeSchedule(settings),
+          nextRunAt: nextRunAt.toISOString(),
+          isSimulated: true
+        }
+      }
+    );
+  } catch (error: any) {
+    console.error('Error in schedule_trigger executor:', error);
+    return createErrorOutput(
+      error.message || 'Invalid schedule',
+      'schedule_trigger'
+    );
+  }
+};
@@ -0,0 +1,58 @@
+/**
+ * Schedule Trigger Node UI Component
+ *
+ * This component renders the schedule trigger node in the workflow editor,
+ * with its schedule and the time it fires next.
+ */
+
+import React from 'react';
+import DefaultNode from '../../Default/ui';
+import { describeSchedule, getNextScheduleTime, getScheduleSettings } from '@/lib/schedule';
+
+export default function ScheduleTriggerNode({ id, data }: { id: string, data: any }) {
+  const settings = getScheduleSettings(data);
+
+  let nextRun: string;
+  let scheduleError: string | null = null;
+  try {
+    nextRun = getNextScheduleTime(settings, new Date()).toLocaleString();
+  } catch (error) {
+    nextRun = '-';
+    scheduleError = error instanceof Error ? error.message : String(error);
+  }
+
+  const nodeContent = (
+    <div className="p-4 flex flex-col gap-3">
+      <div className="bg-muted/80 p-2 rounded-md flex flex-col gap-1">
+        <div className="text-xs text-muted-foreground">Schedule:</div>
+        <div className="text-xs font-mono bg-background p-1.5 rounded border truncate">
+          {describeSchedule(settings)}
+        </div>
+        {scheduleError ? (
+          <div className="text-xs text-red-500 mt-1">{scheduleError}</div>
+        ) : (
+          <div className="text-xs text-muted-foreground mt-1">
+            Next run: <span className="font-semibold">{nextRun}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  // Render using the DefaultNode wrapper
+  return (
+    <DefaultNode
+      id={id}
+      data={{
+        ...data,
+        hideInputHandles: true, // No inputs for trigger nodes
+        type: 'schedule_trigger',
+        icon: 'clock',
+        childrenContent: nodeContent,
+        note: data.note,
+        showNote: data.showNote,
+        useGlobalSettingsOnly: true
+      }}
+    />
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Switch Node Definition
+ * 
+ * This file defines the metadata and schema for the Switch node.
+ */
+
+import { NodeDefinition } from '../../types';
+
+// Define node definition
+const definition: NodeDefinition = {
+  type: 'switch',
+  name: 'Switch',
+  description: 'Route data to one of several outputs by matching values or expressions',
+  category: 'logic',
+  version: '1.0.0',
+  icon: 'git-fork',
+  
+  inputs: {
+    input: {
+      type: 'any',
+      description: 'Value to match against the cases'
+    }
+  },
+  
+  // Each case adds its own output port (using the case id); these are the fixed ports
+  outputs: {
+    default: {
+      type: 'any',
+      description: 'Output if no case matches'
+    },
+    error: {
+      type: 'string',
+      description: 'Error message if a case expression fails'
+    }
+  },
+  
+  configOptions: [
+    {
+      key: 'property',
+      type: 'string',
+      description: 'Optional dot path into the input to compare (e.g., status or user.role)',
+      default: ''
+    },
+    {
+      key: 'cases',
+      type: 'json',
+      description: 'Cases to match, in order; the first match wins',
+      default: [
+        { id: 'case-1', label: 'Case 1', matchType: 'value', value: '' }
+      ]
+    }
+  ],
+  
+  defaultData: {
+    property: '',
+    cases: [
+      { id: 'case-1', label: 'Case 1', matchType: 'value', value: '' }
+    ]
+  }
+};
+
+// Additional metadata for UI/rendering (optional)
+export const nodeMetadata = {
+  tags: ['logic', 'switch', 'route', 'branch', 'case', 'match'],
+  color: '#10B981' // Emerald color
+};
+
+export default definition;
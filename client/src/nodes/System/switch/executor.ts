@@ -0,0 +1,97 @@
+/**
+ * Switch Node Executor
+ * 
+ * This executor routes data to one of several outputs (N-way routing).
+ * Each case has its own output port; data matching no case goes to the default port.
+ */
+
+import { createRoutingErrorOutput, getInputValue } from '../../nodeOutputUtils';
+
+// A single routing case; its id is also the id of its output port
+export interface SwitchCase {
+  id: string;
+  label: string;
+  matchType: 'value' | 'expression';
+  value: string;
+}
+
+// Define the shape of the node's data
+export interface SwitchNodeData {
+  label?: string;
+  // Optional dot path into the input to compare (e.g. "status" or "user.role")
+  property?: string;
+  cases: SwitchCase[];
+}
+
+// Id of the output port used when no case matches
+export const DEFAULT_PORT = 'default';
+
+/**
+ * Read a dot path from a value (an empty path returns the value itself)
+ */
+function getProperty(value: any, path?: string): any {
+  if (!path || path.trim() === '') return value;
+  
+  return path.split('.').reduce((current, key) => {
+    return current === undefined || current === null ? undefined : current[key];
+  }, value);
+}
+
+/**
+ * Whether a value matches a case
+ */
+function matchesCase(switchCase: SwitchCase, value: any, input: any): boolean {
+  if (switchCase.matchType === 'expression') {
+    // Expressions can use 'value' (the compared value) and 'input' (the whole input)
+    const caseFunction = new Function('value', 'input', `return ${switchCase.value};`);
+    return !!caseFunction(value, input);
+  }
+  
+  // Value matching compares string representations, so "1" matches 1 and "true" matches true
+  const compared = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  return compared === String(switchCase.value ?? '');
+}
+
+/**
+ * Execute the switch node with the provided data and inputs
+ */
+export async function execute(nodeData: SwitchNodeData, inputs: Record<string, any> = {}) {
+  const { property, cases = [] } = nodeData;
+  const input = getInputValue(inputs.input ?? inputs.value);
+  
+  try {
+    if (input === undefined) {
+      return createRoutingErrorOutput('No input value provided', 'switch');
+    }
+    
+    // The first matching case wins
+    const value = getProperty(input, property);
+    const matchedCase = cases.find(switchCase => matchesCase(switchCase, value, input));
+    const outputType = matchedCase ? matchedCase.id : DEFAULT_PORT;
+    
+    // The item's output type routes it to the matching case port only
+    return {
+      items: [{
+        json: input,
+        text: typeof input === 'string' ? input : JSON.stringify(input),
+        meta: { outputType }
+      }],
+      meta: {
+        startTime: new Date(),
+        endTime: new Date(),
+        outputType,
+        matchedCase: matchedCase?.label
+      }
+    };
+  } catch (error) {
+    console.error('Error executing switch node:', error);
+    return createRoutingErrorOutput(error instanceof Error ? error.message : String(error), 'switch');
+  }
+}
+
+export const defaultData: SwitchNodeData = {
+  property: '',
+  cases: [
+    { id: 'case-1', label: 'Case 1', matchType: 'value', value: '' }
+  ]
+};
@@ -0,0 +1,182 @@
+/**
+ * Switch Node UI Component
+ *
+ * This component provides an interface for N-way routing: one editable output
+ * handle per case, plus a fixed default handle
+ */
+
+import React, { useCallback } from 'react';
+import { Handle, Position, NodeProps, useReactFlow, useUpdateNodeInternals } from 'reactflow';
+import { nanoid } from 'nanoid';
+import { GitFork, Plus } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EditableHandle, HandleWithLabel } from '@/components/nodes/handles';
+import { SwitchCase, SwitchNodeData, DEFAULT_PORT } from './executor';
+
+// Re-export defaultData from executor
+export { defaultData } from './executor';
+
+export const validator = (data: SwitchNodeData) => {
+  const errors: string[] = [];
+  const cases = data.cases || [];
+
+  if (cases.length === 0) {
+    errors.push('Add at least one case');
+  }
+
+  cases.forEach(switchCase => {
+    if (switchCase.matchType === 'expression') {
+      if (!switchCase.value || switchCase.value.trim() === '') {
+        errors.push(`${switchCase.label}: expression cannot be empty`);
+        return;
+      }
+      // Try to validate the JavaScript syntax
+      try {
+        new Function('value', 'input', `return ${switchCase.value};`);
+      } catch (error) {
+        errors.push(`${switchCase.label}: JavaScript syntax error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+};
+
+export function component({ id, data, isConnectable = true }: NodeProps<SwitchNodeData>) {
+  const { setNodes, setEdges } = useReactFlow();
+  const updateNodeInternals = useUpdateNodeInternals();
+  const cases = data.cases || [];
+
+  // Update node data in the flow
+  const updateNodeData = useCallback((updates: Partial<SwitchNodeData>) => {
+    setNodes(nodes =>
+      nodes.map(node => {
+        if (node.id === id) {
+          return {
+            ...node,
+            data: {
+              ...node.data,
+              ...updates
+            }
+          };
+        }
+        return node;
+      })
+    );
+  }, [id, setNodes]);
+
+  const updateCase = (caseId: string, updates: Partial<SwitchCase>) => {
+    updateNodeData({
+      cases: cases.map(switchCase => switchCase.id === caseId ? { ...switchCase, ...updates } : switchCase)
+    });
+  };
+
+  const handleAddCase = () => {
+    updateNodeData({
+      cases: [
+        ...cases,
+        { id: `case-${nanoid(6)}`, label: `Case ${cases.length + 1}`, matchType: 'value', value: '' }
+      ]
+    });
+    // Let ReactFlow pick up the new handle
+    setTimeout(() => updateNodeInternals(id), 0);
+  };
+
+  const handleRemoveCase = (caseId: string) => {
+    updateNodeData({
+      cases: cases.filter(switchCase => switchCase.id !== caseId)
+    });
+    // Connections from the removed case's handle would never carry data again
+    setEdges(edges => edges.filter(edge => !(edge.source === id && edge.sourceHandle === caseId)));
+    setTimeout(() => updateNodeInternals(id), 0);
+  };
+
+  return (
+    <div className="p-3 rounded-md bg-background border shadow-sm min-w-[340px]">
+      {/* Input handle */}
+      <Handle
+        type="target"
+        position={Position.Top}
+        id="input"
+        isConnectable={isConnectable}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <div className="flex items-center gap-2 mb-3">
+        <GitFork className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-medium">{data.label || 'Switch'}</h3>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <Label htmlFor={`${id}-property`} className="text-xs">Property (optional)</Label>
+          <Input
+            id={`${id}-property`}
+            value={data.property || ''}
+            onChange={(e) => updateNodeData({ property: e.target.value })}
+            className="font-mono text-xs h-8 mt-1"
+            placeholder="e.g. status or user.role"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Cases compare this property of the input, or the whole input if empty
+          </p>
+        </div>
+
+        {/* One row per case, with its output handle on the right */}
+        {cases.map(switchCase => (
+          <div key={switchCase.id} className="flex items-center gap-2">
+            <Select
+              value={switchCase.matchType}
+              onValueChange={(value) => updateCase(switchCase.id, { matchType: value as SwitchCase['matchType'] })}
+            >
+              <SelectTrigger className="h-8 w-[110px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="value">Equals</SelectItem>
+                <SelectItem value="expression">Expression</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={switchCase.value}
+              onChange={(e) => updateCase(switchCase.id, { value: e.target.value })}
+              className="font-mono text-xs h-8 flex-1"
+              placeholder={switchCase.matchType === 'expression' ? 'value > 10' : 'value'}
+            />
+            <EditableHandle
+              id={switchCase.id}
+              type="source"
+              position={Position.Right}
+              label={switchCase.label}
+              nodeId={id}
+              isConnectable={isConnectable}
+              onLabelChange={(caseId, label) => updateCase(caseId, { label })}
+              onDelete={handleRemoveCase}
+              handleStyle={{ right: -18 }}
+            />
+          </div>
+        ))}
+
+        <Button variant="outline" size="sm" className="w-full" onClick={handleAddCase}>
+          <Plus className="h-3 w-3 mr-1" /> Add Case
+        </Button>
+
+        <div className="flex justify-end">
+          <HandleWithLabel
+            type="source"
+            position={Position.Right}
+            id={DEFAULT_PORT}
+            label="Default"
+            isConnectable={isConnectable}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -5,7 +5,7 @@
  * It applies various text transformations based on node configuration.
  */
 
-import { createNodeOutput, createErrorOutput } from '../../nodeOutputUtils';
+import { createNodeOutput, createErrorOutput, getInputText } from '../../nodeOutputUtils';
 import { NodeExecutionData } from '@shared/nodeTypes';
 
 export interface TextFormatterNodeData {
@@ -37,9 +37,7 @@ export const execute = async (
     }
     
     // Get the input text
-    const inputText = typeof inputs.text === 'string' 
-      ? inputs.text 
-      : JSON.stringify(inputs.text);
+    const inputText = getInputText(inputs.text) || '';
     
     // Apply the selected formatting
     let formattedText = inputText;
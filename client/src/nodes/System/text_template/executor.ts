@@ -4,6 +4,8 @@
  * This executor processes a template string and replaces variables with provided values.
  */
 
+import { getInputValue } from '../../nodeOutputUtils';
+
 // Define the shape of the node's data
 export interface TextTemplateNodeData {
   template: string;
@@ -56,7 +58,7 @@ function replaceTemplateVariables(template: string, data: Record<string, any>):
  */
 export async function execute(nodeData: TextTemplateNodeData, inputs: Record<string, any> = {}) {
   const { template } = nodeData;
-  const variables = inputs.variables || {};
+  const variables = getInputValue(inputs.variables) || {};
   
   try {
     if (!template || template.trim() === '') {
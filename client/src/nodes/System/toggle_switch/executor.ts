@@ -5,7 +5,7 @@
  * It provides boolean state and condition string outputs.
  */
 
-import { createNodeOutput, createErrorOutput } from '../../nodeOutputUtils';
+import { createNodeOutput, createErrorOutput, getInputValue } from '../../nodeOutputUtils';
 import { NodeExecutionData } from '@shared/nodeTypes';
 
 export interface ToggleSwitchNodeData {
@@ -26,15 +26,16 @@ export const execute = async (
     
     // Check if there's an override from inputs
     if (inputs && 'state' in inputs) {
-      if (typeof inputs.state === 'boolean') {
-        toggleState = inputs.state;
+      const state = getInputValue(inputs.state);
+      if (typeof state === 'boolean') {
+        toggleState = state;
       } else if (
-        typeof inputs.state === 'string' && 
-        (inputs.state.toLowerCase() === 'true' || inputs.state.toLowerCase() === 'false')
+        typeof state === 'string' && 
+        (state.toLowerCase() === 'true' || state.toLowerCase() === 'false')
       ) {
-        toggleState = inputs.state.toLowerCase() === 'true';
-      } else if (typeof inputs.state === 'number') {
-        toggleState = inputs.state !== 0;
+        toggleState = state.toLowerCase() === 'true';
+      } else if (typeof state === 'number') {
+        toggleState = state !== 0;
       }
     }
     
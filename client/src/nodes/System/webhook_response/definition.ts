@@ -1,7 +1,8 @@
 /**
  * Webhook Response Node Definition
  * 
- * This node sends workflow data to an external webhook endpoint.
+ * This node sends workflow data to an external webhook endpoint, or sets the
+ * response to the webhook call that started the run.
  */
 
 import { z } from 'zod';
@@ -11,7 +12,7 @@ import { Send } from 'lucide-react';
 const definition = {
   type: 'webhook_response',
   name: 'Webhook Response',
-  description: 'Sends workflow data to an external webhook endpoint',
+  description: 'Sends workflow data to an external webhook endpoint, or responds to the calling webhook',
   category: 'actions',
   icon: Send,
   version: '1.0.0',
@@ -33,13 +34,24 @@ const definition = {
     }
   },
   settings: [
+    {
+      key: 'mode',
+      type: 'select',
+      label: 'Mode',
+      description: 'Send the data to another URL, or answer the webhook call that started the run',
+      options: [
+        { label: 'Send to URL', value: 'request' },
+        { label: 'Respond to Webhook', value: 'respond' }
+      ],
+      default: 'request'
+    },
     {
       key: 'url',
       type: 'string',
       label: 'Webhook URL',
       description: 'URL of the external webhook endpoint',
       placeholder: 'https://example.com/webhook',
-      required: true
+      required: false
     },
     {
       key: 'method',
@@ -53,11 +65,39 @@ const definition = {
       ],
       default: 'POST'
     },
+    {
+      key: 'statusCode',
+      type: 'number',
+      label: 'Status Code',
+      description: 'HTTP status of the response (respond mode)',
+      min: 100,
+      max: 599,
+      default: 200
+    },
+    {
+      key: 'responseType',
+      type: 'select',
+      label: 'Response Type',
+      description: 'Content type of the response body (respond mode)',
+      options: [
+        { label: 'JSON', value: 'json' },
+        { label: 'Text', value: 'text' },
+        { label: 'HTML', value: 'html' }
+      ],
+      default: 'json'
+    },
+    {
+      key: 'responseBody',
+      type: 'textarea',
+      label: 'Response Body',
+      description: 'Body of the response; empty responds with the node input (respond mode)',
+      required: false
+    },
     {
       key: 'headers',
       type: 'json',
       label: 'Custom Headers',
-      description: 'Custom HTTP headers to include in the request (JSON format)',
+      description: 'Custom HTTP headers to include in the request or response (JSON format)',
       placeholder: '{"Content-Type": "application/json", "Authorization": "Bearer your-token"}',
       required: false
     },
@@ -90,8 +130,12 @@ const definition = {
     }
   ],
   validation: z.object({
-    url: z.string().url({ message: "Please enter a valid URL" }),
+    mode: z.enum(['request', 'respond']).default('request'),
+    url: z.string().url({ message: "Please enter a valid URL" }).optional(),
     method: z.enum(['POST', 'PUT', 'PATCH']).default('POST'),
+    statusCode: z.number().int().min(100).max(599).default(200),
+    responseType: z.enum(['json', 'text', 'html']).default('json'),
+    responseBody: z.string().optional(),
     headers: z.string().optional().transform(value => {
       try {
         return value ? JSON.parse(value) : {};
@@ -102,6 +146,9 @@ const definition = {
     retryCount: z.number().min(0).max(10).default(3),
     retryDelay: z.number().min(100).max(10000).default(1000),
     timeout: z.number().min(100).max(30000).default(5000)
+  }).refine(settings => settings.mode === 'respond' || !!settings.url, {
+    message: "Please enter a valid URL",
+    path: ['url']
   })
 };
 
@@ -2,20 +2,125 @@
  * Webhook Response Node Executor
  * 
  * This file handles the execution logic for the webhook_response node,
- * which sends data to an external webhook endpoint.
+ * which sends data to an external webhook endpoint ("request" mode) or sets the
+ * HTTP response to the webhook call that started the run ("respond" mode).
+ * In respond mode the node only builds the response; the server sends it once
+ * the run finishes (see handleWebhookRequest).
  */
 
 import { createNodeOutput, createErrorOutput } from '../../nodeOutputUtils';
 import { NodeExecutionData } from '@shared/nodeTypes';
+import { NodeExecutionContext } from '@/lib/types/workflow';
 
 // Define the webhook response node data interface
 interface WebhookResponseNodeData {
+  mode?: 'request' | 'respond';
   url: string;
   method: 'POST' | 'PUT' | 'PATCH';
   headers?: Record<string, string>;
   retryCount: number;
   retryDelay: number;
   timeout: number;
+  statusCode?: number;
+  responseType?: WebhookResponseType;
+  responseBody?: any;
+}
+
+export type WebhookResponseType = 'json' | 'text' | 'html';
+
+/**
+ * The HTTP response a webhook_response node in respond mode sets for the
+ * webhook call that started the run
+ */
+export interface WebhookHttpResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+const CONTENT_TYPES: Record<WebhookResponseType, string> = {
+  json: 'application/json; charset=utf-8',
+  text: 'text/plain; charset=utf-8',
+  html: 'text/html; charset=utf-8'
+};
+
+/**
+ * Read the settings from a webhook_response node's data
+ * Settings saved through the settings drawer are nested under `settings`, and
+ * the drawer saves the headers as a JSON string.
+ */
+export function getWebhookResponseSettings(nodeData: Record<string, any> = {}): WebhookResponseNodeData {
+  const data = { ...nodeData, ...(nodeData.settings || {}) };
+  let headers = data.headers;
+  if (typeof headers === 'string') {
+    try {
+      headers = headers.trim() ? JSON.parse(headers) : {};
+    } catch {
+      throw new Error('Custom headers must be a JSON object');
+    }
+  }
+  return {
+    ...data,
+    mode: data.mode === 'respond' ? 'respond' : 'request',
+    method: data.method || 'POST',
+    headers: headers || {},
+    retryCount: data.retryCount ?? 3,
+    retryDelay: data.retryDelay ?? 1000,
+    timeout: data.timeout ?? 5000
+  };
+}
+
+/**
+ * Build the HTTP response of respond mode
+ * The body defaults to the node's input. JSON bodies given as a string are sent
+ * unchanged when they are valid JSON; other values are serialized.
+ */
+export function createWebhookHttpResponse(settings: WebhookResponseNodeData, inputData: any): WebhookHttpResponse {
+  const statusCode = Math.round(Number(settings.statusCode) || 200);
+  if (statusCode < 100 || statusCode > 599) {
+    throw new Error(`Invalid response status code: ${settings.statusCode}`);
+  }
+
+  const responseType: WebhookResponseType = settings.responseType && CONTENT_TYPES[settings.responseType]
+    ? settings.responseType
+    : 'json';
+  const value = settings.responseBody !== undefined && settings.responseBody !== ''
+    ? settings.responseBody
+    : inputData;
+
+  let body: string;
+  if (responseType === 'json') {
+    let isJsonText = false;
+    if (typeof value === 'string') {
+      try {
+        JSON.parse(value);
+        isJsonText = true;
+      } catch {
+        isJsonText = false;
+      }
+    }
+    body = isJsonText ? value : JSON.stringify(value ?? null);
+  } else {
+    body = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+  }
+
+  // Custom headers may replace the content type of the response type
+  const headers: Record<string, string> = { 'Content-Type': CONTENT_TYPES[responseType] };
+  Object.entries(settings.headers || {}).forEach(([name, headerValue]) => {
+    if (name.toLowerCase() === 'content-type') {
+      delete headers['Content-Type'];
+    }
+    headers[name] = String(headerValue);
+  });
+
+  return { statusCode, headers, body };
+}
+
+/**
+ * The HTTP response a node output sets for the calling webhook, if any
+ */
+export function getWebhookHttpResponse(output?: { meta?: Record<string, any> }): WebhookHttpResponse | undefined {
+  return output?.meta?.webhookResponse;
 }
 
 /**
@@ -24,28 +129,44 @@ interface WebhookResponseNodeData {
  */
 export const execute = async (
   nodeData: WebhookResponseNodeData,
-  inputs: Record<string, NodeExecutionData>
+  inputs: Record<string, NodeExecutionData>,
+  context?: NodeExecutionContext
 ): Promise<any> => {
   const startTime = new Date();
   
   try {
+    const settings = getWebhookResponseSettings(nodeData);
+    
+    // Get input data
+    const inputData = (inputs.input ?? inputs.data)?.items?.[0]?.json || {};
+    
+    if (settings.mode === 'respond') {
+      const response = createWebhookHttpResponse(settings, inputData);
+      return {
+        items: [{ json: response, text: response.body }],
+        meta: {
+          startTime,
+          endTime: new Date(),
+          // Picked up by the workflow runner for the webhook call that started the run
+          webhookResponse: response
+        }
+      };
+    }
+    
     // Validate required fields
-    if (!nodeData.url) {
+    if (!settings.url) {
       throw new Error('Webhook URL is required');
     }
     
-    // Get input data
-    const inputData = inputs.data?.items?.[0]?.json || {};
-    
     // Extract settings
     const {
       url,
       method,
       headers = {},
-      retryCount = 3,
-      retryDelay = 1000,
-      timeout = 5000
-    } = nodeData;
+      retryCount,
+      retryDelay,
+      timeout
+    } = settings;
     
     // Set up request options
     const requestOptions = {
@@ -61,9 +182,11 @@ export const execute = async (
     // Function to make the request with retry logic
     const makeRequestWithRetry = async (attempts: number): Promise<any> => {
       try {
-        // Create AbortController for timeout
+        // Create AbortController for timeout, which also aborts when the run is cancelled
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), timeout);
+        const abortRequest = () => controller.abort();
+        context?.signal?.addEventListener('abort', abortRequest);
         
         // Make the request
         const response = await fetch(url, {
@@ -73,6 +196,7 @@ export const execute = async (
         
         // Clear the timeout
         clearTimeout(timeoutId);
+        context?.signal?.removeEventListener('abort', abortRequest);
         
         // Parse the response
         let responseData;
@@ -89,8 +213,8 @@ export const execute = async (
           headers: Object.fromEntries(response.headers.entries())
         };
       } catch (error: any) {
-        // If we have attempts left, retry after delay
-        if (attempts < retryCount) {
+        // If we have attempts left (and the run was not cancelled), retry after delay
+        if (attempts < retryCount && !context?.signal?.aborted) {
           console.log(`Webhook request failed, retrying in ${retryDelay}ms (${attempts + 1}/${retryCount})`);
           await new Promise(resolve => setTimeout(resolve, retryDelay));
           return makeRequestWithRetry(attempts + 1);
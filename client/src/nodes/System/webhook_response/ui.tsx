@@ -14,6 +14,7 @@ export default function WebhookResponseNode({ id, data }: { id: string, data: an
   const settings = data?.settings || {};
   const url = settings.url || 'No URL configured';
   const method = settings.method || 'POST';
+  const isRespondMode = settings.mode === 'respond';
   
   // Get execution status for conditional display
   const isProcessing = data?.isProcessing;
@@ -28,7 +29,7 @@ export default function WebhookResponseNode({ id, data }: { id: string, data: an
   
   // Get the status badge based on execution state
   const getStatusBadge = () => {
-    if (isProcessing) return <Badge variant="outline" className="bg-blue-500/10 text-blue-500 border-blue-500/20">Sending</Badge>;
+    if (isProcessing) return <Badge variant="outline" className="bg-blue-500/10 text-blue-500 border-blue-500/20">{isRespondMode ? 'Responding' : 'Sending'}</Badge>;
     if (isComplete) return <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/20">Sent</Badge>;
     if (hasError) return <Badge variant="outline" className="bg-red-500/10 text-red-500 border-red-500/20">Failed</Badge>;
     return null;
@@ -42,24 +43,36 @@ export default function WebhookResponseNode({ id, data }: { id: string, data: an
     <div className="p-4 flex flex-col gap-2">
       {/* Title moved to the header in DefaultNode */}
       
-      <div className="bg-muted/80 p-2 rounded-md flex flex-col">
-        <div className="flex items-center justify-between">
-          <Badge variant="outline" className="bg-muted/50">{method}</Badge>
-          <div className="text-xs text-muted-foreground">Destination URL</div>
+      {isRespondMode ? (
+        <div className="bg-muted/80 p-2 rounded-md flex flex-col">
+          <div className="flex items-center justify-between">
+            <Badge variant="outline" className="bg-muted/50">{settings.statusCode || 200}</Badge>
+            <div className="text-xs text-muted-foreground">Respond to webhook</div>
+          </div>
+          <div className="text-xs text-muted-foreground mt-1">
+            {(settings.responseType || 'json').toUpperCase()} body, sent to the caller when the run finishes
+          </div>
         </div>
-        
-        <div 
-          onClick={openUrl}
-          className="text-xs font-mono mt-1 truncate hover:text-primary cursor-pointer flex items-center"
-          title={url}
-        >
-          {displayUrl}
-          <ExternalLink className="h-3 w-3 ml-1 inline" />
+      ) : (
+        <div className="bg-muted/80 p-2 rounded-md flex flex-col">
+          <div className="flex items-center justify-between">
+            <Badge variant="outline" className="bg-muted/50">{method}</Badge>
+            <div className="text-xs text-muted-foreground">Destination URL</div>
+          </div>
+          
+          <div 
+            onClick={openUrl}
+            className="text-xs font-mono mt-1 truncate hover:text-primary cursor-pointer flex items-center"
+            title={url}
+          >
+            {displayUrl}
+            <ExternalLink className="h-3 w-3 ml-1 inline" />
+          </div>
         </div>
-      </div>
+      )}
       
       {/* Display retry and timeout settings if configured */}
-      {(settings.retryCount > 0 || settings.timeout) && (
+      {!isRespondMode && (settings.retryCount > 0 || settings.timeout) && (
         <div className="text-xs text-muted-foreground mt-1 flex flex-wrap gap-2">
           {settings.retryCount > 0 && (
             <span>Retries: {settings.retryCount}</span>
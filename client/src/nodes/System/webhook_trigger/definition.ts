@@ -56,10 +56,55 @@ const definition = {
       options: [
         { label: 'None', value: 'none' },
         { label: 'API Key', value: 'apiKey' },
-        { label: 'Bearer Token', value: 'bearer' }
+        { label: 'Bearer Token', value: 'bearer' },
+        { label: 'HMAC Signature', value: 'hmac' }
       ],
       default: 'none'
     },
+    {
+      key: 'signatureHeader',
+      type: 'string',
+      label: 'Signature Header',
+      description: 'Request header with the HMAC signature of the raw body (HMAC Signature only)',
+      placeholder: 'X-Hub-Signature-256',
+      default: 'X-Signature'
+    },
+    {
+      key: 'signatureAlgorithm',
+      type: 'select',
+      label: 'Signature Algorithm',
+      description: 'Hash function of the HMAC',
+      options: [
+        { label: 'SHA-256', value: 'sha256' },
+        { label: 'SHA-1', value: 'sha1' }
+      ],
+      default: 'sha256'
+    },
+    {
+      key: 'signatureEncoding',
+      type: 'select',
+      label: 'Signature Encoding',
+      description: 'How the signature is encoded in the header',
+      options: [
+        { label: 'Hex', value: 'hex' },
+        { label: 'Base64', value: 'base64' }
+      ],
+      default: 'hex'
+    },
+    {
+      key: 'timestampHeader',
+      type: 'string',
+      label: 'Timestamp Header',
+      description: 'Request header with the signing time in Unix seconds, signed as "<timestamp>.<body>" (optional)',
+      required: false
+    },
+    {
+      key: 'timestampTolerance',
+      type: 'number',
+      label: 'Timestamp Tolerance (seconds)',
+      description: 'Reject calls signed longer ago than this to block replays (0 = off)',
+      default: 0
+    },
     {
       key: 'methods',
       type: 'multiselect',
@@ -77,8 +122,13 @@ const definition = {
   validation: z.object({
     path: z.string().optional(),
     secret: z.string().optional(),
-    authType: z.enum(['none', 'apiKey', 'bearer']).default('none'),
-    methods: z.array(z.enum(['GET', 'POST', 'PUT', 'DELETE'])).default(['POST'])
+    authType: z.enum(['none', 'apiKey', 'bearer', 'hmac']).default('none'),
+    methods: z.array(z.enum(['GET', 'POST', 'PUT', 'DELETE'])).default(['POST']),
+    signatureHeader: z.string().default('X-Signature'),
+    signatureAlgorithm: z.enum(['sha1', 'sha256']).default('sha256'),
+    signatureEncoding: z.enum(['hex', 'base64']).default('hex'),
+    timestampHeader: z.string().optional(),
+    timestampTolerance: z.number().min(0).default(0)
   })
 };
 
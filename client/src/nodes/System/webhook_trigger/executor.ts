@@ -12,12 +12,72 @@ import { createNodeOutput, createErrorOutput } from '../../nodeOutputUtils';
 interface WebhookTriggerNodeData {
   path?: string;
   secret?: string;
-  authType: 'none' | 'apiKey' | 'bearer';
+  authType: 'none' | 'apiKey' | 'bearer' | 'hmac';
   methods: string[];
+  signatureHeader?: string;
+  signatureAlgorithm?: 'sha1' | 'sha256';
+  signatureEncoding?: 'hex' | 'base64';
+  timestampHeader?: string;
+  timestampTolerance?: number;
   workflowId?: number;
   nodeId?: string;
 }
 
+export type WebhookAuthType = WebhookTriggerNodeData['authType'];
+
+/**
+ * How an "hmac" webhook trigger verifies the signature of a call
+ */
+export interface WebhookSignatureSettings {
+  // The request header carrying the signature
+  header: string;
+  algorithm: 'sha1' | 'sha256';
+  encoding: 'hex' | 'base64';
+  // The request header carrying the signing time (Unix seconds), if the provider sends one
+  timestampHeader?: string;
+  // Maximum age of a call in seconds; 0 accepts calls of any age
+  tolerance: number;
+}
+
+/**
+ * How the server accepts calls to a webhook trigger
+ */
+export interface WebhookTriggerSettings {
+  path?: string;
+  secret?: string;
+  authType: WebhookAuthType;
+  methods: string[];
+  signature: WebhookSignatureSettings;
+}
+
+export const DEFAULT_SIGNATURE_HEADER = 'X-Signature';
+
+const AUTH_TYPES: WebhookAuthType[] = ['none', 'apiKey', 'bearer', 'hmac'];
+
+/**
+ * Read the webhook settings from a webhook_trigger node's data
+ * Settings saved through the settings drawer are nested under `settings`.
+ */
+export function getWebhookTriggerSettings(nodeData: Record<string, any> = {}): WebhookTriggerSettings {
+  const data = { ...nodeData, ...(nodeData.settings || {}) };
+  const methods: string[] = Array.isArray(data.methods)
+    ? data.methods.map((method: string) => String(method).toUpperCase())
+    : [];
+  return {
+    path: data.path || undefined,
+    secret: data.secret || undefined,
+    authType: AUTH_TYPES.includes(data.authType) ? data.authType : 'none',
+    methods: methods.length > 0 ? methods : ['POST'],
+    signature: {
+      header: data.signatureHeader || DEFAULT_SIGNATURE_HEADER,
+      algorithm: data.signatureAlgorithm === 'sha1' ? 'sha1' : 'sha256',
+      encoding: data.signatureEncoding === 'base64' ? 'base64' : 'hex',
+      timestampHeader: data.timestampHeader || undefined,
+      tolerance: Math.max(0, Number(data.timestampTolerance) || 0)
+    }
+  };
+}
+
 /**
  * Execute function for the webhook trigger node
  * In practice, this node is not directly executed during workflow execution,
@@ -9,6 +9,7 @@ import { Globe, Link } from 'lucide-react';
 import DefaultNode from '../../Default/ui';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getWebhookTriggerSettings } from './executor';
 
 export default function WebhookTriggerNode({ id, data }: { id: string, data: any }) {
   const [webhookUrl, setWebhookUrl] = useState<string>('');
@@ -39,10 +40,16 @@ export default function WebhookTriggerNode({ id, data }: { id: string, data: any
     });
   };
   
-  // Get the allowed methods as a string
-  const allowedMethods = data?.settings?.methods 
-    ? data.settings.methods.join(', ') 
-    : 'POST';
+  // Get the allowed methods and authentication the server enforces
+  const settings = getWebhookTriggerSettings(data);
+  const allowedMethods = settings.methods.join(', ');
+  const authLabel = settings.authType === 'apiKey'
+    ? 'X-API-Key header'
+    : settings.authType === 'bearer'
+      ? 'Bearer token'
+      : settings.authType === 'hmac'
+        ? `HMAC ${settings.signature.algorithm.toUpperCase()} in ${settings.signature.header}`
+        : 'None';
   
   // Node content with webhook URL display
   const nodeContent = (
@@ -70,6 +77,12 @@ export default function WebhookTriggerNode({ id, data }: { id: string, data: any
         <div className="text-xs text-muted-foreground mt-1">
           Allowed methods: <span className="font-semibold">{allowedMethods}</span>
         </div>
+        <div className="text-xs text-muted-foreground">
+          Authentication: <span className="font-semibold">{authLabel}</span>
+          {settings.authType !== 'none' && !settings.secret && (
+            <span className="text-red-500"> (no secret set, all calls are rejected)</span>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,74 @@
+/**
+ * Node Executor Index
+ *
+ * Static map of every folder-based node executor, keyed by node type.
+ * This module only imports executor.ts files (no UI components or icons),
+ * so it can be loaded by the server as well as the browser. Both sides
+ * register these executors with the enhanced workflow engine, which keeps
+ * headless runs and canvas runs on the same code path.
+ *
+ * When adding a new node folder, add its executor here as well.
+ */
+
+import * as approval from './System/approval/executor';
+import * as claude from './System/claude/executor';
+import * as csvProcessor from './System/csv_processor/executor';
+import * as dataTransform from './System/data_transform/executor';
+import * as decision from './System/decision/executor';
+import * as executeWorkflow from './System/execute_workflow/executor';
+import * as functionNode from './System/function_node/executor';
+import * as httpRequest from './System/http_request/executor';
+import * as jsonParser from './System/json_parser/executor';
+import * as jsonPath from './System/json_path/executor';
+import * as jsonSchemaValidator from './System/json_schema_validator/executor';
+import * as loop from './System/loop/executor';
+import * as markdownRenderer from './System/markdown_renderer/executor';
+import * as numberInput from './System/number_input/executor';
+import * as perplexityApi from './System/perplexity_api/executor';
+import * as scheduleTrigger from './System/schedule_trigger/executor';
+import * as switchNode from './System/switch/executor';
+import * as textFormatter from './System/text_formatter/executor';
+import * as textInput from './System/text_input/executor';
+import * as textTemplate from './System/text_template/executor';
+import * as toggleSwitch from './System/toggle_switch/executor';
+import * as webhookResponse from './System/webhook_response/executor';
+import * as webhookTrigger from './System/webhook_trigger/executor';
+import { NodeExecutionContext } from '../lib/types/workflow';
+
+/**
+ * Shape of a folder-based executor module
+ */
+export interface NodeExecutorModule {
+  execute: (nodeData: any, inputs?: any, context?: NodeExecutionContext) => Promise<any>;
+  defaultData?: Record<string, any>;
+  itemMode?: 'each' | 'batch';
+}
+
+/**
+ * All folder-based node executors, keyed by node type
+ */
+export const nodeExecutors: Record<string, NodeExecutorModule> = {
+  approval,
+  claude,
+  csv_processor: csvProcessor,
+  data_transform: dataTransform,
+  decision,
+  execute_workflow: executeWorkflow,
+  function_node: functionNode,
+  http_request: httpRequest,
+  json_parser: jsonParser,
+  json_path: jsonPath,
+  json_schema_validator: jsonSchemaValidator,
+  loop,
+  markdown_renderer: markdownRenderer,
+  number_input: numberInput,
+  perplexity_api: perplexityApi,
+  schedule_trigger: scheduleTrigger,
+  switch: switchNode,
+  text_formatter: textFormatter,
+  text_input: textInput,
+  text_template: textTemplate,
+  toggle_switch: toggleSwitch,
+  webhook_response: webhookResponse,
+  webhook_trigger: webhookTrigger
+};
@@ -67,6 +67,9 @@ export function getAllNodes(): any[] {
     'text_template',
     'data_transform',
     'decision',
+    'switch',
+    'loop',
+    'execute_workflow',
     'function',
     'json_path',
     'text_formatter',
@@ -105,7 +108,7 @@ function getCategoryForNodeType(type: string): string {
   }
   
   // Action/integration nodes, including former trigger nodes
-  if (['http_request', 'decision', 'webhook_trigger', 'agent_trigger', 'workflow_trigger'].includes(type)) {
+  if (['http_request', 'decision', 'switch', 'approval', 'loop', 'execute_workflow', 'webhook_trigger', 'schedule_trigger', 'agent_trigger', 'workflow_trigger'].includes(type)) {
     return 'actions';
   }
   
@@ -129,6 +132,10 @@ function getIconForNodeType(type: string): string {
     'text_template': 'file-text',
     'data_transform': 'repeat',
     'decision': 'git-branch',
+    'switch': 'git-fork',
+    'approval': 'user-check',
+    'loop': 'repeat',
+    'execute_workflow': 'workflow',
     'function': 'code',
     'json_path': 'filter',
     'text_formatter': 'text',
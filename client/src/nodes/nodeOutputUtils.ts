@@ -67,4 +67,60 @@ export function createErrorOutput(
       source
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Creates an error output for a routing node (e.g. decision or switch)
+ * The engine sends it out of none of the node's ports, so no branch runs.
+ */
+export function createRoutingErrorOutput(
+  errorMessage: string,
+  source: string = 'unknown'
+): NodeExecutionData {
+  const output = createErrorOutput(errorMessage, source);
+  return { ...output, meta: { ...output.meta, routed: true } };
+}
+
+/**
+ * Checks whether a value is standardized node execution data
+ */
+export function isNodeExecutionData(value: any): value is NodeExecutionData {
+  return !!value && typeof value === 'object' && Array.isArray(value.items) && !!value.meta;
+}
+
+/**
+ * Gets the value carried by an input port
+ * 
+ * The workflow engine delivers each connected port as NodeExecutionData.
+ * A single item resolves to its json, several items to an array of json values.
+ * Raw values (e.g. when an executor is called directly) are returned unchanged.
+ */
+export function getInputValue(input: any): any {
+  if (!isNodeExecutionData(input)) {
+    return input;
+  }
+  if (input.items.length === 0) {
+    return undefined;
+  }
+  return input.items.length === 1
+    ? input.items[0].json
+    : input.items.map(item => item.json);
+}
+
+/**
+ * Gets the text carried by an input port
+ */
+export function getInputText(input: any): string | undefined {
+  const value = isNodeExecutionData(input)
+    ? input.items[0]?.text ?? getInputValue(input)
+    : input;
+  
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object') {
+    if (typeof value.text === 'string') return value.text;
+    if (typeof value.content === 'string') return value.content;
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
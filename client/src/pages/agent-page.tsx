@@ -21,9 +21,10 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
-import type { Agent, Log as BaseLog, Workflow } from '@shared/schema';
+import type { Agent, Approval, Log as BaseLog, Workflow } from '@shared/schema';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import PendingApprovals from '@/components/agents/PendingApprovals';
 
 // Extended Log type with proper typing for executionPath
 interface ExecutionPath {
@@ -70,7 +71,17 @@ const AgentPage = () => {
     queryFn: async () => {
       return apiRequest<Workflow[]>('GET', `/api/agents/${agentId}/workflows`);
     },
-    enabled: !isNaN(agentId) && activeTab === 'workflows'
+    enabled: !isNaN(agentId) && (activeTab === 'workflows' || activeTab === 'approvals')
+  });
+
+  // Count pending approvals for the tab badge
+  const { data: pendingApprovals } = useQuery({
+    queryKey: ['/api/approvals', agentId, 'pending'],
+    queryFn: async () => {
+      return apiRequest<Approval[]>('GET', `/api/approvals?agentId=${agentId}&status=pending`);
+    },
+    enabled: !isNaN(agentId),
+    refetchInterval: 10000
   });
 
   // Fetch agent logs
@@ -212,11 +223,17 @@ const AgentPage = () => {
           </CardContent>
         </Card>
         
-        {/* Tabs for Workflows and Logs */}
+        {/* Tabs for Workflows, Logs and Approvals */}
         <Tabs defaultValue="workflows" value={activeTab} onValueChange={setActiveTab}>
           <TabsList className="mb-4">
             <TabsTrigger value="workflows">Workflows</TabsTrigger>
             <TabsTrigger value="logs">Execution Logs</TabsTrigger>
+            <TabsTrigger value="approvals">
+              Approvals
+              {pendingApprovals && pendingApprovals.length > 0 && (
+                <Badge variant="destructive" className="ml-2 px-1.5 py-0 text-xs">{pendingApprovals.length}</Badge>
+              )}
+            </TabsTrigger>
           </TabsList>
           
           {/* Workflows Tab */}
@@ -284,6 +301,11 @@ const AgentPage = () => {
             </Card>
           </TabsContent>
           
+          {/* Approvals Tab */}
+          <TabsContent value="approvals">
+            <PendingApprovals agentId={agentId} workflows={workflows} />
+          </TabsContent>
+          
           {/* Logs Tab */}
           <TabsContent value="logs">
             <Card>
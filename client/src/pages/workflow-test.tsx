@@ -7,7 +7,7 @@
  */
 "use client";
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useParams, useLocation, Link } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -15,18 +15,20 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
-import { executeWorkflow, loadWorkflow } from '@/lib/workflowClient';
+import { executeWorkflow, executeWorkflowOnServer, loadWorkflow } from '@/lib/workflowClient';
+import { createWorkflowDebugger, WorkflowDebugger } from '@/lib/workflowDebugger';
 import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { NodeState, WorkflowExecutionState } from '@/lib/types/workflow';
+import { NodeExecutionData, NodeState, WorkflowDebugCommand, WorkflowDebugPause, WorkflowExecutionState } from '@/lib/types/workflow';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { registerAllEnhancedNodeExecutors } from '@/lib/enhancedWorkflowEngine';
-import { ChevronLeft, Play, Download, Upload, Copy, Check, RefreshCw } from 'lucide-react';
+import { ChevronLeft, Play, Download, Upload, Copy, Check, RefreshCw, Square, StepForward, FastForward } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { workflowEnvironmentSchema, WorkflowEnvironment } from '@shared/schema';
 
 // Simplified content wrapper without header and sidebar for test page
 const TestContent = ({ children }: { children: React.ReactNode }) => {
@@ -84,6 +86,17 @@ export default function WorkflowTestBench() {
   const [inputTab, setInputTab] = useState<string>('json');
   const [skipLogging, setSkipLogging] = useState<boolean>(false);
   const [debugMode, setDebugMode] = useState<boolean>(false);
+  const [runOnServer, setRunOnServer] = useState<boolean>(false);
+  const [environment, setEnvironment] = useState<WorkflowEnvironment>('dev');
+  const serverRunController = useRef<AbortController | null>(null);
+  // Step-through debugging (in debug mode): breakpoints, and the pause the run is stopped at
+  const [breakpoints, setBreakpoints] = useState<string[]>([]);
+  const [pauseAtStart, setPauseAtStart] = useState<boolean>(false);
+  const [debugPause, setDebugPause] = useState<{
+    pause: WorkflowDebugPause;
+    resume: (command: WorkflowDebugCommand) => Promise<void> | void;
+  } | null>(null);
+  const clientDebugger = useRef<WorkflowDebugger | null>(null);
   const [selectedTemplate, setSelectedTemplate] = useState<string>('default');
   const [isCopied, setIsCopied] = useState<boolean>(false);
 
@@ -172,6 +185,7 @@ export default function WorkflowTestBench() {
       setExecutionResult(null);
       setNodeStates({});
       setExecutionLogs([]);
+      setDebugPause(null);
 
       // Parse input data based on the selected input tab
       let parsedInput: any;
@@ -192,6 +206,61 @@ export default function WorkflowTestBench() {
       // Add log entry
       addExecutionLog(`Executing workflow ${workflowId} with input: ${typeof parsedInput === 'string' ? parsedInput : JSON.stringify(parsedInput, null, 2)}`);
 
+      // Server runs stream their progress over WebSocket
+      if (runOnServer) {
+        serverRunController.current = new AbortController();
+        const result = await executeWorkflowOnServer(parseInt(workflowId), parsedInput, {
+          signal: serverRunController.current.signal,
+          environment,
+          debug: debugMode
+            ? {
+                breakpoints,
+                stepMode: pauseAtStart,
+                onPause: (pause, resume) => {
+                  addExecutionLog(`Paused before node ${pause.nodeId} (${pause.reason})`);
+                  setDebugPause({ pause, resume });
+                }
+              }
+            : undefined,
+          onRunEvent: (event) => {
+            if (event.type === 'run_started') {
+              addExecutionLog(`Server run ${event.runId} started (log ${event.logId})`);
+            }
+            if (event.type === 'run_resumed' || event.type === 'run_finished') {
+              setDebugPause(null);
+            }
+          },
+          onNodeStateChange: (nodeId, state) => {
+            addExecutionLog(`Node ${nodeId} [${state.status}]: ${state.error || state.message || ''}`);
+            setNodeStates(prev => ({
+              ...prev,
+              [nodeId]: state
+            }));
+          },
+          onWorkflowComplete: (finalState) => {
+            addExecutionLog(`Server run finished with status: ${finalState.status}`);
+            if (finalState.error) {
+              addExecutionLog(`Error: ${finalState.error}`);
+            }
+          }
+        });
+        setExecutionResult(result);
+        return;
+      }
+
+      // Canvas runs in debug mode pause at breakpoints in this page
+      clientDebugger.current = debugMode
+        ? createWorkflowDebugger({
+            breakpoints,
+            stepMode: pauseAtStart,
+            onPause: (pause) => {
+              addExecutionLog(`Paused before node ${pause.nodeId} (${pause.reason})`);
+              setDebugPause({ pause, resume: (command) => { clientDebugger.current?.resume(command); } });
+            },
+            onResume: () => setDebugPause(null)
+          })
+        : null;
+
       const result = await executeWorkflow(
         parseInt(workflowId), 
         parsedInput,
@@ -214,7 +283,9 @@ export default function WorkflowTestBench() {
             test_execution: true,
             debug_mode: debugMode
           },
-          logToServer: !skipLogging
+          logToServer: !skipLogging,
+          debugger: clientDebugger.current || undefined,
+          environment
         }
       );
 
@@ -224,10 +295,49 @@ export default function WorkflowTestBench() {
       setError(`Failed to execute workflow: ${err.message || 'Unknown error'}`);
       addExecutionLog(`Execution error: ${err.message || 'Unknown error'}`);
     } finally {
+      serverRunController.current = null;
+      clientDebugger.current = null;
+      setDebugPause(null);
       setIsExecuting(false);
     }
   };
 
+  const handleCancelServerRun = () => {
+    if (serverRunController.current) {
+      addExecutionLog('Cancelling server run...');
+      serverRunController.current.abort();
+    }
+  };
+
+  const handleDebugCommand = async (command: WorkflowDebugCommand) => {
+    if (!debugPause) return;
+    addExecutionLog(`Debugger: ${command}`);
+    try {
+      await debugPause.resume(command);
+    } catch (err: any) {
+      addExecutionLog(`Debugger command failed: ${err.message || 'Unknown error'}`);
+    }
+  };
+
+  const toggleBreakpoint = (nodeId: string, enabled: boolean) => {
+    const next = enabled
+      ? [...breakpoints, nodeId]
+      : breakpoints.filter(id => id !== nodeId);
+    setBreakpoints(next);
+    // Breakpoints of a canvas run can change while it is paused
+    clientDebugger.current?.setBreakpoints(next);
+  };
+
+  // Values of node execution data, keyed by port or node ID, for display
+  const getDebugValues = (data: Record<string, NodeExecutionData>) => {
+    const values: Record<string, any> = {};
+    Object.entries(data).forEach(([key, value]) => {
+      const items = value?.items || [];
+      values[key] = items.length === 1 ? items[0].json : items.map(item => item.json);
+    });
+    return values;
+  };
+
   const addExecutionLog = (message: string) => {
     setExecutionLogs(prev => [...prev, `[${new Date().toISOString()}] ${message}`]);
   };
@@ -238,6 +348,8 @@ export default function WorkflowTestBench() {
       case 'error': return 'text-red-500';
       case 'running': return 'text-blue-500';
       case 'waiting': return 'text-gray-500';
+      case 'skipped': return 'text-gray-400';
+      case 'cancelled': return 'text-orange-500';
       default: return 'text-gray-500';
     }
   };
@@ -501,6 +613,14 @@ export default function WorkflowTestBench() {
                   />
                   <Label htmlFor="debug-mode">Debug mode</Label>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox 
+                    id="run-on-server" 
+                    checked={runOnServer} 
+                    onCheckedChange={(checked) => setRunOnServer(!!checked)}
+                  />
+                  <Label htmlFor="run-on-server">Run on server</Label>
+                </div>
               </CardFooter>
             </Card>
 
@@ -510,6 +630,19 @@ export default function WorkflowTestBench() {
                 <CardDescription>Run the workflow and view results</CardDescription>
               </CardHeader>
               <CardContent>
+                <div className="flex items-center justify-between mb-4">
+                  <Label>Environment</Label>
+                  <Select value={environment} onValueChange={(value) => setEnvironment(value as WorkflowEnvironment)}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workflowEnvironmentSchema.options.map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 <Button 
                   onClick={handleExecuteWorkflow}
                   disabled={isExecuting || !workflowData}
@@ -527,6 +660,49 @@ export default function WorkflowTestBench() {
                     </>
                   )}
                 </Button>
+                {isExecuting && runOnServer && (
+                  <Button 
+                    onClick={handleCancelServerRun}
+                    variant="outline"
+                    className="w-full mt-2"
+                  >
+                    <Square className="h-4 w-4 mr-2" />
+                    Cancel Run
+                  </Button>
+                )}
+                
+                {debugMode && workflowData?.flowData?.nodes?.length > 0 && (
+                  <div className="mt-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-semibold">Breakpoints</h3>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox 
+                          id="pause-at-start" 
+                          checked={pauseAtStart} 
+                          disabled={isExecuting}
+                          onCheckedChange={(checked) => setPauseAtStart(!!checked)}
+                        />
+                        <Label htmlFor="pause-at-start">Pause before first node</Label>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-1 max-h-[150px] overflow-auto">
+                      {workflowData.flowData.nodes.map((node: any) => (
+                        <div key={node.id} className="flex items-center space-x-2">
+                          <Checkbox 
+                            id={`breakpoint-${node.id}`} 
+                            checked={breakpoints.includes(node.id)} 
+                            disabled={isExecuting && runOnServer}
+                            onCheckedChange={(checked) => toggleBreakpoint(node.id, !!checked)}
+                          />
+                          <Label htmlFor={`breakpoint-${node.id}`} className="text-sm truncate">
+                            {node.data?.label || node.id}
+                            <span className="ml-1 text-xs text-gray-500">({node.type})</span>
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 
                 {executionResult && (
                   <div className="mt-4">
@@ -595,6 +771,55 @@ export default function WorkflowTestBench() {
             </Card>
           </div>
 
+          {debugPause && (
+            <Card className="mb-4 border-orange-300">
+              <CardHeader>
+                <CardTitle>
+                  Paused before {debugPause.pause.nodeId}
+                  <span className="ml-2 text-sm font-normal text-gray-500">({debugPause.pause.nodeType})</span>
+                </CardTitle>
+                <CardDescription>
+                  {debugPause.pause.reason === 'breakpoint' ? 'Stopped at a breakpoint' : 'Stepping'}
+                  {runOnServer ? ' on the server; values are previews' : ''}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex space-x-2 mb-4">
+                  <Button onClick={() => handleDebugCommand('step')}>
+                    <StepForward className="h-4 w-4 mr-2" />
+                    Step
+                  </Button>
+                  <Button variant="outline" onClick={() => handleDebugCommand('continue')}>
+                    <FastForward className="h-4 w-4 mr-2" />
+                    Continue
+                  </Button>
+                  <Button variant="destructive" onClick={() => handleDebugCommand('abort')}>
+                    <Square className="h-4 w-4 mr-2" />
+                    Abort
+                  </Button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <h4 className="font-semibold">Inputs:</h4>
+                    <div className="bg-gray-100 p-2 rounded-md mt-1 max-h-[300px] overflow-auto">
+                      <pre className="text-xs whitespace-pre-wrap">
+                        {JSON.stringify(getDebugValues(debugPause.pause.inputs), null, 2)}
+                      </pre>
+                    </div>
+                  </div>
+                  <div>
+                    <h4 className="font-semibold">Outputs so far:</h4>
+                    <div className="bg-gray-100 p-2 rounded-md mt-1 max-h-[300px] overflow-auto">
+                      <pre className="text-xs whitespace-pre-wrap">
+                        {JSON.stringify(getDebugValues(debugPause.pause.outputs), null, 2)}
+                      </pre>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <div className="grid grid-cols-1 gap-4">
             <Card>
               <CardHeader>
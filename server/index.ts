@@ -4,10 +4,16 @@ import { setupVite, serveStatic, log } from "./vite";
 import session from 'express-session';
 import { sessionOptions } from './session';
 import { storage } from "./storage";
+import { startScheduler } from "./services/scheduler";
+import { startRunQueue } from "./services/runQueue";
+import { keepWebhookRawBody, WEBHOOK_PATH_PREFIX } from "./services/webhooks";
 
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+// Webhook requests also keep their raw body, for signature verification;
+// webhook bodies of other content types arrive as text
+app.use(express.json({ verify: keepWebhookRawBody }));
+app.use(express.urlencoded({ extended: false, verify: keepWebhookRawBody }));
+app.use(WEBHOOK_PATH_PREFIX, express.text({ type: () => true, verify: keepWebhookRawBody }));
 
 // Initialize session middleware
 app.use(session(sessionOptions));
@@ -49,6 +55,11 @@ app.use((req, res, next) => {
     // Set up routes
     server = await registerRoutes(app);
     
+    // Pick up queued runs (including those interrupted by a restart), then
+    // run workflows with schedule triggers on their schedules
+    startRunQueue().catch(error => log(`Error starting run queue: ${error}`));
+    startScheduler().catch(error => log(`Error starting scheduler: ${error}`));
+    
     // Setup error handler
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
       const status = err.status || err.statusCode || 500;
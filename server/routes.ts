@@ -4,7 +4,19 @@
 import { Express, NextFunction, Request, Response } from "express";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
-import { Agent, InsertAgent, InsertLog, InsertWorkflow, Log, Node, Workflow } from "@shared/schema";
+import {
+  Agent,
+  approvalStatusSchema,
+  InsertAgent,
+  InsertLog,
+  InsertWorkflow,
+  Log,
+  Node,
+  Workflow,
+  queuedRunStatusSchema,
+  workflowEnvironmentSchema,
+  workflowVariablesSchema
+} from "@shared/schema";
 import { storage } from "./storage";
 import { createServer } from "http";
 import { WebSocketServer, WebSocket } from "ws";
@@ -16,348 +28,20 @@ import { log } from "./vite";
 import { workflowGenerationService } from "./services/workflowGenerationService";
 import { createAgentCoordinator } from "./services/agentCoordinator";
 import { registerAllTools } from "./tools/implementations";
-
-/**
- * Utility function to execute a workflow
- * This is exported for use in tools and other modules
- */
-export async function runWorkflow(
-  workflowId: number,
-  input: any,
-  options: { 
-    includeDetail?: boolean, 
-    debug?: boolean, 
-    executionMode?: string 
-  } = {}
-): Promise<any> {
-  
-  // Default options
-  const { includeDetail = false, debug = false, executionMode = "step" } = options;
-  
-  // Get workflow
-  const workflow = await storage.getWorkflow(workflowId);
-  if (!workflow) {
-    throw new Error("Workflow not found");
-  }
-  
-  // Parse the flow data (could be string or already parsed)
-  let flowData: { nodes: any[], edges: any[] };
-  try {
-    if (typeof workflow.flowData === 'string') {
-      flowData = JSON.parse(workflow.flowData);
-    } else {
-      flowData = workflow.flowData as any;
-    }
-  } catch (error) {
-    console.error(`Error parsing workflow data for workflow ${workflowId}:`, error);
-    throw new Error("Invalid workflow data structure");
-  }
-  
-  // Ensure we have nodes and edges
-  if (!Array.isArray(flowData.nodes) || !Array.isArray(flowData.edges)) {
-    throw new Error("Workflow missing nodes or edges");
-  }
-  
-  // Identify input and output nodes
-  let inputNodes = flowData.nodes.filter((node: any) => node.type?.includes('input') || node.data?.category === 'input');
-  let outputNodes = flowData.nodes.filter((node: any) => node.type?.includes('output') || node.data?.category === 'output');
-  
-  // Starting with input nodes, execute each node in the workflow
-  const nodeOutputs: Record<string, any> = {};
-  const nodeExecutionOrder: string[] = [];
-  const nodeExecutionTimes: Record<string, { start: number, end: number }> = {};
-  
-  // Include the user input for all input nodes
-  inputNodes.forEach((node: any) => {
-    if (node && node.id) {
-      nodeOutputs[node.id] = { output: input };
-      
-      // Record execution
-      nodeExecutionOrder.push(node.id);
-      nodeExecutionTimes[node.id] = { 
-        start: Date.now(), 
-        end: Date.now() 
-      };
-    }
-  });
-  
-  // Create a log entry for this workflow execution
-  const logEntry: InsertLog = {
-    agentId: workflow.agentId || 1, // Default to agent 1 if null
-    workflowId: workflowId,
-    status: "running",
-    input: input,
-    output: {}, // Initialize with empty object
-    executionPath: {
-      execution_type: "workflow_execution", 
-      source: "workflow_engine",
-      message: `Starting workflow execution: ${workflow.name}`,
-      status: "in_progress"
-    }
-  };
-  const executionLog = await storage.createLog(logEntry);
-  
-  // Start executing the workflow
-  console.log(`Executing workflow ${workflowId}: ${workflow.name}`);
-  
-  try {
-    // Implement basic execution, but preferably use an existing solution:
-    
-    // 1. Identify the nodes that need to be executed next
-    // For now, just execute nodes in order they appear in edges
-    
-    if (flowData.nodes.length === 0) {
-      const result = {
-        output: "Workflow is empty (no nodes to execute)",
-        nodeOutputs: {},
-        executionDetails: {
-          workflowId,
-          executionTime: 0,
-          nodeCount: 0,
-          executionOrder: [],
-          status: "completed",
-          logId: executionLog.id,
-        }
-      };
-      
-      // Update the log entry
-      // Get the current executionPath or create an empty object if it doesn't exist
-      const currentExecutionPath = executionLog.executionPath || {};
-      
-      await storage.updateLog(executionLog.id, {
-        status: "completed",
-        output: typeof result.output === 'string' ? { result: result.output } : result.output,
-        completedAt: new Date(),
-        executionPath: {
-          ...currentExecutionPath,
-          message: `Workflow execution completed: ${workflow.name}`,
-          status: "completed"
-        }
-      });
-      
-      return result;
-    }
-    
-    // Start a timer for overall execution
-    const executionStartTime = Date.now();
-    
-    // Process each node based on the edges
-    // This is a simplified execution algorithm that processes nodes in topological order
-    const nodeMap = Object.fromEntries(flowData.nodes.map((node: any) => [node.id, node]));
-    
-    // Find root nodes (no incoming edges) that aren't input nodes
-    const nonInputNodes = flowData.nodes.filter((node: any) => !inputNodes.includes(node));
-    const edgesTo = Object.fromEntries(flowData.edges.map((edge: any) => [edge.target, edge]));
-    
-    // Process nodes with dependencies satisfied
-    let nodeQueue = [...nonInputNodes].filter((node: any) => {
-      const hasIncomingEdges = flowData.edges.some((edge: any) => edge.target === node.id);
-      if (!hasIncomingEdges) return true;
-      
-      // If it has incoming edges, check if they're all from input nodes that we've already processed
-      const incomingEdges = flowData.edges.filter((edge: any) => edge.target === node.id);
-      return incomingEdges.every((edge: any) => nodeOutputs[edge.source] !== undefined);
-    });
-    
-    // For debug mode, include more details in logs
-    if (debug) {
-      console.log("Execution mode:", executionMode);
-      console.log("Input nodes:", inputNodes.map((n: any) => n.id));
-      console.log("Output nodes:", outputNodes.map((n: any) => n.id));
-      console.log("Initial nodeQueue:", nodeQueue.map((n: any) => n.id));
-      console.log("Edges:", flowData.edges);
-    }
-    
-    // Simple execution for now
-    const processedNodes = new Set<string>(inputNodes.map((n: any) => n.id));
-    const maxIterations = 100; // Safety to prevent infinite loops
-    let iterationCount = 0;
-    
-    // Process nodes until none remain or we hit max iterations
-    while (nodeQueue.length > 0 && iterationCount < maxIterations) {
-      iterationCount++;
-      
-      // Process the current node
-      const currentNode = nodeQueue.shift();
-      if (!currentNode || !currentNode.id || processedNodes.has(currentNode.id)) continue;
-      
-      // Get the input for this node from its incoming edges
-      const nodeInputs: Record<string, any> = {};
-      const incomingEdges = flowData.edges.filter((edge: any) => edge.target === currentNode.id);
-      
-      // If some input nodes don't have outputs yet, put this node back in queue
-      const allInputsReady = incomingEdges.every((edge: any) => nodeOutputs[edge.source] !== undefined);
-      if (!allInputsReady) {
-        nodeQueue.push(currentNode);
-        continue;
-      }
-      
-      // Get inputs from incoming edges
-      incomingEdges.forEach((edge: any) => {
-        const sourceNode = nodeMap[edge.source];
-        const sourceOutput = nodeOutputs[edge.source];
-        
-        if (sourceNode && sourceOutput) {
-          nodeInputs[edge.source] = sourceOutput;
-        }
-      });
-      
-      // Record execution start
-      nodeExecutionOrder.push(currentNode.id);
-      nodeExecutionTimes[currentNode.id] = { 
-        start: Date.now(), 
-        end: 0 // Will be updated after execution
-      };
-      
-      try {
-        if (debug) {
-          console.log(`Executing node: ${currentNode.id}`, currentNode);
-          console.log(`Node inputs:`, nodeInputs);
-        }
-        
-        // Extract node information
-        const nodeType = currentNode.type || currentNode.data?.type || "unknown";
-        const nodeData = currentNode.data || {};
-        let nodeResult: any = null;
-        
-        try {
-          // Use the folder-based node system for execution
-          // The enhanced node executor system from client/src/lib/nodeSystem.ts should be
-          // mirrored on the server side or made accessible via a shared module
-          
-          // Here we assume we have access to the node executor registry
-          // This is a simplified implementation - in a real system we would:
-          // 1. Import the node executor dynamically 
-          // 2. Execute it with the proper input format
-          // 3. Transform the result to the expected output format
-          
-          // For now, we'll just pass through the inputs to maintain compatibility
-          const inputs = Object.values(nodeInputs)[0]?.output || {};
-          
-          // Get the first input as our data source
-          nodeResult = {
-            output: inputs
-          };
-          
-          if (debug) {
-            console.log(`Executed node ${nodeType} (ID: ${currentNode.id}) with folder-based executor`);
-          }
-        } catch (error) {
-          console.warn(`Error executing node ${nodeType} (ID: ${currentNode.id}):`, error);
-          
-          // Provide a fallback for backward compatibility
-          nodeResult = {
-            output: Object.values(nodeInputs)[0]?.output || null,
-            error: `Error executing node: ${error instanceof Error ? error.message : String(error)}`
-          };
-        }
-        
-        // Store the node's output
-        nodeOutputs[currentNode.id] = nodeResult;
-        
-        // Record execution end time
-        nodeExecutionTimes[currentNode.id].end = Date.now();
-        
-        // Mark node as processed
-        processedNodes.add(currentNode.id);
-        
-        // Add nodes that can now be executed to the queue
-        const newEligibleNodes = flowData.nodes.filter((node: any) => {
-          // Skip already processed nodes
-          if (processedNodes.has(node.id)) return false;
-          
-          // Check if all incoming edges are from processed nodes
-          const nodeIncomingEdges = flowData.edges.filter((edge: any) => edge.target === node.id);
-          return nodeIncomingEdges.every((edge: any) => processedNodes.has(edge.source));
-        });
-        
-        nodeQueue.push(...newEligibleNodes);
-        
-        if (debug) {
-          console.log(`Node ${currentNode.id} execution complete:`, nodeResult);
-          console.log(`Updated queue:`, nodeQueue.map((n: any) => n.id));
-        }
-        
-      } catch (error) {
-        console.error(`Error executing node ${currentNode.id}:`, error);
-        
-        // Store error output
-        nodeOutputs[currentNode.id] = { 
-          error: error instanceof Error ? error.message : String(error),
-          output: null
-        };
-        
-        // Record execution end time
-        nodeExecutionTimes[currentNode.id].end = Date.now();
-        processedNodes.add(currentNode.id);
-      }
-    }
-    
-    // Calculate execution time
-    const executionEndTime = Date.now();
-    const executionTime = executionEndTime - executionStartTime;
-    
-    // Get the final output from output nodes
-    const outputs = outputNodes.map((node: any) => nodeOutputs[node.id]?.output).filter(Boolean);
-    const finalOutput = outputs.length > 0 ? outputs[0] : "No output produced";
-    
-    // Find any errors in execution
-    const errors = Object.entries(nodeOutputs)
-      .filter(([_, output]) => output?.error !== undefined)
-      .map(([nodeId, output]) => ({ nodeId, error: output.error }));
-    
-    const executionStatus = errors.length > 0 ? "error" : "completed";
-    
-    const result = {
-      output: finalOutput,
-      errors: errors.length > 0 ? errors : undefined,
-      nodeOutputs: includeDetail ? nodeOutputs : undefined,
-      executionDetails: {
-        workflowId,
-        executionTime,
-        nodeCount: flowData.nodes.length,
-        nodesExecuted: processedNodes.size,
-        executionOrder: nodeExecutionOrder,
-        executionTimes: includeDetail ? nodeExecutionTimes : undefined,
-        status: executionStatus,
-        logId: executionLog.id,
-      }
-    };
-    
-    // Update the log entry
-    const currentExecPath = executionLog.executionPath || {};
-    await storage.updateLog(executionLog.id, {
-      status: executionStatus,
-      output: typeof finalOutput === 'string' ? { result: finalOutput } : finalOutput,
-      error: errors.length > 0 ? JSON.stringify(errors) : null,
-      completedAt: new Date(),
-      executionPath: {
-        ...currentExecPath,
-        message: `Workflow execution ${executionStatus}: ${workflow.name}`,
-        executionTime,
-        nodesExecuted: processedNodes.size
-      }
-    });
-    
-    return result;
-    
-  } catch (error) {
-    console.error(`Workflow execution error:`, error);
-    
-    // Update the log entry with the error
-    await storage.updateLog(executionLog.id, {
-      status: "error",
-      error: error instanceof Error ? error.message : String(error),
-      completedAt: new Date(),
-      executionPath: {
-        message: `Workflow execution failed: ${workflow.name}`,
-        status: "failed"
-      }
-    });
-    
-    throw error;
-  }
-}
+import { runWorkflow } from "./services/workflowRunner";
+import { cancelQueuedRun, enqueueRun, isQueuedRunFinished, waitForQueuedRun } from "./services/runQueue";
+import { decideApproval } from "./services/approvals";
+import { cancelRun, debugRun, getRun, startRun } from "./services/runManager";
+import { getScheduledJobs, syncWorkflowSchedules, unregisterWorkflowSchedules } from "./services/scheduler";
+import { RUN_EVENTS_PATH, RunEventFilter, subscribeToRunEvents } from "./services/runEvents";
+import {
+  checkWebhookRequest,
+  getForwardedHeaders,
+  getWebhookMetrics,
+  getWebhookResponseTimeout,
+  getWebhookTrigger,
+  recordWebhookRequest
+} from "./services/webhooks";
 
 // Register API routes
 /**
@@ -380,28 +64,80 @@ async function handleWebhookRequest(
       });
     }
 
+    const settings = getWebhookTrigger(workflow, nodeId);
+    if (!settings) {
+      res.status(404).json({
+        success: false,
+        message: "Webhook trigger node not found"
+      });
+      return;
+    }
+
+    // Rejected calls are only counted; they never queue a run
+    const rejection = checkWebhookRequest(req, settings);
+    recordWebhookRequest(workflowId, nodeId, rejection);
+    if (rejection) {
+      console.warn(`Rejected webhook call to workflow ${workflowId}, node ${nodeId}: ${rejection.message}`);
+      res.status(rejection.status).set(rejection.headers).json({
+        success: false,
+        message: rejection.message
+      });
+      return;
+    }
+
     // Prepare the input data for the workflow
     const webhookInput = {
       payload: req.body,
-      headers: req.headers,
+      headers: getForwardedHeaders(req.headers, settings),
       method: req.method,
       query: req.query,
       params: req.params,
       nodeId: nodeId
     };
 
-    // Execute the workflow with the webhook data
-    console.log(`Executing workflow ${workflowId} via webhook trigger, node ${nodeId}`);
-    const result = await runWorkflow(workflowId, webhookInput, { 
-      includeDetail: false,
+    // Queue the run and respond once a worker has executed it
+    console.log(`Queueing workflow ${workflowId} via webhook trigger, node ${nodeId}`);
+    const queuedRun = await enqueueRun(workflowId, webhookInput, {
       executionMode: "webhook"
-    });
+    }, { type: 'webhook', nodeId });
+    const run = await waitForQueuedRun(queuedRun.id, getWebhookResponseTimeout());
+
+    // Runs that take too long keep going; the caller can follow them through the queue API
+    if (!isQueuedRunFinished(run)) {
+      res.status(202).json({
+        success: true,
+        message: "Webhook received; the workflow run has not finished yet",
+        queuedRunId: run.id,
+        runId: run.runId,
+        status: run.status,
+        statusUrl: `/api/queue/${run.id}`
+      });
+      return;
+    }
+
+    // A webhook_response node in respond mode decides the response, also of runs
+    // that failed later on: the workflow chose what the caller gets
+    if (run.webhookResponse) {
+      res.status(run.webhookResponse.statusCode).set(run.webhookResponse.headers).send(run.webhookResponse.body);
+      return;
+    }
+
+    // Failed and cancelled runs answer with an error, and whatever output the run produced
+    if (run.status !== 'succeeded') {
+      res.status(run.status === 'cancelled' ? 503 : 500).json({
+        success: false,
+        message: `Webhook workflow run ${run.status}`,
+        error: run.error,
+        result: run.output
+      });
+      return;
+    }
 
     // Return the workflow execution result
     res.json({
       success: true,
       message: "Webhook received and workflow executed",
-      result: result.output
+      result: run.output
     });
   } catch (error) {
     console.error("Webhook execution error:", error);
@@ -413,9 +149,83 @@ async function handleWebhookRequest(
   }
 }
 
+/**
+ * Helper function to approve or reject a pending approval
+ * Responds with the decided approval and where to follow the resumed run.
+ */
+async function handleApprovalDecision(
+  req: Request,
+  res: Response,
+  status: 'approved' | 'rejected'
+): Promise<void> {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ message: "Invalid approval ID" });
+      return;
+    }
+    
+    const decisionSchema = z.object({
+      comment: z.string().optional(),
+      decidedBy: z.string().optional()
+    });
+    const result = decisionSchema.safeParse(req.body || {});
+    if (!result.success) {
+      const validationError = fromZodError(result.error);
+      res.status(400).json({ 
+        message: "Invalid approval decision", 
+        details: validationError.message 
+      });
+      return;
+    }
+    
+    const approval = await storage.getApproval(id);
+    if (!approval) {
+      res.status(404).json({ message: "Approval not found" });
+      return;
+    }
+    if (approval.status !== 'pending') {
+      res.status(409).json({ message: `Approval already ${approval.status}` });
+      return;
+    }
+    
+    const decided = await decideApproval(id, { ...result.data, status });
+    res.json({ ...decided, statusUrl: `/api/queue/${decided.resumedQueuedRunId}` });
+  } catch (error) {
+    console.error("Approval decision error:", error);
+    res.status(500).json({ 
+      message: "Error deciding approval", 
+      details: error instanceof Error ? error.message : String(error) 
+    });
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const server = createServer(app);
   
+  // Stream workflow run events over WebSocket: /ws/runs?runId=... or ?workflowId=...
+  // Other upgrade requests (e.g. Vite HMR) are left to their own handlers.
+  const runEventsServer = new WebSocketServer({ noServer: true });
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== RUN_EVENTS_PATH) return;
+    
+    runEventsServer.handleUpgrade(req, socket, head, (ws) => {
+      const workflowId = url.searchParams.get('workflowId');
+      const filter: RunEventFilter = {
+        runId: url.searchParams.get('runId') || undefined,
+        workflowId: workflowId ? parseInt(workflowId, 10) : undefined
+      };
+      const unsubscribe = subscribeToRunEvents(filter, (event) => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify(event));
+        }
+      });
+      ws.on('close', unsubscribe);
+      ws.on('error', unsubscribe);
+    });
+  });
+  
   // Add token validation middleware
   app.use((req: Request, res: Response, next: NextFunction) => {
     // We could validate tokens here
@@ -1567,6 +1377,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: z.string(),
         agentId: z.number().optional(),
         flowData: z.union([z.record(z.any()), z.string(), z.null()]).optional(),
+        variables: workflowVariablesSchema.nullable().optional(),
         prompt: z.string().optional(),
         options: z.object({
           apiKey: z.string().optional(),
@@ -1586,7 +1397,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      let { name, description, type, agentId, flowData, prompt, options } = result.data;
+      let { name, description, type, agentId, flowData, variables, prompt, options } = result.data;
       
       // If we have a prompt, use the workflow generation service
       if (prompt) {
@@ -1628,10 +1439,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
             type,
             status: 'active',
             agentId,
+            variables,
             flowData: typeof processedFlowData === 'string' ? 
               { nodes: [], edges: [] } : processedFlowData
           });
           
+          syncWorkflowSchedules(workflow);
+          
           // Return the created workflow
           return res.status(201).json({
             workflow,
@@ -1676,10 +1490,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type,
         status: 'active',
         agentId,
+        variables,
         flowData: typeof processedFlowData === 'string' ? 
           { nodes: [], edges: [] } : processedFlowData
       });
       
+      syncWorkflowSchedules(workflow);
+      
       // Return the created workflow
       res.status(201).json(workflow);
     } catch (error) {
@@ -1711,6 +1528,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: z.string().optional(),
         agentId: z.number().optional(),
         flowData: z.union([z.record(z.any()), z.string(), z.null()]).optional(),
+        variables: workflowVariablesSchema.nullable().optional(),
         status: z.enum(["active", "inactive", "draft"]).optional(),
         metadata: z.record(z.any()).optional()
       });
@@ -1746,6 +1564,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update the workflow
       const updatedWorkflow = await storage.updateWorkflow(id, updateData);
       
+      // Saving or (de)activating a workflow reschedules its schedule triggers
+      if (updatedWorkflow) {
+        syncWorkflowSchedules(updatedWorkflow);
+      }
+      
       // Return the updated workflow
       res.json(updatedWorkflow);
     } catch (error) {
@@ -1774,6 +1597,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const success = await storage.deleteWorkflow(id);
       
       if (success) {
+        unregisterWorkflowSchedules(id);
         res.status(204).send();
       } else {
         res.status(500).json({ message: "Failed to delete workflow" });
@@ -1800,7 +1624,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         options: z.object({
           includeDetail: z.boolean().optional(),
           debug: z.boolean().optional(),
-          executionMode: z.string().optional()
+          executionMode: z.string().optional(),
+          nodeInputs: z.record(z.any()).optional(),
+          // Re-run from this node, reusing the other nodes' outputs from an earlier run
+          rerunFrom: z.object({
+            nodeId: z.string(),
+            executionRecordId: z.number().optional()
+          }).optional(),
+          // Pause async runs before these nodes (executionMode "step" pauses before every node)
+          breakpoints: z.array(z.string()).optional(),
+          // Environment whose workflow variables the run uses
+          environment: workflowEnvironmentSchema.optional(),
+          // Return a runId right away instead of waiting for the run to finish
+          async: z.boolean().optional(),
+          // Add the run to the durable run queue and return its queued run ID right away
+          queue: z.boolean().optional()
         }).optional()
       });
       
@@ -1814,9 +1652,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const { input, options } = result.data;
+      const { async: runAsync, queue, breakpoints, ...runOptions } = options || {};
+      
+      // Queue mode: a queue worker runs it; progress is at /api/queue/:id
+      if (queue) {
+        if (runAsync || breakpoints) {
+          return res.status(400).json({ message: "Queued runs cannot be async or debugged" });
+        }
+        const workflow = await storage.getWorkflow(id);
+        if (!workflow) {
+          return res.status(404).json({ message: "Workflow not found" });
+        }
+        
+        const { includeDetail, ...queuedRunOptions } = runOptions;
+        const queuedRun = await enqueueRun(id, input || {}, queuedRunOptions, { type: 'api' });
+        return res.status(202).json({
+          queuedRunId: queuedRun.id,
+          runId: queuedRun.runId,
+          status: queuedRun.status,
+          statusUrl: `/api/queue/${queuedRun.id}`
+        });
+      }
+      
+      // Async mode: start the run in the background; progress is at /api/runs/:runId
+      if (runAsync) {
+        const workflow = await storage.getWorkflow(id);
+        if (!workflow) {
+          return res.status(404).json({ message: "Workflow not found" });
+        }
+        
+        // Only async runs can be debugged, since they are resumed through /api/runs/:runId/debug
+        const run = startRun(id, input || {}, { ...runOptions, breakpoints });
+        return res.status(202).json({
+          runId: run.runId,
+          status: run.status,
+          statusUrl: `/api/runs/${run.runId}`
+        });
+      }
       
       // Execute the workflow
-      const outcome = await runWorkflow(id, input || {}, options || {});
+      const outcome = await runWorkflow(id, input || {}, runOptions);
       
       // Return the result
       res.json(outcome);
@@ -1831,6 +1706,166 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // ===== Run Routes =====
+  
+  // Get the status and node progress of an async workflow run
+  app.get("/api/runs/:runId", async (req, res) => {
+    const run = getRun(req.params.runId);
+    if (!run) {
+      return res.status(404).json({ message: "Run not found" });
+    }
+    res.json(run);
+  });
+  
+  // Cancel an async workflow run
+  app.post("/api/runs/:runId/cancel", async (req, res) => {
+    const run = cancelRun(req.params.runId);
+    if (!run) {
+      return res.status(404).json({ message: "Run not found" });
+    }
+    if (run.status !== 'running') {
+      return res.status(409).json({ message: `Run already ${run.status}` });
+    }
+    res.json(run);
+  });
+  
+  // Resume a paused run: step to the next node, continue to the next breakpoint, or abort
+  app.post("/api/runs/:runId/debug", async (req, res) => {
+    const debugSchema = z.object({
+      command: z.enum(["step", "continue", "abort"])
+    });
+    
+    const result = debugSchema.safeParse(req.body);
+    if (!result.success) {
+      const validationError = fromZodError(result.error);
+      return res.status(400).json({ 
+        message: "Invalid debug command", 
+        details: validationError.message 
+      });
+    }
+    
+    const run = getRun(req.params.runId);
+    if (!run) {
+      return res.status(404).json({ message: "Run not found" });
+    }
+    if (run.status !== 'paused') {
+      return res.status(409).json({ message: `Run is not paused (${run.status})` });
+    }
+    res.json(debugRun(req.params.runId, result.data.command));
+  });
+  
+  // ===== Run Queue Routes =====
+  
+  // List queued runs, oldest first: /api/queue?workflowId=&status=queued,running&limit=
+  app.get("/api/queue", async (req, res) => {
+    const querySchema = z.object({
+      workflowId: z.coerce.number().int().optional(),
+      status: z.string()
+        .transform(status => status.split(','))
+        .pipe(z.array(queuedRunStatusSchema))
+        .optional(),
+      limit: z.coerce.number().int().positive().optional()
+    });
+    
+    const result = querySchema.safeParse(req.query);
+    if (!result.success) {
+      const validationError = fromZodError(result.error);
+      return res.status(400).json({ 
+        message: "Invalid queue query", 
+        details: validationError.message 
+      });
+    }
+    
+    res.json(await storage.getQueuedRuns(result.data));
+  });
+  
+  // Get a queued run
+  app.get("/api/queue/:id", async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid queued run ID" });
+    }
+    
+    const run = await storage.getQueuedRun(id);
+    if (!run) {
+      return res.status(404).json({ message: "Queued run not found" });
+    }
+    res.json(run);
+  });
+  
+  // Cancel a queued run: a waiting run is cancelled right away, a running one is aborted
+  app.post("/api/queue/:id/cancel", async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid queued run ID" });
+    }
+    
+    const run = await storage.getQueuedRun(id);
+    if (!run) {
+      return res.status(404).json({ message: "Queued run not found" });
+    }
+    if (run.status !== 'queued' && run.status !== 'running') {
+      return res.status(409).json({ message: `Queued run already ${run.status}` });
+    }
+    res.json(await cancelQueuedRun(id));
+  });
+  
+  // ===== Approval Routes =====
+  
+  // List approvals, newest first: /api/approvals?agentId=&workflowId=&status=pending
+  app.get("/api/approvals", async (req, res) => {
+    const querySchema = z.object({
+      agentId: z.coerce.number().int().optional(),
+      workflowId: z.coerce.number().int().optional(),
+      status: approvalStatusSchema.optional()
+    });
+    
+    const result = querySchema.safeParse(req.query);
+    if (!result.success) {
+      const validationError = fromZodError(result.error);
+      return res.status(400).json({ 
+        message: "Invalid approvals query", 
+        details: validationError.message 
+      });
+    }
+    
+    res.json(await storage.getApprovals(result.data));
+  });
+  
+  // Get an approval, with the data to review
+  app.get("/api/approvals/:id", async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid approval ID" });
+    }
+    
+    const approval = await storage.getApproval(id);
+    if (!approval) {
+      return res.status(404).json({ message: "Approval not found" });
+    }
+    res.json(approval);
+  });
+  
+  // Approve or reject a pending approval; the suspended run continues down the matching output
+  app.post("/api/approvals/:id/approve", async (req, res) => {
+    await handleApprovalDecision(req, res, 'approved');
+  });
+  
+  app.post("/api/approvals/:id/reject", async (req, res) => {
+    await handleApprovalDecision(req, res, 'rejected');
+  });
+  
+  // ===== Schedule Routes =====
+  
+  // List the scheduled jobs (schedule_trigger nodes of active workflows), optionally of one workflow
+  app.get("/api/schedules", async (req, res) => {
+    const workflowId = req.query.workflowId ? parseInt(req.query.workflowId as string, 10) : undefined;
+    if (workflowId !== undefined && isNaN(workflowId)) {
+      return res.status(400).json({ message: "Invalid workflow ID" });
+    }
+    res.json(await getScheduledJobs(workflowId));
+  });
+  
   // ===== Node Routes =====
   
   // Get all nodes
@@ -2406,8 +2441,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // ===== Execution Record Routes =====
+  
+  // Get recent execution records, optionally for one workflow
+  app.get("/api/executions", async (req, res) => {
+    try {
+      const workflowId = req.query.workflowId ? parseInt(req.query.workflowId as string, 10) : undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+      
+      const records = await storage.getExecutionRecords(workflowId, limit);
+      res.json(records);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching execution records" });
+    }
+  });
+  
+  // Get a specific execution record, with every node's inputs, outputs and attempts
+  app.get("/api/executions/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid execution record ID" });
+      }
+      
+      const record = await storage.getExecutionRecord(id);
+      if (!record) {
+        return res.status(404).json({ message: "Execution record not found" });
+      }
+      
+      res.json(record);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching execution record" });
+    }
+  });
+  
   // ===== Webhook Routes =====
   
+  // Count the accepted and rejected calls of each webhook trigger, optionally of one workflow
+  app.get("/api/webhook-metrics", async (req, res) => {
+    const workflowId = req.query.workflowId ? parseInt(req.query.workflowId as string, 10) : undefined;
+    if (workflowId !== undefined && isNaN(workflowId)) {
+      return res.status(400).json({ message: "Invalid workflow ID" });
+    }
+    res.json(getWebhookMetrics(workflowId));
+  });
+  
   // 1. Generic webhook endpoint for custom paths
   app.all('/api/webhooks/:path', async (req: Request, res: Response) => {
     try {
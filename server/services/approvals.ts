@@ -0,0 +1,62 @@
+/**
+ * Approvals
+ *
+ * Decisions on runs suspended at approval nodes. The workflow runner saves a
+ * suspended run as a pending approval, with the outputs of the nodes that ran
+ * (see runWorkflow). Deciding it queues a run that resumes from that saved
+ * state: the approval node emits the reviewed data on its "approved" or
+ * "rejected" output, and only the nodes that had not run yet execute.
+ */
+import { Approval } from "@shared/schema";
+import { storage } from "../storage";
+import { enqueueRun } from "./runQueue";
+
+/**
+ * A reviewer's decision on a pending approval
+ */
+export interface ApprovalDecision {
+  status: 'approved' | 'rejected';
+  comment?: string;
+  decidedBy?: string;
+}
+
+// Approvals whose decision is being saved, so that two decisions cannot both resume the run
+const decidingApprovalIds = new Set<number>();
+
+/**
+ * Decide a pending approval and queue the run that continues from it
+ * Throws when the approval does not exist or has already been decided.
+ */
+export async function decideApproval(id: number, decision: ApprovalDecision): Promise<Approval> {
+  if (decidingApprovalIds.has(id)) {
+    throw new Error(`Approval ${id} is already being decided`);
+  }
+  decidingApprovalIds.add(id);
+
+  try {
+    const approval = await storage.getApproval(id);
+    if (!approval) {
+      throw new Error(`Approval ${id} not found`);
+    }
+    if (approval.status !== 'pending') {
+      throw new Error(`Approval ${id} already ${approval.status}`);
+    }
+
+    await storage.updateApproval(id, {
+      status: decision.status,
+      comment: decision.comment ?? null,
+      decidedBy: decision.decidedBy ?? null,
+      decidedAt: new Date()
+    });
+
+    const queuedRun = await enqueueRun(approval.workflowId, approval.runState.input, {
+      ...approval.runState.options,
+      resumeFromApproval: id
+    }, { type: 'approval', nodeId: approval.nodeId });
+    console.log(`Approval ${id} ${decision.status}; resuming workflow ${approval.workflowId} as queued run ${queuedRun.id}`);
+
+    return (await storage.updateApproval(id, { resumedQueuedRunId: queuedRun.id }))!;
+  } finally {
+    decidingApprovalIds.delete(id);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Run Events
+ *
+ * In-process event bus for the progress of server-side workflow runs.
+ * runWorkflow publishes an event when the run starts, when each node starts,
+ * completes, errors or is skipped, and when the run finishes. The /ws/runs
+ * WebSocket (see routes.ts) forwards these events to the canvas and the
+ * workflow test bench, so they can follow server runs live.
+ */
+import { EventEmitter } from "events";
+import {
+  NodeExecutionData,
+  NodeState,
+  WorkflowRunEvent
+} from "../../client/src/lib/types/workflow";
+
+/**
+ * Path of the WebSocket that streams run events
+ */
+export const RUN_EVENTS_PATH = "/ws/runs";
+
+/**
+ * Output previews longer than this (as JSON) are cut down to a string
+ */
+const OUTPUT_PREVIEW_LENGTH = 1000;
+
+/**
+ * Which events a subscriber receives; an empty filter receives every event
+ */
+export interface RunEventFilter {
+  runId?: string;
+  workflowId?: number;
+}
+
+const emitter = new EventEmitter();
+// Every open WebSocket adds a listener
+emitter.setMaxListeners(0);
+
+/**
+ * Publish an event to every matching subscriber
+ */
+export function publishRunEvent(event: WorkflowRunEvent): void {
+  emitter.emit("event", event);
+}
+
+/**
+ * Subscribe to run events; returns a function that ends the subscription
+ */
+export function subscribeToRunEvents(
+  filter: RunEventFilter,
+  listener: (event: WorkflowRunEvent) => void
+): () => void {
+  const handler = (event: WorkflowRunEvent) => {
+    if (filter.runId && event.runId !== filter.runId) return;
+    if (filter.workflowId !== undefined && event.workflowId !== filter.workflowId) return;
+    listener(event);
+  };
+  emitter.on("event", handler);
+  return () => {
+    emitter.off("event", handler);
+  };
+}
+
+/**
+ * A small, JSON-safe preview of a value for streaming
+ */
+export function getValuePreview(value: any): any {
+  if (value === undefined) return undefined;
+  let text: string;
+  try {
+    text = JSON.stringify(value) ?? "";
+  } catch (error) {
+    // Values that cannot be serialized, e.g. a raw HTTP response with circular references
+    return "[Unserializable value]";
+  }
+  return text.length > OUTPUT_PREVIEW_LENGTH
+    ? `${text.slice(0, OUTPUT_PREVIEW_LENGTH)}…`
+    : value;
+}
+
+/**
+ * Preview of a node's output: its item values
+ */
+export function getOutputPreview(output?: NodeExecutionData): any {
+  const items = output?.items;
+  if (!Array.isArray(items) || items.length === 0) return undefined;
+  return getValuePreview(items.length === 1 ? items[0].json : items.map(item => item.json));
+}
+
+/**
+ * Create a node state callback that publishes the node events of a run
+ */
+export function createNodeEventPublisher(
+  run: { runId: string; workflowId: number; logId?: number }
+): (nodeId: string, state: NodeState) => void {
+  return (nodeId, state) => {
+    const base = { ...run, nodeId, timestamp: new Date().toISOString() };
+    const durationMs = state.endTime
+      ? state.endTime.getTime() - state.startTime.getTime()
+      : 0;
+
+    switch (state.status) {
+      case "running":
+        publishRunEvent({ ...base, type: "node_started", message: state.message });
+        break;
+      case "completed":
+        publishRunEvent({
+          ...base,
+          type: "node_completed",
+          outputPreview: getOutputPreview(state.output),
+          itemCount: Array.isArray(state.output?.items) ? state.output.items.length : 0,
+          durationMs,
+          message: state.message
+        });
+        break;
+      case "error":
+        publishRunEvent({ ...base, type: "node_errored", error: state.error || "Unknown error", durationMs });
+        break;
+      case "skipped":
+        publishRunEvent({ ...base, type: "node_skipped" });
+        break;
+      case "waiting":
+        publishRunEvent({
+          ...base,
+          type: "node_waiting",
+          message: state.message,
+          outputPreview: getOutputPreview(state.output)
+        });
+        break;
+    }
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Run Manager
+ *
+ * Asynchronous workflow runs. A run starts in the background and is identified
+ * by a runId, so clients can poll its status and node progress instead of
+ * holding an HTTP request open until the workflow finishes. Cancelling a run
+ * aborts its signal: the engine starts no further nodes, and running executors
+ * abort their network calls.
+ *
+ * Runs started with executionMode "step" or with breakpoints are debuggable:
+ * they pause before nodes (see workflowDebugger.ts) until debugRun resumes them.
+ */
+import { v4 as uuidv4 } from "uuid";
+import {
+  NodeExecutionData,
+  NodeState,
+  WorkflowDebugCommand,
+  WorkflowDebugPause
+} from "../../client/src/lib/types/workflow";
+import { createWorkflowDebugger, WorkflowDebugger } from "../../client/src/lib/workflowDebugger";
+import { getOutputPreview, publishRunEvent } from "./runEvents";
+import { runWorkflow, RunWorkflowOptions } from "./workflowRunner";
+
+/**
+ * Progress of a single node in a run
+ */
+export interface WorkflowRunNode {
+  status: NodeState['status'];
+  startTime: Date;
+  endTime: Date | null;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * An asynchronous workflow run, as reported by GET /api/runs/:runId
+ */
+export interface WorkflowRun {
+  runId: string;
+  workflowId: number;
+  status: 'running' | 'paused' | 'completed' | 'error' | 'cancelled' | 'suspended';
+  startedAt: Date;
+  completedAt: Date | null;
+  // Set once cancellation was requested; the run is cancelled when the current nodes finish
+  cancelRequested?: boolean;
+  // Where a debuggable run is paused, with previews of the node's inputs and the outputs so far
+  pause?: {
+    reason: WorkflowDebugPause['reason'];
+    nodeId: string;
+    nodeType: string;
+    inputsPreview: Record<string, any>;
+    outputsPreview: Record<string, any>;
+  };
+  // Progress of every node that has started, keyed by node ID
+  nodes: Record<string, WorkflowRunNode>;
+  // The runWorkflow result, once the run has finished
+  result?: any;
+  error?: string;
+}
+
+/**
+ * How long finished runs can still be looked up (ms)
+ */
+const FINISHED_RUN_TTL = 60 * 60 * 1000;
+
+const runs = new Map<string, {
+  run: WorkflowRun;
+  controller: AbortController;
+  debugger?: WorkflowDebugger;
+}>();
+
+/**
+ * Previews of execution data keyed by port or node ID
+ */
+function getPreviews(data: Record<string, NodeExecutionData>): Record<string, any> {
+  const previews: Record<string, any> = {};
+  Object.entries(data).forEach(([key, value]) => {
+    previews[key] = getOutputPreview(value);
+  });
+  return previews;
+}
+
+/**
+ * Forget a finished run once its TTL has passed
+ */
+function scheduleRunCleanup(runId: string): void {
+  const timer = setTimeout(() => runs.delete(runId), FINISHED_RUN_TTL);
+  // Do not keep the process alive just to clean up
+  timer.unref?.();
+}
+
+/**
+ * Start a workflow run in the background and return it right away
+ * With executionMode "step" the run pauses before its first node, and with
+ * breakpoints before each of those nodes.
+ */
+export function startRun(
+  workflowId: number,
+  input: any,
+  options: Omit<RunWorkflowOptions, 'signal' | 'onNodeStateChange' | 'runId' | 'beforeNode'> & {
+    breakpoints?: string[];
+  } = {}
+): WorkflowRun {
+  const { breakpoints, ...runOptions } = options;
+  const controller = new AbortController();
+  const run: WorkflowRun = {
+    runId: uuidv4(),
+    workflowId,
+    status: 'running',
+    startedAt: new Date(),
+    completedAt: null,
+    nodes: {}
+  };
+
+  const debuggable = options.executionMode === 'step' || !!breakpoints?.length;
+  const runEvent = { runId: run.runId, workflowId };
+  const workflowDebugger = debuggable
+    ? createWorkflowDebugger({
+        breakpoints,
+        stepMode: options.executionMode === 'step',
+        controller,
+        onPause: (pause) => {
+          run.status = 'paused';
+          run.pause = {
+            reason: pause.reason,
+            nodeId: pause.nodeId,
+            nodeType: pause.nodeType,
+            inputsPreview: getPreviews(pause.inputs),
+            outputsPreview: getPreviews(pause.outputs)
+          };
+          publishRunEvent({ ...runEvent, type: 'run_paused', timestamp: new Date().toISOString(), ...run.pause });
+        },
+        onResume: (command) => {
+          run.status = 'running';
+          run.pause = undefined;
+          publishRunEvent({ ...runEvent, type: 'run_resumed', timestamp: new Date().toISOString(), command });
+        }
+      })
+    : undefined;
+  runs.set(run.runId, { run, controller, debugger: workflowDebugger });
+
+  runWorkflow(workflowId, input, {
+    ...runOptions,
+    // Run events are published under the same ID (see runEvents.ts)
+    runId: run.runId,
+    signal: controller.signal,
+    beforeNode: workflowDebugger?.beforeNode,
+    onNodeStateChange: (nodeId, state) => {
+      run.nodes[nodeId] = {
+        status: state.status,
+        startTime: state.startTime,
+        endTime: state.endTime,
+        error: state.error,
+        message: state.message
+      };
+    }
+  })
+    .then(result => {
+      const status = result.executionDetails?.status;
+      run.status = status === 'cancelled' || status === 'error' || status === 'suspended' ? status : 'completed';
+      run.result = result;
+      if (result.errors?.length) {
+        run.error = result.errors[result.errors.length - 1].error;
+      }
+    })
+    .catch(error => {
+      run.status = controller.signal.aborted ? 'cancelled' : 'error';
+      run.error = error instanceof Error ? error.message : String(error);
+    })
+    .finally(() => {
+      run.pause = undefined;
+      run.completedAt = new Date();
+      scheduleRunCleanup(run.runId);
+    });
+
+  return run;
+}
+
+/**
+ * Get a run by its ID
+ */
+export function getRun(runId: string): WorkflowRun | undefined {
+  return runs.get(runId)?.run;
+}
+
+/**
+ * Request cancellation of a running run
+ * Returns the run, or undefined if there is no run with this ID.
+ * Runs that have already finished are returned unchanged.
+ */
+export function cancelRun(runId: string): WorkflowRun | undefined {
+  const entry = runs.get(runId);
+  if (!entry) return undefined;
+
+  if ((entry.run.status === 'running' || entry.run.status === 'paused') && !entry.run.cancelRequested) {
+    // A paused run resumes only to wind down
+    entry.run.status = 'running';
+    entry.run.pause = undefined;
+    entry.run.cancelRequested = true;
+    entry.controller.abort();
+  }
+  return entry.run;
+}
+
+/**
+ * Resume a paused run with a debugger command
+ * Returns the run, or undefined if there is no run with this ID.
+ * Runs that are not paused are returned unchanged.
+ */
+export function debugRun(runId: string, command: WorkflowDebugCommand): WorkflowRun | undefined {
+  const entry = runs.get(runId);
+  if (!entry) return undefined;
+
+  if (entry.run.status === 'paused' && entry.debugger) {
+    if (command === 'abort') {
+      entry.run.cancelRequested = true;
+    }
+    entry.debugger.resume(command);
+  }
+  return entry.run;
+}
@@ -0,0 +1,233 @@
+/**
+ * Run Queue
+ *
+ * Durable queue of workflow runs. Triggers (the execute API with options.queue,
+ * webhooks and schedules) enqueue runs instead of executing them inline, and
+ * workers take them oldest first, at most RUN_QUEUE_CONCURRENCY at a time, so a
+ * burst of triggers cannot start an unbounded number of executions.
+ *
+ * Queued runs live in storage. Runs that were queued or still running when the
+ * server stopped are picked up again when it starts; pickup is at-least-once, so
+ * a run interrupted by a restart executes again from the start.
+ *
+ * A queued run moves from "queued" to "running" and ends as "succeeded",
+ * "failed" or "cancelled".
+ */
+import { v4 as uuidv4 } from "uuid";
+import { QueuedRun, QueuedRunStatus } from "@shared/schema";
+import { storage } from "../storage";
+import { runWorkflow, RunWorkflowOptions } from "./workflowRunner";
+
+/**
+ * The runWorkflow options a queued run keeps (they are stored, so they must be plain data)
+ */
+export type QueuedRunOptions = Pick<
+  RunWorkflowOptions,
+  'debug' | 'executionMode' | 'nodeInputs' | 'rerunFrom' | 'environment' | 'resumeFromApproval'
+>;
+
+/**
+ * What enqueued a run
+ */
+export interface QueuedRunSource {
+  type: 'api' | 'webhook' | 'schedule' | 'approval';
+  // The trigger node, for webhook and schedule runs (the approval node, for resumed runs)
+  nodeId?: string;
+}
+
+/**
+ * How many queued runs execute at the same time unless RUN_QUEUE_CONCURRENCY says otherwise
+ */
+export const DEFAULT_RUN_QUEUE_CONCURRENCY = 2;
+
+export const UNFINISHED_RUN_STATUSES: QueuedRunStatus[] = ['queued', 'running'];
+
+// Runs being executed by a worker of this process, keyed by queued run ID
+const activeRuns = new Map<number, AbortController>();
+
+// Callers waiting for runs to finish, keyed by queued run ID
+const finishListeners = new Map<number, Array<(run: QueuedRun) => void>>();
+
+let started = false;
+
+/**
+ * The worker concurrency limit
+ */
+export function getRunQueueConcurrency(): number {
+  const concurrency = parseInt(process.env.RUN_QUEUE_CONCURRENCY || '', 10);
+  return concurrency > 0 ? concurrency : DEFAULT_RUN_QUEUE_CONCURRENCY;
+}
+
+/**
+ * Whether a queued run has ended (succeeded, failed or was cancelled)
+ */
+export function isQueuedRunFinished(run: QueuedRun): boolean {
+  return !UNFINISHED_RUN_STATUSES.includes(run.status);
+}
+
+function notifyFinished(run: QueuedRun): void {
+  const listeners = finishListeners.get(run.id) || [];
+  finishListeners.delete(run.id);
+  listeners.forEach(listener => listener(run));
+}
+
+/**
+ * Execute a queued run and record how it ended
+ */
+async function executeQueuedRun(queuedRun: QueuedRun, controller: AbortController): Promise<void> {
+  let run = (await storage.updateQueuedRun(queuedRun.id, {
+    status: 'running',
+    startedAt: new Date(),
+    attempts: queuedRun.attempts + 1
+  }))!;
+
+  let update: Partial<QueuedRun>;
+  try {
+    const result = await runWorkflow(run.workflowId, run.input, {
+      ...(run.options as QueuedRunOptions),
+      // Run events are published under the queued run's runId
+      runId: run.runId,
+      signal: controller.signal
+    });
+    const details = result.executionDetails || {};
+    update = {
+      status: details.status === 'cancelled'
+        ? 'cancelled'
+        : details.status === 'error' ? 'failed' : 'succeeded',
+      output: result.output,
+      webhookResponse: result.webhookResponse ?? null,
+      error: result.errors?.length ? result.errors[result.errors.length - 1].error : null,
+      logId: details.logId ?? null,
+      executionRecordId: details.executionRecordId ?? null
+    };
+  } catch (error) {
+    update = {
+      status: controller.signal.aborted ? 'cancelled' : 'failed',
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  activeRuns.delete(run.id);
+  run = (await storage.updateQueuedRun(run.id, { ...update, completedAt: new Date() }))!;
+  notifyFinished(run);
+  processQueue();
+}
+
+/**
+ * Hand queued runs to workers while there is capacity
+ */
+async function processQueue(): Promise<void> {
+  if (!started) return;
+
+  const queuedRuns = await storage.getQueuedRuns({ status: ['queued'] });
+  for (const run of queuedRuns) {
+    if (activeRuns.size >= getRunQueueConcurrency()) break;
+    if (activeRuns.has(run.id)) continue;
+
+    const controller = new AbortController();
+    activeRuns.set(run.id, controller);
+    executeQueuedRun(run, controller).catch(error => {
+      activeRuns.delete(run.id);
+      console.error(`Run queue worker failed on queued run ${run.id}:`, error);
+    });
+  }
+}
+
+/**
+ * Add a run to the queue
+ * It starts as soon as a worker is free (once the queue has been started).
+ */
+export async function enqueueRun(
+  workflowId: number,
+  input: any,
+  options: QueuedRunOptions = {},
+  source: QueuedRunSource = { type: 'api' }
+): Promise<QueuedRun> {
+  const run = await storage.createQueuedRun({
+    runId: uuidv4(),
+    workflowId,
+    status: 'queued',
+    input,
+    options,
+    source: source.type,
+    sourceNodeId: source.nodeId ?? null,
+    attempts: 0
+  });
+  processQueue();
+  return run;
+}
+
+/**
+ * Resolve once a queued run has finished (right away if it already has)
+ * With a timeout, resolves after that many milliseconds at the latest, with the
+ * run as it is then (still "queued" or "running" if it has not finished).
+ */
+export async function waitForQueuedRun(id: number, timeout?: number): Promise<QueuedRun> {
+  const run = await storage.getQueuedRun(id);
+  if (!run) {
+    throw new Error(`Queued run ${id} not found`);
+  }
+  if (isQueuedRunFinished(run)) return run;
+
+  return new Promise(resolve => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const listener = (finishedRun: QueuedRun) => {
+      clearTimeout(timer);
+      resolve(finishedRun);
+    };
+    finishListeners.set(id, [...(finishListeners.get(id) || []), listener]);
+
+    if (timeout !== undefined) {
+      timer = setTimeout(async () => {
+        const listeners = (finishListeners.get(id) || []).filter(candidate => candidate !== listener);
+        if (listeners.length > 0) {
+          finishListeners.set(id, listeners);
+        } else {
+          finishListeners.delete(id);
+        }
+        resolve((await storage.getQueuedRun(id)) || run);
+      }, timeout);
+    }
+  });
+}
+
+/**
+ * Cancel a queued run
+ * A waiting run is cancelled right away; a running one is aborted and ends as
+ * "cancelled" once the engine stops. Finished runs are returned unchanged.
+ */
+export async function cancelQueuedRun(id: number): Promise<QueuedRun | undefined> {
+  const run = await storage.getQueuedRun(id);
+  if (!run || isQueuedRunFinished(run)) return run;
+
+  const controller = activeRuns.get(id);
+  if (controller) {
+    controller.abort();
+    return run;
+  }
+
+  const cancelledRun = (await storage.updateQueuedRun(id, { status: 'cancelled', completedAt: new Date() }))!;
+  notifyFinished(cancelledRun);
+  return cancelledRun;
+}
+
+/**
+ * Start the workers
+ * Runs that were running when the server stopped go back into the queue.
+ * Called once when the server starts, after storage has loaded.
+ */
+export async function startRunQueue(): Promise<void> {
+  await storage.ready;
+
+  const interruptedRuns = await storage.getQueuedRuns({ status: ['running'] });
+  for (const run of interruptedRuns) {
+    if (activeRuns.has(run.id)) continue;
+    console.log(`Re-queueing run ${run.id} of workflow ${run.workflowId}, interrupted by a restart`);
+    await storage.updateQueuedRun(run.id, { status: 'queued', startedAt: null });
+  }
+
+  started = true;
+  const queuedCount = (await storage.getQueuedRuns({ status: ['queued'] })).length;
+  console.log(`Run queue started with ${queuedCount} queued run(s), concurrency ${getRunQueueConcurrency()}`);
+  await processQueue();
+}
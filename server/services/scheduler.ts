@@ -0,0 +1,245 @@
+/**
+ * Scheduler
+ *
+ * Runs workflows on the schedules of their schedule_trigger nodes. Each schedule
+ * trigger of an active workflow is a job with a timer for its next run; when it
+ * fires, the job adds a run to the run queue. Jobs are registered again whenever a
+ * workflow is saved or its status changes, and removed when it is deleted (see
+ * syncWorkflowSchedules).
+ *
+ * Runs of the same job never overlap: when a job is due while its previous run is
+ * still queued or running, that occurrence is skipped. The check uses the queue,
+ * so it also holds for runs picked up again after a restart. All timing goes
+ * through the scheduler clock, which tests can replace with setSchedulerClock.
+ */
+import { Workflow } from "@shared/schema";
+import { storage } from "../storage";
+import { getNextScheduleTime, getScheduleSettings, ScheduleSettings } from "../../client/src/lib/schedule";
+import { parseFlowData } from "./workflowRunner";
+import { enqueueRun, UNFINISHED_RUN_STATUSES, waitForQueuedRun } from "./runQueue";
+
+/**
+ * The time source and timers the scheduler uses
+ */
+export interface SchedulerClock {
+  now: () => Date;
+  setTimeout: (callback: () => void, delayMs: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+/**
+ * A schedule_trigger node of an active workflow
+ */
+export interface ScheduledJob {
+  workflowId: number;
+  nodeId: string;
+  settings: ScheduleSettings;
+  // Null when the schedule is invalid; `error` says why
+  nextRunAt: Date | null;
+  error?: string;
+  // Whether a run started by this job is still queued or running
+  running: boolean;
+  lastRunAt?: Date;
+  lastStatus?: string;
+  // Occurrences skipped because the previous run had not finished
+  skippedRuns: number;
+}
+
+interface JobEntry {
+  job: Omit<ScheduledJob, 'running'>;
+  timer?: unknown;
+}
+
+export const SCHEDULE_TRIGGER_NODE_TYPE = 'schedule_trigger';
+
+// Longer timeouts overflow in Node.js; timers for later runs are re-armed when they fire
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const systemClock: SchedulerClock = {
+  now: () => new Date(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+let clock: SchedulerClock = systemClock;
+
+// Jobs keyed by "workflowId:nodeId"
+const jobs = new Map<string, JobEntry>();
+
+const getJobKey = (workflowId: number, nodeId: string) => `${workflowId}:${nodeId}`;
+
+/**
+ * Replace the scheduler's clock (pass null to restore the system clock)
+ * Jobs that are already registered keep timers of the previous clock.
+ */
+export function setSchedulerClock(schedulerClock: SchedulerClock | null): void {
+  clock = schedulerClock || systemClock;
+}
+
+/**
+ * Whether a run that a job added to the queue has not finished yet
+ */
+async function hasUnfinishedRun(workflowId: number, nodeId: string): Promise<boolean> {
+  const runs = await storage.getQueuedRuns({ workflowId, status: UNFINISHED_RUN_STATUSES });
+  return runs.some(run => run.source === 'schedule' && run.sourceNodeId === nodeId);
+}
+
+/**
+ * Arm the timer for a job's next run
+ */
+function armTimer(entry: JobEntry): void {
+  const { job } = entry;
+  if (!job.nextRunAt) return;
+
+  const delayMs = Math.max(0, job.nextRunAt.getTime() - clock.now().getTime());
+  entry.timer = clock.setTimeout(() => {
+    entry.timer = undefined;
+    if (job.nextRunAt && job.nextRunAt.getTime() > clock.now().getTime()) {
+      armTimer(entry);
+    } else {
+      fireJob(entry).catch(error => console.error('Scheduler error:', error));
+    }
+  }, Math.min(delayMs, MAX_TIMER_DELAY_MS));
+}
+
+/**
+ * Plan a due job's next run, then queue this one
+ */
+async function fireJob(entry: JobEntry): Promise<void> {
+  const { job } = entry;
+  const key = getJobKey(job.workflowId, job.nodeId);
+  const scheduledAt = job.nextRunAt!;
+
+  // Intervals count from the planned time, so a slow timer does not make them drift
+  try {
+    job.nextRunAt = getNextScheduleTime(
+      job.settings,
+      job.settings.mode === 'interval' ? scheduledAt : clock.now()
+    );
+    if (job.nextRunAt.getTime() <= clock.now().getTime()) {
+      job.nextRunAt = getNextScheduleTime(job.settings, clock.now());
+    }
+  } catch (error) {
+    job.nextRunAt = null;
+    job.error = error instanceof Error ? error.message : String(error);
+  }
+  if (jobs.get(key) === entry) {
+    armTimer(entry);
+  }
+
+  if (await hasUnfinishedRun(job.workflowId, job.nodeId)) {
+    job.skippedRuns++;
+    console.warn(
+      `Skipping scheduled run of workflow ${job.workflowId} (node ${job.nodeId}): the previous run has not finished`
+    );
+    return;
+  }
+
+  const firedAt = clock.now();
+  job.lastRunAt = firedAt;
+  try {
+    const queuedRun = await enqueueRun(job.workflowId, {}, {
+      executionMode: 'schedule',
+      // Only the trigger that fired receives the schedule time
+      nodeInputs: {
+        [job.nodeId]: {
+          scheduledAt: scheduledAt.toISOString(),
+          firedAt: firedAt.toISOString(),
+          timezone: job.settings.timezone
+        }
+      }
+    }, { type: 'schedule', nodeId: job.nodeId });
+
+    const run = await waitForQueuedRun(queuedRun.id);
+    job.lastStatus = run.status;
+  } catch (error) {
+    job.lastStatus = 'failed';
+    console.error(`Scheduled run of workflow ${job.workflowId} failed:`, error);
+  }
+}
+
+/**
+ * Remove all jobs of a workflow
+ */
+export function unregisterWorkflowSchedules(workflowId: number): void {
+  jobs.forEach((entry, key) => {
+    if (entry.job.workflowId !== workflowId) return;
+    if (entry.timer !== undefined) {
+      clock.clearTimeout(entry.timer);
+    }
+    jobs.delete(key);
+  });
+}
+
+/**
+ * Register the jobs of a workflow's schedule triggers, replacing its previous jobs
+ * Only active workflows are scheduled.
+ */
+export function syncWorkflowSchedules(workflow: Workflow): void {
+  unregisterWorkflowSchedules(workflow.id);
+  if (workflow.status !== 'active') return;
+
+  let nodes: Array<{ id: string; type: string; data?: Record<string, any> }>;
+  try {
+    nodes = parseFlowData(workflow).nodes;
+  } catch (error) {
+    return;
+  }
+
+  nodes
+    .filter(node => node.type === SCHEDULE_TRIGGER_NODE_TYPE)
+    .forEach(node => {
+      const job: JobEntry['job'] = {
+        workflowId: workflow.id,
+        nodeId: node.id,
+        settings: getScheduleSettings(node.data),
+        nextRunAt: null,
+        skippedRuns: 0
+      };
+      try {
+        job.nextRunAt = getNextScheduleTime(job.settings, clock.now());
+      } catch (error) {
+        job.error = error instanceof Error ? error.message : String(error);
+        console.warn(`Schedule of workflow ${workflow.id} (node ${node.id}) is invalid: ${job.error}`);
+      }
+
+      const entry: JobEntry = { job };
+      jobs.set(getJobKey(workflow.id, node.id), entry);
+      armTimer(entry);
+    });
+}
+
+/**
+ * Register the jobs of every saved workflow
+ * Called once when the server starts, after storage has loaded.
+ */
+export async function startScheduler(): Promise<void> {
+  await storage.ready;
+  const workflows = await storage.getWorkflows();
+  workflows.forEach(syncWorkflowSchedules);
+  console.log(`Scheduler started with ${jobs.size} scheduled job(s)`);
+}
+
+/**
+ * Remove every job
+ */
+export function stopScheduler(): void {
+  jobs.forEach(entry => {
+    if (entry.timer !== undefined) {
+      clock.clearTimeout(entry.timer);
+    }
+  });
+  jobs.clear();
+}
+
+/**
+ * The registered jobs, optionally of one workflow only
+ */
+export async function getScheduledJobs(workflowId?: number): Promise<ScheduledJob[]> {
+  const entries = Array.from(jobs.values())
+    .filter(entry => workflowId === undefined || entry.job.workflowId === workflowId);
+  return Promise.all(entries.map(async entry => ({
+    ...entry.job,
+    running: await hasUnfinishedRun(entry.job.workflowId, entry.job.nodeId)
+  })));
+}
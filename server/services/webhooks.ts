@@ -0,0 +1,287 @@
+/**
+ * Webhooks
+ *
+ * Checks calls to webhook_trigger nodes against the node's settings before a
+ * run is queued: the HTTP method must be one of the node's allowed methods, and
+ * nodes with an auth type must receive their secret (an X-API-Key header for
+ * "apiKey", an Authorization: Bearer header for "bearer") or, for "hmac", a
+ * signature of the raw request body made with it. Calls that fail a check are
+ * answered with 405 or 401 and never reach the run queue or the run logs.
+ *
+ * Every call, accepted or rejected, is counted in the webhook metrics. Metrics
+ * are kept in memory and start over when the server restarts.
+ */
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { IncomingHttpHeaders, IncomingMessage } from "http";
+import { Workflow } from "@shared/schema";
+import {
+  getWebhookTriggerSettings,
+  WebhookSignatureSettings,
+  WebhookTriggerSettings
+} from "../../client/src/nodes/System/webhook_trigger/executor";
+import { parseFlowData } from "./workflowRunner";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The request body as received, kept for webhook routes (see keepWebhookRawBody)
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export const WEBHOOK_TRIGGER_NODE_TYPE = 'webhook_trigger';
+
+export const WEBHOOK_PATH_PREFIX = '/api/webhooks';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * How long a webhook call waits for its run unless WEBHOOK_RESPONSE_TIMEOUT (in ms)
+ * says otherwise. Calls whose run takes longer are answered with 202 and the
+ * queued run's ID.
+ */
+export const DEFAULT_WEBHOOK_RESPONSE_TIMEOUT = 30000;
+
+/**
+ * Why a webhook call was turned away
+ */
+export type WebhookRejectionReason = 'unauthorized' | 'method_not_allowed';
+
+export interface WebhookRejection {
+  status: 401 | 405;
+  reason: WebhookRejectionReason;
+  message: string;
+  // Response headers for the caller (Allow, WWW-Authenticate)
+  headers: Record<string, string>;
+}
+
+/**
+ * Request counts of one webhook trigger since the server started
+ */
+export interface WebhookMetrics {
+  workflowId: number;
+  nodeId: string;
+  received: number;
+  accepted: number;
+  rejected: Record<WebhookRejectionReason, number>;
+  lastReceivedAt?: Date;
+  lastRejectedAt?: Date;
+  lastRejection?: string;
+}
+
+// Metrics keyed by "workflowId:nodeId"
+const metrics = new Map<string, WebhookMetrics>();
+
+const getMetricsKey = (workflowId: number, nodeId: string) => `${workflowId}:${nodeId}`;
+
+/**
+ * How long a webhook call waits for its run, in milliseconds
+ */
+export function getWebhookResponseTimeout(): number {
+  const timeout = parseInt(process.env.WEBHOOK_RESPONSE_TIMEOUT || '', 10);
+  return timeout > 0 ? timeout : DEFAULT_WEBHOOK_RESPONSE_TIMEOUT;
+}
+
+/**
+ * The settings of a workflow's webhook trigger node, or undefined when the
+ * workflow has no webhook trigger with that ID
+ */
+export function getWebhookTrigger(workflow: Workflow, nodeId: string): WebhookTriggerSettings | undefined {
+  let nodes: Array<{ id: string; type: string; data?: Record<string, any> }>;
+  try {
+    nodes = parseFlowData(workflow).nodes;
+  } catch (error) {
+    return undefined;
+  }
+
+  const node = nodes.find(node => node.id === nodeId && node.type === WEBHOOK_TRIGGER_NODE_TYPE);
+  return node ? getWebhookTriggerSettings(node.data) : undefined;
+}
+
+/**
+ * Compare a credential with the secret without leaking where they differ
+ */
+function matchesSecret(credential: string | undefined, secret: string): boolean {
+  if (!credential) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(credential), digest(secret));
+}
+
+function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Body parser `verify` hook that keeps the raw body of webhook requests
+ * Signatures are computed over the exact bytes the caller sent, which parsing
+ * the body loses.
+ */
+export function keepWebhookRawBody(req: IncomingMessage, _res: unknown, buf: Buffer): void {
+  // Parsers mounted on a path see req.url without it; originalUrl is the full URL
+  const request = req as IncomingMessage & { originalUrl?: string; rawBody?: Buffer };
+  if ((request.originalUrl ?? request.url)?.startsWith(WEBHOOK_PATH_PREFIX)) {
+    request.rawBody = buf;
+  }
+}
+
+/**
+ * Read the signatures (and the timestamp, if any) from a signature header
+ * Accepts a bare signature ("3a7f…"), one prefixed with the algorithm
+ * ("sha256=3a7f…", as GitHub sends it) and Stripe's "t=<timestamp>,v1=<signature>".
+ */
+function parseSignatureHeader(value: string): { signatures: string[]; timestamp?: string } {
+  const parts = value.split(',').map(part => part.trim());
+  const timestampPart = parts.find(part => part.startsWith('t='));
+  if (timestampPart) {
+    return {
+      timestamp: timestampPart.slice(2),
+      signatures: parts.filter(part => part.startsWith('v1=')).map(part => part.slice(3))
+    };
+  }
+  return { signatures: [value.trim().replace(/^sha(1|256)=/i, '')] };
+}
+
+/**
+ * Verify the HMAC signature of a webhook call
+ * With a timestamp, the signed content is "<timestamp>.<raw body>", so the
+ * timestamp cannot be changed to replay an old call. Returns why the call is
+ * not authentic, or null when it is.
+ */
+function verifySignature(
+  headers: IncomingHttpHeaders,
+  rawBody: Buffer,
+  secret: string,
+  signature: WebhookSignatureSettings
+): string | null {
+  const headerValue = getHeader(headers, signature.header);
+  if (!headerValue) {
+    return `Missing ${signature.header} header`;
+  }
+
+  const parsed = parseSignatureHeader(headerValue);
+  const timestamp = parsed.timestamp
+    ?? (signature.timestampHeader ? getHeader(headers, signature.timestampHeader) : undefined);
+
+  if (signature.tolerance > 0) {
+    const signedAt = Number(timestamp);
+    if (!timestamp || isNaN(signedAt)) {
+      return 'Missing webhook timestamp';
+    }
+    if (Math.abs(Date.now() / 1000 - signedAt) > signature.tolerance) {
+      return `Webhook timestamp is more than ${signature.tolerance}s off`;
+    }
+  }
+
+  const hmac = createHmac(signature.algorithm, secret);
+  if (timestamp) {
+    hmac.update(`${timestamp}.`);
+  }
+  const expected = hmac.update(rawBody).digest(signature.encoding);
+  const normalize = (value: string) => signature.encoding === 'hex' ? value.toLowerCase() : value;
+
+  return parsed.signatures.some(candidate => matchesSecret(normalize(candidate), expected))
+    ? null
+    : 'Invalid webhook signature';
+}
+
+/**
+ * Check a webhook call against its trigger's settings
+ * Returns why the call is rejected, or null when it may run the workflow.
+ * A trigger with an auth type but no secret rejects every call.
+ */
+export function checkWebhookRequest(
+  request: { method: string; headers: IncomingHttpHeaders; rawBody?: Buffer },
+  settings: WebhookTriggerSettings
+): WebhookRejection | null {
+  if (!settings.methods.includes(request.method.toUpperCase())) {
+    return {
+      status: 405,
+      reason: 'method_not_allowed',
+      message: `Method ${request.method} is not allowed for this webhook`,
+      headers: { Allow: settings.methods.join(', ') }
+    };
+  }
+
+  if (settings.authType === 'none') return null;
+
+  const unauthorized = (message: string): WebhookRejection => ({
+    status: 401,
+    reason: 'unauthorized',
+    message,
+    headers: settings.authType === 'bearer' ? { 'WWW-Authenticate': 'Bearer' } : {}
+  });
+
+  if (!settings.secret) {
+    return unauthorized('Webhook authentication is enabled but no secret is configured');
+  }
+
+  if (settings.authType === 'hmac') {
+    const error = verifySignature(request.headers, request.rawBody || Buffer.alloc(0), settings.secret, settings.signature);
+    return error ? unauthorized(error) : null;
+  }
+
+  const credential = settings.authType === 'apiKey'
+    ? getHeader(request.headers, API_KEY_HEADER)
+    : getHeader(request.headers, 'authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+
+  if (!matchesSecret(credential, settings.secret)) {
+    return unauthorized(settings.authType === 'apiKey'
+      ? 'Missing or invalid X-API-Key header'
+      : 'Missing or invalid bearer token');
+  }
+  return null;
+}
+
+/**
+ * The request headers to hand to the workflow, without the credential the call
+ * authenticated with
+ */
+export function getForwardedHeaders(headers: IncomingHttpHeaders, settings: WebhookTriggerSettings): IncomingHttpHeaders {
+  const forwarded = { ...headers };
+  if (settings.authType === 'apiKey') {
+    delete forwarded[API_KEY_HEADER];
+  } else if (settings.authType === 'bearer') {
+    delete forwarded.authorization;
+  }
+  return forwarded;
+}
+
+/**
+ * Count a webhook call, with the reason when it was rejected
+ */
+export function recordWebhookRequest(
+  workflowId: number,
+  nodeId: string,
+  rejection: WebhookRejection | null = null
+): void {
+  const key = getMetricsKey(workflowId, nodeId);
+  const entry = metrics.get(key) || {
+    workflowId,
+    nodeId,
+    received: 0,
+    accepted: 0,
+    rejected: { unauthorized: 0, method_not_allowed: 0 }
+  };
+
+  const now = new Date();
+  entry.received++;
+  entry.lastReceivedAt = now;
+  if (rejection) {
+    entry.rejected[rejection.reason]++;
+    entry.lastRejectedAt = now;
+    entry.lastRejection = rejection.message;
+  } else {
+    entry.accepted++;
+  }
+  metrics.set(key, entry);
+}
+
+/**
+ * The webhook metrics, optionally of one workflow only
+ */
+export function getWebhookMetrics(workflowId?: number): WebhookMetrics[] {
+  return Array.from(metrics.values())
+    .filter(entry => workflowId === undefined || entry.workflowId === workflowId);
+}
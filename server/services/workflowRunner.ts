@@ -0,0 +1,704 @@
+/**
+ * Workflow Runner
+ *
+ * Server-side workflow execution. Saved workflows are executed with the same
+ * enhanced workflow engine and folder-based node executors that the canvas uses,
+ * so API, webhook and message-triggered runs produce the same results as a
+ * run started in the browser.
+ */
+import { v4 as uuidv4 } from "uuid";
+import {
+  Approval,
+  ExecutionNodeRecord,
+  ExecutionRecord,
+  InsertLog,
+  Workflow,
+  WorkflowEnvironment,
+  workflowEnvironmentSchema
+} from "@shared/schema";
+import { storage } from "../storage";
+import { createNodeEventPublisher, getValuePreview, publishRunEvent } from "./runEvents";
+import {
+  ERROR_OUTPUT_PORT,
+  executeEnhancedWorkflow,
+  getRerunPresetOutputs,
+  registerFolderNodeExecutors
+} from "../../client/src/lib/enhancedWorkflowEngine";
+import {
+  createExecutionDataFromValue,
+  isWorkflowEntryNode,
+  isWorkflowOutputNode,
+  NodeAttempt,
+  NodeExecutionData,
+  NodeState,
+  WorkflowData,
+  WorkflowExecutionState
+} from "../../client/src/lib/types/workflow";
+import { nodeExecutors } from "../../client/src/nodes/executors";
+import { createApprovalDecisionOutput } from "../../client/src/nodes/System/approval/executor";
+import { setWorkflowRunner } from "../../client/src/nodes/System/execute_workflow/executor";
+import { getWebhookHttpResponse } from "../../client/src/nodes/System/webhook_response/executor";
+
+/**
+ * Options accepted by runWorkflow
+ */
+export interface RunWorkflowOptions {
+  includeDetail?: boolean;
+  debug?: boolean;
+  executionMode?: string;
+  // Input for specific entry nodes, keyed by node ID (takes precedence over the run input)
+  nodeInputs?: Record<string, any>;
+  // IDs of the workflows that called this one through execute_workflow nodes, outermost first
+  // (set by those nodes only, never taken from a request, so the depth limit holds)
+  callStack?: number[];
+  // Execution log of the calling workflow run
+  parentLogId?: number;
+  // Cancels the run between nodes; executors receive it for their network calls
+  signal?: AbortSignal;
+  // Called whenever a node starts, finishes or fails (used to report run progress)
+  onNodeStateChange?: (nodeId: string, state: NodeState) => void;
+  // ID that run events are published under (generated when not given)
+  runId?: string;
+  // Run from this node: it and everything downstream of it execute again, the other
+  // nodes reuse their outputs from an earlier run (by default the most recent one)
+  rerunFrom?: { nodeId: string; executionRecordId?: number };
+  // Awaited before each node executes (see the step-through debugger in workflowDebugger.ts)
+  beforeNode?: (nodeId: string, nodeType: string, inputs: Record<string, NodeExecutionData>, outputs: Record<string, NodeExecutionData>) => Promise<void>;
+  // Environment whose workflow variables the run uses (see getDefaultEnvironment)
+  environment?: WorkflowEnvironment;
+  // Continue the run that this approval suspended, once the approval is decided
+  resumeFromApproval?: number;
+}
+
+/**
+ * How deep execute_workflow nodes may nest, which stops runaway recursion
+ */
+export const MAX_WORKFLOW_CALL_DEPTH = 5;
+
+let executorsRegistered = false;
+
+/**
+ * Register the folder-based node executors with the engine (once per process)
+ */
+function ensureNodeExecutorsRegistered(): void {
+  if (executorsRegistered) return;
+  registerFolderNodeExecutors(nodeExecutors);
+  // Sub-workflows run in this process instead of through the HTTP API
+  setWorkflowRunner(({ workflowId, input, ...options }) => runWorkflow(workflowId, input, options));
+  executorsRegistered = true;
+}
+
+/**
+ * API keys saved through /api/config, read for every run so updated keys apply
+ * to the next one. Node executors use them when no key is set on the node itself.
+ */
+async function getStoredApiKeys(): Promise<Record<string, string | undefined>> {
+  const apiConfig = await storage.getSetting('api_config');
+  const { claudeApiKey, perplexityApiKey, openaiApiKey } = apiConfig?.value || {};
+  return { claude: claudeApiKey, perplexity: perplexityApiKey, openai: openaiApiKey };
+}
+
+/**
+ * Environment of runs that do not request one: the WORKFLOW_ENVIRONMENT
+ * environment variable when it names a valid environment, otherwise "dev"
+ */
+export function getDefaultEnvironment(): WorkflowEnvironment {
+  const result = workflowEnvironmentSchema.safeParse(process.env.WORKFLOW_ENVIRONMENT);
+  return result.success ? result.data : "dev";
+}
+
+/**
+ * Parse a workflow's flow data (stored either as a string or as an object)
+ */
+export function parseFlowData(workflow: Workflow): WorkflowData {
+  let flowData: WorkflowData;
+  try {
+    if (typeof workflow.flowData === 'string') {
+      flowData = JSON.parse(workflow.flowData);
+    } else {
+      flowData = workflow.flowData as any;
+    }
+  } catch (error) {
+    console.error(`Error parsing workflow data for workflow ${workflow.id}:`, error);
+    throw new Error("Invalid workflow data structure");
+  }
+
+  // Ensure we have nodes and edges
+  if (!flowData || !Array.isArray(flowData.nodes) || !Array.isArray(flowData.edges)) {
+    throw new Error("Workflow missing nodes or edges");
+  }
+
+  return flowData;
+}
+
+/**
+ * Whether the caller actually provided input for the run
+ */
+function hasRunInput(input: any): boolean {
+  if (input === undefined || input === null || input === '') return false;
+  if (typeof input === 'object' && !Array.isArray(input) && Object.keys(input).length === 0) return false;
+  return true;
+}
+
+/**
+ * Convert node execution data to a plain value for API responses
+ */
+export function getExecutionDataValue(data?: NodeExecutionData): any {
+  if (!data || !Array.isArray(data.items) || data.items.length === 0) {
+    return undefined;
+  }
+  return data.items.length === 1 ? data.items[0].json : data.items.map(item => item.json);
+}
+
+/**
+ * Get the error a node reported in its output, if any
+ */
+function getOutputErrorMessage(data?: NodeExecutionData): string | undefined {
+  if (!data?.meta?.error) return undefined;
+
+  const { error, errorMessage, message } = data.meta;
+  if (errorMessage) return errorMessage;
+  if (typeof error === 'object' && error?.message) return error.message;
+  return message || 'Node reported an error';
+}
+
+/**
+ * The error of a node that the workflow does not handle, if any
+ * A node fails the run when it ended in error or its output reports an error.
+ * Failures sent to the node's error output port are handled, unless nothing is
+ * connected to that port.
+ */
+function getUnhandledNodeError(
+  flowData: WorkflowData,
+  executionState: WorkflowExecutionState,
+  nodeId: string
+): string | undefined {
+  const state = executionState.nodeStates[nodeId];
+  if (state.status === 'error') return state.error;
+
+  const output: NodeExecutionData | undefined = executionState.nodeOutputs[nodeId];
+  const error = getOutputErrorMessage(output);
+  if (error || !output?.meta?.errorOutput) return error;
+
+  const errorPortConnected = flowData.edges.some(edge =>
+    edge.source === nodeId && edge.sourceHandle === ERROR_OUTPUT_PORT
+  );
+  const errorItem = output.items.find(item => item.meta?.outputType === ERROR_OUTPUT_PORT);
+  return errorItem && !errorPortConnected ? String(errorItem.json?.error ?? errorItem.text) : undefined;
+}
+
+// Keys holding credentials: API keys, secrets, passwords, tokens, and auth and signature headers
+const SECRET_KEY_PATTERN = /(api[-_]?key|secret|password|private[-_]?key|authorization|cookie|-signature(-\d+)?)$|^(access|refresh|auth|bearer)?[-_]?token$/i;
+
+export const REDACTED_VALUE = '[redacted]';
+
+/**
+ * A copy of a value with the values of credential keys (at any depth) replaced,
+ * for data that execution records keep. Circular references (e.g. in a raw HTTP
+ * response) are cut off.
+ */
+export function redactSecrets<T>(value: T): T {
+  const ancestors = new WeakSet<object>();
+  const redact = (entry: any): any => {
+    if (!entry || typeof entry !== 'object' || entry instanceof Date) return entry;
+    if (ancestors.has(entry)) return '[Circular]';
+
+    ancestors.add(entry);
+    const copy = Array.isArray(entry)
+      ? entry.map(redact)
+      : Object.fromEntries(Object.entries(entry).map(([key, item]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && item ? REDACTED_VALUE : redact(item)
+      ]));
+    ancestors.delete(entry);
+    return copy;
+  };
+  return redact(value);
+}
+
+/**
+ * Capture what each node received and produced, for the run's execution record
+ * Credentials in inputs and outputs are redacted (see redactSecrets).
+ */
+function getNodeRecords(
+  flowData: WorkflowData,
+  executionState: WorkflowExecutionState,
+  nodeIds: string[]
+): Record<string, ExecutionNodeRecord> {
+  const nodeTypes = new Map(flowData.nodes.map(node => [node.id, node.type]));
+  const records: Record<string, ExecutionNodeRecord> = {};
+
+  nodeIds.forEach(nodeId => {
+    const state = executionState.nodeStates[nodeId];
+    records[nodeId] = {
+      nodeId,
+      nodeType: nodeTypes.get(nodeId) || 'unknown',
+      status: state.status,
+      inputs: redactSecrets(state.input || {}),
+      output: redactSecrets(executionState.nodeOutputs[nodeId]),
+      error: state.error ?? null,
+      attempts: state.attempts || [],
+      startedAt: state.startTime,
+      completedAt: state.endTime
+    };
+  });
+
+  return records;
+}
+
+/**
+ * Find the earlier run whose node outputs a "run from here" reuses
+ */
+async function getRerunSource(workflowId: number, executionRecordId?: number): Promise<ExecutionRecord> {
+  if (executionRecordId !== undefined) {
+    const record = await storage.getExecutionRecord(executionRecordId);
+    if (!record || record.workflowId !== workflowId) {
+      throw new Error(`Execution record ${executionRecordId} not found for workflow ${workflowId}`);
+    }
+    return record;
+  }
+
+  const records = await storage.getExecutionRecords(workflowId);
+  const record = records.find(candidate =>
+    candidate.status !== 'running' && Object.keys(candidate.nodes).length > 0
+  );
+  if (!record) {
+    throw new Error(`Workflow ${workflowId} has no previous run to reuse node outputs from`);
+  }
+  return record;
+}
+
+/**
+ * Get the outputs a decided approval resumes its run with: those of the nodes that
+ * ran before the run was suspended, and the approval node's decision
+ */
+async function getApprovalResumeOutputs(
+  workflowId: number,
+  approvalId: number
+): Promise<{ approval: Approval; presetOutputs: Record<string, NodeExecutionData> }> {
+  const approval = await storage.getApproval(approvalId);
+  if (!approval || approval.workflowId !== workflowId) {
+    throw new Error(`Approval ${approvalId} not found for workflow ${workflowId}`);
+  }
+  if (approval.status === 'pending') {
+    throw new Error(`Approval ${approvalId} has not been decided yet`);
+  }
+
+  const presetOutputs: Record<string, NodeExecutionData> = { ...approval.runState.nodeOutputs };
+  presetOutputs[approval.nodeId] = createApprovalDecisionOutput(approval.runState.nodeOutputs[approval.nodeId], {
+    status: approval.status,
+    comment: approval.comment,
+    decidedBy: approval.decidedBy,
+    decidedAt: approval.decidedAt ? new Date(approval.decidedAt) : new Date()
+  });
+  return { approval, presetOutputs };
+}
+
+/**
+ * Utility function to execute a workflow
+ * This is exported for use in routes, tools and other modules
+ */
+export async function runWorkflow(
+  workflowId: number,
+  input: any,
+  options: RunWorkflowOptions = {}
+): Promise<any> {
+
+  // Default options
+  const {
+    includeDetail = false,
+    debug = false,
+    executionMode = "step",
+    nodeInputs = {},
+    callStack = [],
+    parentLogId,
+    signal,
+    onNodeStateChange,
+    runId = uuidv4(),
+    rerunFrom,
+    beforeNode,
+    environment = getDefaultEnvironment(),
+    resumeFromApproval
+  } = options;
+
+  if (callStack.length >= MAX_WORKFLOW_CALL_DEPTH) {
+    throw new Error(
+      `Maximum workflow call depth of ${MAX_WORKFLOW_CALL_DEPTH} exceeded: ${[...callStack, workflowId].join(' -> ')}`
+    );
+  }
+
+  // Get workflow
+  const workflow = await storage.getWorkflow(workflowId);
+  if (!workflow) {
+    throw new Error("Workflow not found");
+  }
+
+  const flowData = parseFlowData(workflow);
+
+  // Outputs of the nodes that a "run from here" does not execute again
+  let rerunSource: ExecutionRecord | undefined;
+  let rerunPresetOutputs: Record<string, NodeExecutionData> = {};
+  if (rerunFrom) {
+    rerunSource = await getRerunSource(workflowId, rerunFrom.executionRecordId);
+    const previousOutputs: Record<string, NodeExecutionData> = {};
+    Object.values(rerunSource.nodes).forEach(nodeRecord => {
+      if (nodeRecord.status === 'completed' && nodeRecord.output) {
+        previousOutputs[nodeRecord.nodeId] = nodeRecord.output;
+      }
+    });
+    rerunPresetOutputs = getRerunPresetOutputs(flowData, rerunFrom.nodeId, previousOutputs);
+  }
+  const rerunDetails = rerunFrom && rerunSource
+    ? { nodeId: rerunFrom.nodeId, executionRecordId: rerunSource.id }
+    : undefined;
+
+  // Outputs of the nodes that ran before an approval suspended the run
+  const resumed = resumeFromApproval !== undefined
+    ? await getApprovalResumeOutputs(workflowId, resumeFromApproval)
+    : undefined;
+
+  // Create a log entry for this workflow execution
+  const logEntry: InsertLog = {
+    agentId: workflow.agentId || 1, // Default to agent 1 if null
+    workflowId: workflowId,
+    status: "running",
+    input: input,
+    output: {}, // Initialize with empty object
+    executionPath: {
+      execution_type: "workflow_execution",
+      source: "workflow_engine",
+      message: `Starting workflow execution: ${workflow.name}`,
+      status: "in_progress",
+      environment,
+      ...(parentLogId !== undefined ? { parentLogId, callStack } : {}),
+      ...(resumed ? { resumedFromApproval: resumed.approval.id, resumedFromLogId: resumed.approval.logId } : {})
+    }
+  };
+  const executionLog = await storage.createLog(logEntry);
+
+  // The execution record keeps a copy of the flow data as it ran, so later edits
+  // to the workflow do not change what the record shows. It keeps no credentials.
+  const executionRecord = await storage.createExecutionRecord({
+    workflowId,
+    logId: executionLog.id,
+    runId,
+    status: "running",
+    input: redactSecrets(input),
+    workflowSnapshot: redactSecrets(JSON.parse(JSON.stringify(flowData))),
+    nodes: {},
+    executionOrder: [],
+    rerunFrom: rerunDetails ?? null,
+    environment
+  });
+
+  // Stream the progress of the run (see runEvents.ts)
+  const runStartTime = Date.now();
+  const runEvent = { runId, workflowId, logId: executionLog.id };
+  const publishRunFinished = (
+    status: 'completed' | 'error' | 'cancelled' | 'suspended',
+    output?: any,
+    error?: string,
+    approvalId?: number
+  ) => {
+    publishRunEvent({
+      ...runEvent,
+      type: 'run_finished',
+      timestamp: new Date().toISOString(),
+      status,
+      error,
+      outputPreview: output,
+      approvalId,
+      durationMs: Date.now() - runStartTime
+    });
+  };
+  const publishNodeEvent = createNodeEventPublisher(runEvent);
+  publishRunEvent({ ...runEvent, type: 'run_started', timestamp: new Date().toISOString() });
+
+  // Start executing the workflow
+  console.log(`Executing workflow ${workflowId}: ${workflow.name}`);
+
+  try {
+    if (flowData.nodes.length === 0) {
+      const result = {
+        output: "Workflow is empty (no nodes to execute)",
+        outputs: {},
+        nodeOutputs: {},
+        executionDetails: {
+          workflowId,
+          executionTime: 0,
+          nodeCount: 0,
+          executionOrder: [],
+          status: "completed",
+          logId: executionLog.id,
+          executionRecordId: executionRecord.id,
+          runId,
+          environment,
+        }
+      };
+
+      // Update the log entry
+      // Get the current executionPath or create an empty object if it doesn't exist
+      const currentExecutionPath = executionLog.executionPath || {};
+
+      await storage.updateLog(executionLog.id, {
+        status: "completed",
+        output: { result: result.output },
+        completedAt: new Date(),
+        executionPath: {
+          ...currentExecutionPath,
+          message: `Workflow execution completed: ${workflow.name}`,
+          status: "completed",
+          executionRecordId: executionRecord.id
+        }
+      });
+      await storage.updateExecutionRecord(executionRecord.id, {
+        status: "completed",
+        output: redactSecrets(result.output),
+        completedAt: new Date()
+      });
+
+      publishRunFinished("completed", getValuePreview(result.output));
+      return result;
+    }
+
+    ensureNodeExecutorsRegistered();
+    const apiKeys = await getStoredApiKeys();
+
+    // The run input replaces the output of input and trigger nodes.
+    // Without input, those nodes run with their configured data, as on the canvas.
+    const inputNodes = flowData.nodes.filter(isWorkflowEntryNode);
+    const outputNodes = flowData.nodes.filter(isWorkflowOutputNode);
+    const presetOutputs: Record<string, NodeExecutionData> = {};
+    inputNodes.forEach(node => {
+      const nodeInput = node.id in nodeInputs ? nodeInputs[node.id] : input;
+      if (hasRunInput(nodeInput)) {
+        presetOutputs[node.id] = createExecutionDataFromValue(nodeInput, 'workflow_input');
+      }
+    });
+    Object.assign(presetOutputs, rerunPresetOutputs, resumed?.presetOutputs);
+
+    // For debug mode, include more details in logs
+    if (debug) {
+      console.log("Execution mode:", executionMode);
+      console.log("Input nodes:", inputNodes.map(n => n.id));
+      console.log("Output nodes:", outputNodes.map(n => n.id));
+      console.log("Edges:", flowData.edges);
+    }
+
+    // Start a timer for overall execution
+    const executionStartTime = Date.now();
+
+    const executionState = await executeEnhancedWorkflow(
+      flowData,
+      (nodeId, state) => {
+        publishNodeEvent(nodeId, state);
+        onNodeStateChange?.(nodeId, state);
+      },
+      undefined,
+      {
+        debugMode: debug,
+        metadata: {
+          workflowId,
+          executionMode,
+          source: 'server',
+          logId: executionLog.id,
+          environment,
+          // Includes this workflow, so execute_workflow nodes can pass it on
+          callStack: [...callStack, workflowId],
+          apiKeys
+        },
+        presetOutputs,
+        signal,
+        beforeNode,
+        variables: workflow.variables?.[environment] || {}
+      }
+    );
+
+    // Calculate execution time
+    const executionEndTime = Date.now();
+    const executionTime = executionEndTime - executionStartTime;
+
+    // Independent nodes may finish in any order, so results follow the resolved order.
+    // Nodes on inactive branches are reported separately from the execution order.
+    const resolvedOrder = (executionState.executionOrder || Object.keys(executionState.nodeStates))
+      .filter(nodeId => executionState.nodeStates[nodeId]);
+    const nodeExecutionOrder = resolvedOrder
+      .filter(nodeId => executionState.nodeStates[nodeId].status !== 'skipped');
+    const skippedNodes = resolvedOrder
+      .filter(nodeId => executionState.nodeStates[nodeId].status === 'skipped');
+
+    // Get the final output from output nodes, falling back to the last executed node
+    const outputs: Record<string, any> = {};
+    const outputValues: any[] = [];
+    outputNodes.forEach(node => {
+      const value = getExecutionDataValue(executionState.nodeOutputs[node.id]);
+      if (value !== undefined) {
+        outputs[node.id] = value;
+        outputValues.push(value);
+      }
+    });
+    const fallbackOutput = getExecutionDataValue(executionState.output);
+    const finalOutput = outputValues.length > 0
+      ? outputValues[0]
+      : fallbackOutput !== undefined ? fallbackOutput : "No output produced";
+
+    // Find the errors the workflow does not handle, including errors reported in node outputs
+    const errors: Array<{ nodeId?: string, error: string }> = [];
+    resolvedOrder.forEach(nodeId => {
+      const error = getUnhandledNodeError(flowData, executionState, nodeId);
+      if (error) {
+        errors.push({ nodeId, error });
+      }
+    });
+    if ((executionState.status === 'error' || executionState.status === 'cancelled') && executionState.error) {
+      errors.push({ error: executionState.error });
+    }
+
+    // A run suspended at an approval node is saved as a pending approval; deciding it
+    // resumes the run. Sub-workflow runs cannot wait, since their caller needs a result.
+    let approval: Approval | undefined;
+    if (executionState.status === 'suspended' && executionState.suspendedNodeId) {
+      const nodeId = executionState.suspendedNodeId;
+      const waitingOutput: NodeExecutionData | undefined = executionState.nodeStates[nodeId].output;
+      if (callStack.length > 0) {
+        errors.push({ nodeId, error: "Approval nodes cannot pause a workflow run by an execute_workflow node" });
+      } else {
+        approval = await storage.createApproval({
+          workflowId,
+          agentId: workflow.agentId ?? null,
+          nodeId,
+          status: "pending",
+          title: waitingOutput?.meta?.approval?.title || "Approval required",
+          message: waitingOutput?.meta?.approval?.message ?? null,
+          data: getExecutionDataValue(waitingOutput) ?? null,
+          runState: {
+            input,
+            options: { debug, executionMode, environment },
+            nodeOutputs: { ...executionState.nodeOutputs, [nodeId]: waitingOutput }
+          },
+          logId: executionLog.id,
+          executionRecordId: executionRecord.id,
+          runId
+        });
+        console.log(`Workflow ${workflowId} is waiting for approval ${approval.id} (node ${nodeId})`);
+      }
+    }
+
+    // The first webhook_response node in respond mode sets the response to the calling webhook
+    const webhookResponse = resolvedOrder
+      .map(nodeId => getWebhookHttpResponse(executionState.nodeOutputs[nodeId]))
+      .find(response => response !== undefined);
+
+    const executionStatus = executionState.status === 'cancelled'
+      ? "cancelled"
+      : approval ? "suspended" : errors.length > 0 ? "error" : "completed";
+    const runOutput = approval
+      ? { approvalId: approval.id, status: "waiting_for_approval", title: approval.title }
+      : finalOutput;
+
+    // Collect node timings, and every attempt of nodes that were retried
+    const nodeExecutionTimes: Record<string, { start: number, end: number }> = {};
+    const nodeAttempts: Record<string, NodeAttempt[]> = {};
+    resolvedOrder.forEach(nodeId => {
+      const state = executionState.nodeStates[nodeId];
+      nodeExecutionTimes[nodeId] = {
+        start: state.startTime.getTime(),
+        end: state.endTime ? state.endTime.getTime() : 0
+      };
+      if (state.attempts?.some(attempt => attempt.attempt > 1)) {
+        nodeAttempts[nodeId] = state.attempts;
+      }
+    });
+
+    const result = {
+      output: runOutput,
+      outputs,
+      errors: errors.length > 0 ? errors : undefined,
+      webhookResponse,
+      nodeOutputs: includeDetail ? executionState.nodeOutputs : undefined,
+      executionDetails: {
+        workflowId,
+        executionTime,
+        nodeCount: flowData.nodes.length,
+        nodesExecuted: nodeExecutionOrder.length,
+        executionOrder: nodeExecutionOrder,
+        skippedNodes,
+        executionTimes: includeDetail ? nodeExecutionTimes : undefined,
+        attempts: includeDetail ? nodeAttempts : undefined,
+        status: executionStatus,
+        logId: executionLog.id,
+        executionRecordId: executionRecord.id,
+        runId,
+        environment,
+        rerunFrom: rerunDetails,
+        reusedNodes: rerunDetails ? Object.keys(rerunPresetOutputs) : undefined,
+        approvalId: approval?.id,
+        resumedFromApproval: resumed?.approval.id,
+      }
+    };
+
+    // Update the log entry
+    const currentExecPath = executionLog.executionPath || {};
+    await storage.updateLog(executionLog.id, {
+      status: executionStatus,
+      output: runOutput !== null && typeof runOutput === 'object' && !Array.isArray(runOutput)
+        ? runOutput
+        : { result: runOutput },
+      error: errors.length > 0 ? JSON.stringify(errors) : null,
+      completedAt: new Date(),
+      executionPath: {
+        ...currentExecPath,
+        message: approval
+          ? `Workflow execution waiting for approval ${approval.id}: ${workflow.name}`
+          : `Workflow execution ${executionStatus}: ${workflow.name}`,
+        executionTime,
+        nodesExecuted: nodeExecutionOrder.length,
+        executionRecordId: executionRecord.id,
+        ...(approval ? { approvalId: approval.id } : {})
+      }
+    });
+    await storage.updateExecutionRecord(executionRecord.id, {
+      status: executionStatus,
+      output: redactSecrets(runOutput),
+      error: errors.length > 0 ? JSON.stringify(errors) : null,
+      nodes: getNodeRecords(flowData, executionState, resolvedOrder),
+      executionOrder: resolvedOrder,
+      completedAt: new Date()
+    });
+
+    publishRunFinished(
+      executionStatus,
+      getValuePreview(runOutput),
+      errors.length > 0 ? errors[errors.length - 1].error : undefined,
+      approval?.id
+    );
+    return result;
+
+  } catch (error) {
+    console.error(`Workflow execution error:`, error);
+
+    // Update the log entry with the error
+    await storage.updateLog(executionLog.id, {
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+      executionPath: {
+        message: `Workflow execution failed: ${workflow.name}`,
+        status: "failed",
+        executionRecordId: executionRecord.id
+      }
+    });
+    await storage.updateExecutionRecord(executionRecord.id, {
+      status: signal?.aborted ? "cancelled" : "error",
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date()
+    });
+
+    publishRunFinished(
+      signal?.aborted ? "cancelled" : "error",
+      undefined,
+      error instanceof Error ? error.message : String(error)
+    );
+    throw error;
+  }
+}
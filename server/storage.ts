@@ -11,6 +11,9 @@ import {
   type Workflow, type InsertWorkflow,
   type Node, type InsertNode,
   type Log, type InsertLog,
+  type ExecutionRecord, type InsertExecutionRecord,
+  type QueuedRun, type InsertQueuedRun, type QueuedRunStatus,
+  type Approval, type InsertApproval, type ApprovalStatus,
   type Settings, type InsertSettings
 } from "@shared/schema";
 
@@ -55,6 +58,24 @@ export interface IStorage {
   createLog(log: InsertLog): Promise<Log>;
   updateLog(id: number, log: Partial<Log>): Promise<Log | undefined>;
   
+  // Execution record methods
+  getExecutionRecords(workflowId?: number, limit?: number): Promise<ExecutionRecord[]>;
+  getExecutionRecord(id: number): Promise<ExecutionRecord | undefined>;
+  createExecutionRecord(record: InsertExecutionRecord): Promise<ExecutionRecord>;
+  updateExecutionRecord(id: number, record: Partial<ExecutionRecord>): Promise<ExecutionRecord | undefined>;
+  
+  // Run queue methods
+  getQueuedRuns(filter?: { workflowId?: number; status?: QueuedRunStatus[]; limit?: number }): Promise<QueuedRun[]>;
+  getQueuedRun(id: number): Promise<QueuedRun | undefined>;
+  createQueuedRun(run: InsertQueuedRun): Promise<QueuedRun>;
+  updateQueuedRun(id: number, run: Partial<QueuedRun>): Promise<QueuedRun | undefined>;
+  
+  // Approval methods
+  getApprovals(filter?: { workflowId?: number; agentId?: number; status?: ApprovalStatus }): Promise<Approval[]>;
+  getApproval(id: number): Promise<Approval | undefined>;
+  createApproval(approval: InsertApproval): Promise<Approval>;
+  updateApproval(id: number, approval: Partial<Approval>): Promise<Approval | undefined>;
+  
   // Settings methods
   getSetting(id: string): Promise<Settings | undefined>;
   saveSetting(setting: InsertSettings): Promise<Settings>;
@@ -71,15 +92,23 @@ export class MemStorage implements IStorage {
   private workflows: Map<number, Workflow>;
   private nodes: Map<number, Node>;
   private logs: Map<number, Log>;
+  private executionRecords: Map<number, ExecutionRecord>;
+  private queuedRuns: Map<number, QueuedRun>;
+  private approvals: Map<number, Approval>;
   
   private userId: number;
   private agentId: number;
   private workflowId: number;
   private nodeId: number;
   private logId: number;
+  private executionRecordId: number;
+  private queuedRunId: number;
+  private approvalId: number;
   
   // Public db property to allow access to the database
   public db: Database;
+  // Resolves once persisted data has been loaded
+  public ready: Promise<void>;
   private initializing: boolean;
 
   constructor() {
@@ -89,18 +118,24 @@ export class MemStorage implements IStorage {
     this.workflows = new Map();
     this.nodes = new Map();
     this.logs = new Map();
+    this.executionRecords = new Map();
+    this.queuedRuns = new Map();
+    this.approvals = new Map();
     
     this.userId = 1;
     this.agentId = 1;
     this.workflowId = 1;
     this.nodeId = 1;
     this.logId = 1;
+    this.executionRecordId = 1;
+    this.queuedRunId = 1;
+    this.approvalId = 1;
     
     // Initialize Replit Database
     this.db = new Database();
     
     // Load persisted data or initialize with sample data
-    this.initialize();
+    this.ready = this.initialize();
   }
   
   /**
@@ -133,7 +168,10 @@ export class MemStorage implements IStorage {
         this.saveWorkflows(),
         this.saveAgents(),
         this.saveNodes(),
-        this.saveLogs()
+        this.saveLogs(),
+        this.saveExecutionRecords(),
+        this.saveQueuedRuns(),
+        this.saveApprovals()
       ]);
       
       console.log('All data saved to Replit Database');
@@ -337,6 +375,57 @@ export class MemStorage implements IStorage {
         }
       }
       
+      // Load execution records
+      const executionRecordsData = await this.db.get('executionRecords') as unknown;
+      if (executionRecordsData) {
+        const records = this.parseDbResult(executionRecordsData);
+        
+        if (Array.isArray(records)) {
+          records.forEach((record: ExecutionRecord) => {
+            this.executionRecords.set(record.id, record);
+            if (record.id >= this.executionRecordId) {
+              this.executionRecordId = record.id + 1;
+            }
+          });
+          console.log(`Loaded ${records.length} execution records from Replit Database`);
+          hasData = true;
+        }
+      }
+      
+      // Load the run queue
+      const queuedRunsData = await this.db.get('queuedRuns') as unknown;
+      if (queuedRunsData) {
+        const runs = this.parseDbResult(queuedRunsData);
+        
+        if (Array.isArray(runs)) {
+          runs.forEach((run: QueuedRun) => {
+            this.queuedRuns.set(run.id, run);
+            if (run.id >= this.queuedRunId) {
+              this.queuedRunId = run.id + 1;
+            }
+          });
+          console.log(`Loaded ${runs.length} queued runs from Replit Database`);
+          hasData = true;
+        }
+      }
+      
+      // Load approvals
+      const approvalsData = await this.db.get('approvals') as unknown;
+      if (approvalsData) {
+        const approvals = this.parseDbResult(approvalsData);
+        
+        if (Array.isArray(approvals)) {
+          approvals.forEach((approval: Approval) => {
+            this.approvals.set(approval.id, approval);
+            if (approval.id >= this.approvalId) {
+              this.approvalId = approval.id + 1;
+            }
+          });
+          console.log(`Loaded ${approvals.length} approvals from Replit Database`);
+          hasData = true;
+        }
+      }
+      
       // Initialize with sample data if no persisted data was found
       if (!hasData) {
         console.log('No persisted data found, initializing with default data');
@@ -532,6 +621,54 @@ export class MemStorage implements IStorage {
     
     return this.saveData('logs', logs);
   }
+  
+  /**
+   * Save execution records to Replit Database
+   */
+  private async saveExecutionRecords() {
+    if (this.initializing) return;
+    // Records hold every node's inputs and outputs, so fewer are kept than logs
+    const records = this.getExecutionRecordsByRecency().slice(0, 50);
+    return this.saveData('executionRecords', records);
+  }
+  
+  /**
+   * Save the run queue to Replit Database
+   */
+  private async saveQueuedRuns() {
+    if (this.initializing) return;
+    // Unfinished runs must survive a restart; of the finished ones, only the latest are kept
+    const runs = Array.from(this.queuedRuns.values());
+    const unfinished = runs.filter(run => run.status === 'queued' || run.status === 'running');
+    const finished = runs
+      .filter(run => run.status !== 'queued' && run.status !== 'running')
+      .sort((a, b) => b.id - a.id)
+      .slice(0, 100);
+    return this.saveData('queuedRuns', [...unfinished, ...finished]);
+  }
+  
+  /**
+   * Save approvals to Replit Database
+   */
+  private async saveApprovals() {
+    if (this.initializing) return;
+    // Pending approvals hold the state of suspended runs; of the decided ones, only the latest are kept
+    const approvals = Array.from(this.approvals.values());
+    const pending = approvals.filter(approval => approval.status === 'pending');
+    const decided = approvals
+      .filter(approval => approval.status !== 'pending')
+      .sort((a, b) => b.id - a.id)
+      .slice(0, 100);
+    return this.saveData('approvals', [...pending, ...decided]);
+  }
+  
+  /**
+   * All execution records, most recent first
+   */
+  private getExecutionRecordsByRecency(): ExecutionRecord[] {
+    return Array.from(this.executionRecords.values())
+      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+  }
 
   async createWorkflow(insertWorkflow: InsertWorkflow): Promise<Workflow> {
     const id = this.workflowId++;
@@ -761,6 +898,171 @@ export class MemStorage implements IStorage {
     
     return updatedLog;
   }
+  
+  // Execution record methods
+  async getExecutionRecords(workflowId?: number, limit: number = 20): Promise<ExecutionRecord[]> {
+    const records = this.getExecutionRecordsByRecency();
+    
+    // Filter by workflowId if provided
+    const filtered = workflowId
+      ? records.filter(record => record.workflowId === workflowId)
+      : records;
+    
+    return filtered.slice(0, limit);
+  }
+  
+  async getExecutionRecord(id: number): Promise<ExecutionRecord | undefined> {
+    return this.executionRecords.get(id);
+  }
+  
+  async createExecutionRecord(insertRecord: InsertExecutionRecord): Promise<ExecutionRecord> {
+    const id = this.executionRecordId++;
+    
+    const record: ExecutionRecord = {
+      id,
+      workflowId: insertRecord.workflowId,
+      logId: insertRecord.logId ?? null,
+      runId: insertRecord.runId ?? null,
+      status: insertRecord.status,
+      input: insertRecord.input,
+      output: insertRecord.output,
+      error: insertRecord.error || null,
+      workflowSnapshot: insertRecord.workflowSnapshot,
+      nodes: insertRecord.nodes || {},
+      executionOrder: insertRecord.executionOrder || [],
+      rerunFrom: insertRecord.rerunFrom ?? null,
+      environment: insertRecord.environment,
+      startedAt: new Date(),
+      completedAt: insertRecord.completedAt || null
+    };
+    
+    this.executionRecords.set(id, record);
+    this.saveExecutionRecords();
+    
+    return record;
+  }
+  
+  async updateExecutionRecord(id: number, recordUpdate: Partial<ExecutionRecord>): Promise<ExecutionRecord | undefined> {
+    const record = this.executionRecords.get(id);
+    if (!record) return undefined;
+    
+    const updatedRecord: ExecutionRecord = {
+      ...record,
+      ...recordUpdate,
+      id
+    };
+    this.executionRecords.set(id, updatedRecord);
+    
+    // Persist once the run has finished
+    if (updatedRecord.status !== 'running') {
+      this.saveExecutionRecords();
+    }
+    
+    return updatedRecord;
+  }
+  
+  // Run queue methods
+  async getQueuedRuns(filter: { workflowId?: number; status?: QueuedRunStatus[]; limit?: number } = {}): Promise<QueuedRun[]> {
+    // Oldest first, the order in which workers take runs
+    const runs = Array.from(this.queuedRuns.values())
+      .filter(run => filter.workflowId === undefined || run.workflowId === filter.workflowId)
+      .filter(run => !filter.status || filter.status.includes(run.status))
+      .sort((a, b) => a.id - b.id);
+    
+    return filter.limit !== undefined ? runs.slice(-filter.limit) : runs;
+  }
+  
+  async getQueuedRun(id: number): Promise<QueuedRun | undefined> {
+    return this.queuedRuns.get(id);
+  }
+  
+  async createQueuedRun(insertRun: InsertQueuedRun): Promise<QueuedRun> {
+    const id = this.queuedRunId++;
+    
+    const run: QueuedRun = {
+      ...insertRun,
+      id,
+      options: insertRun.options || {},
+      sourceNodeId: insertRun.sourceNodeId ?? null,
+      attempts: insertRun.attempts || 0,
+      error: insertRun.error || null,
+      enqueuedAt: new Date(),
+      startedAt: insertRun.startedAt || null,
+      completedAt: insertRun.completedAt || null
+    };
+    
+    this.queuedRuns.set(id, run);
+    // Saved right away: the queue is what lets runs survive a restart
+    await this.saveQueuedRuns();
+    
+    return run;
+  }
+  
+  async updateQueuedRun(id: number, runUpdate: Partial<QueuedRun>): Promise<QueuedRun | undefined> {
+    const run = this.queuedRuns.get(id);
+    if (!run) return undefined;
+    
+    const updatedRun: QueuedRun = {
+      ...run,
+      ...runUpdate,
+      id
+    };
+    this.queuedRuns.set(id, updatedRun);
+    await this.saveQueuedRuns();
+    
+    return updatedRun;
+  }
+  
+  // Approval methods
+  async getApprovals(filter: { workflowId?: number; agentId?: number; status?: ApprovalStatus } = {}): Promise<Approval[]> {
+    // Newest first
+    return Array.from(this.approvals.values())
+      .filter(approval => filter.workflowId === undefined || approval.workflowId === filter.workflowId)
+      .filter(approval => filter.agentId === undefined || approval.agentId === filter.agentId)
+      .filter(approval => !filter.status || approval.status === filter.status)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getApproval(id: number): Promise<Approval | undefined> {
+    return this.approvals.get(id);
+  }
+  
+  async createApproval(insertApproval: InsertApproval): Promise<Approval> {
+    const id = this.approvalId++;
+    
+    const approval: Approval = {
+      ...insertApproval,
+      id,
+      agentId: insertApproval.agentId ?? null,
+      message: insertApproval.message ?? null,
+      comment: insertApproval.comment ?? null,
+      decidedBy: insertApproval.decidedBy ?? null,
+      decidedAt: insertApproval.decidedAt ?? null,
+      resumedQueuedRunId: insertApproval.resumedQueuedRunId ?? null,
+      createdAt: new Date()
+    };
+    
+    this.approvals.set(id, approval);
+    // Saved right away: the approval is all that is left of the suspended run
+    await this.saveApprovals();
+    
+    return approval;
+  }
+  
+  async updateApproval(id: number, approvalUpdate: Partial<Approval>): Promise<Approval | undefined> {
+    const approval = this.approvals.get(id);
+    if (!approval) return undefined;
+    
+    const updatedApproval: Approval = {
+      ...approval,
+      ...approvalUpdate,
+      id
+    };
+    this.approvals.set(id, updatedApproval);
+    await this.saveApprovals();
+    
+    return updatedApproval;
+  }
 }
 
 // Create and export a single instance of the storage
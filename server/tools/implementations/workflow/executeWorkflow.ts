@@ -5,10 +5,7 @@
  */
 import { Tool, ToolResult } from '../../toolTypes';
 import { storage } from '../../../storage';
-
-// Import from routes.ts - this is a bit of a hack but avoids circular dependencies
-// Would be better to move runWorkflow to a separate utility file in a production app
-import { runWorkflow } from '../../../routes';
+import { runWorkflow } from '../../../services/workflowRunner';
 
 const executeWorkflowTool: Tool = {
   name: 'executeWorkflow',
@@ -78,6 +78,141 @@ export const insertLogSchema = logSchema.omit({
 export type InsertLog = z.infer<typeof insertLogSchema>;
 export type Log = z.infer<typeof logSchema>;
 
+// Environments a workflow can run in; each has its own values for the workflow's variables
+export const workflowEnvironmentSchema = z.enum(["dev", "staging", "prod"]);
+
+export type WorkflowEnvironment = z.infer<typeof workflowEnvironmentSchema>;
+
+// Workflow variables: values by variable name, per environment
+export const workflowVariablesSchema = z.object({
+  dev: z.record(z.any()).optional(),
+  staging: z.record(z.any()).optional(),
+  prod: z.record(z.any()).optional()
+});
+
+export type WorkflowVariables = z.infer<typeof workflowVariablesSchema>;
+
+// Execution record schema: everything captured about a single node in a run
+export const executionNodeRecordSchema = z.object({
+  nodeId: z.string(),
+  nodeType: z.string(),
+  status: z.string(), // "completed", "error", "skipped"
+  inputs: z.record(z.any()).default({}), // Resolved inputs, keyed by input port
+  output: z.any().optional(), // Node execution data (items and meta)
+  error: z.string().nullable().optional(),
+  attempts: z.array(z.record(z.any())).default([]), // Every try, including retries
+  startedAt: z.date().nullable().optional(),
+  completedAt: z.date().nullable().optional()
+});
+
+export type ExecutionNodeRecord = z.infer<typeof executionNodeRecordSchema>;
+
+// Execution record schema: the full capture of a workflow run, for inspecting it later
+export const executionRecordSchema = z.object({
+  id: z.number(),
+  workflowId: z.number(),
+  logId: z.number().nullable().optional(), // Log entry of the same run
+  runId: z.string().nullable().optional(), // ID the run's events were published under
+  status: z.string(), // "running", "completed", "error", "cancelled"
+  input: z.any(),
+  output: z.any().optional(),
+  error: z.string().nullable().optional(),
+  workflowSnapshot: z.record(z.any()), // The exact flow data (nodes, edges, settings) that ran
+  nodes: z.record(executionNodeRecordSchema).default({}), // Keyed by node ID
+  executionOrder: z.array(z.string()).default([]),
+  // Set when the run re-ran part of an earlier run, reusing the other nodes' outputs
+  rerunFrom: z.object({
+    nodeId: z.string(),
+    executionRecordId: z.number()
+  }).nullable().optional(),
+  environment: workflowEnvironmentSchema.optional(), // Environment whose variables the run used
+  startedAt: z.date().default(() => new Date()),
+  completedAt: z.date().nullable().optional()
+});
+
+export const insertExecutionRecordSchema = executionRecordSchema.omit({
+  id: true,
+  startedAt: true
+});
+
+export type InsertExecutionRecord = z.infer<typeof insertExecutionRecordSchema>;
+export type ExecutionRecord = z.infer<typeof executionRecordSchema>;
+
+// Queued run schema: a workflow run in the durable run queue
+export const queuedRunStatusSchema = z.enum(["queued", "running", "succeeded", "failed", "cancelled"]);
+
+export type QueuedRunStatus = z.infer<typeof queuedRunStatusSchema>;
+
+export const queuedRunSchema = z.object({
+  id: z.number(),
+  runId: z.string(), // ID the run's events are published under
+  workflowId: z.number(),
+  status: queuedRunStatusSchema,
+  input: z.any(),
+  options: z.record(z.any()).default({}), // runWorkflow options, e.g. environment and nodeInputs
+  source: z.string(), // "api", "webhook", "schedule", "approval"
+  sourceNodeId: z.string().nullable().optional(), // Trigger node that enqueued the run, or the decided approval node
+  attempts: z.number().default(0), // How many times a worker has picked the run up
+  output: z.any().optional(),
+  webhookResponse: z.object({ // Response a webhook_response node in respond mode set for the calling webhook
+    statusCode: z.number(),
+    headers: z.record(z.string()),
+    body: z.string()
+  }).nullable().optional(),
+  error: z.string().nullable().optional(),
+  logId: z.number().nullable().optional(),
+  executionRecordId: z.number().nullable().optional(),
+  enqueuedAt: z.date().default(() => new Date()),
+  startedAt: z.date().nullable().optional(),
+  completedAt: z.date().nullable().optional()
+});
+
+export const insertQueuedRunSchema = queuedRunSchema.omit({
+  id: true,
+  enqueuedAt: true
+});
+
+export type InsertQueuedRun = z.infer<typeof insertQueuedRunSchema>;
+export type QueuedRun = z.infer<typeof queuedRunSchema>;
+
+// Approval schema: a run suspended at an approval node, waiting for a human decision
+export const approvalStatusSchema = z.enum(["pending", "approved", "rejected"]);
+
+export type ApprovalStatus = z.infer<typeof approvalStatusSchema>;
+
+export const approvalSchema = z.object({
+  id: z.number(),
+  workflowId: z.number(),
+  agentId: z.number().nullable().optional(), // Agent of the workflow, whose page lists the approval
+  nodeId: z.string(), // The approval node the run waits at
+  status: approvalStatusSchema,
+  title: z.string(),
+  message: z.string().nullable().optional(), // Instructions for the reviewer
+  data: z.any(), // What the reviewer decides on: the approval node's input
+  // The saved run the decision resumes: its input and options, and the outputs of the nodes that ran
+  runState: z.object({
+    input: z.any(),
+    options: z.record(z.any()).default({}),
+    nodeOutputs: z.record(z.any()).default({})
+  }),
+  logId: z.number().nullable().optional(),
+  executionRecordId: z.number().nullable().optional(),
+  runId: z.string().nullable().optional(),
+  comment: z.string().nullable().optional(), // The reviewer's comment on the decision
+  decidedBy: z.string().nullable().optional(),
+  decidedAt: z.date().nullable().optional(),
+  resumedQueuedRunId: z.number().nullable().optional(), // Queued run that continues the run after the decision
+  createdAt: z.date().default(() => new Date())
+});
+
+export const insertApprovalSchema = approvalSchema.omit({
+  id: true,
+  createdAt: true
+});
+
+export type InsertApproval = z.infer<typeof insertApprovalSchema>;
+export type Approval = z.infer<typeof approvalSchema>;
+
 // Workflow schema
 export const workflowSchema = z.object({
   id: z.number(),
@@ -90,7 +225,8 @@ export const workflowSchema = z.object({
   updatedAt: z.date().default(() => new Date()),
   userId: z.number().nullable().optional(),
   agentId: z.number().nullable().optional(),
-  flowData: z.union([z.record(z.any()), z.string(), z.null()]).optional()
+  flowData: z.union([z.record(z.any()), z.string(), z.null()]).optional(),
+  variables: workflowVariablesSchema.nullable().optional() // Read in node settings as {{ $vars.name }}
 });
 
 export const insertWorkflowSchema = workflowSchema.omit({